@@ -2,24 +2,94 @@ import React, { useState, useEffect, useRef } from 'react';
 import { 
   Folder, Upload, Plus, Search, LogOut, 
   ChevronRight, ArrowLeft, Loader2, Download, Trash2, 
-  User as UserIcon, Lock, Mail, X, CheckCircle,
+  User as UserIcon, Lock, Mail, X, CheckCircle, KeyRound,
   Play, Share2, Copy, Globe, Settings, Users, HardDrive, Shield, CreditCard, Save,
-  Server, Cloud, Database, ToggleLeft, ToggleRight, FileText, AlertCircle, RefreshCw
+  Server, Cloud, Database, ToggleLeft, ToggleRight, FileText, AlertCircle, RefreshCw, FolderUp, Monitor,
+  ScrollText, FileJson, FileSpreadsheet, Unlock, History, Terminal, BarChart3
 } from 'lucide-react';
 import { FileIcon } from './components/FileIcon';
 import { AdminChart } from './components/AdminChart';
-import { CloudFile, CloudFolder, User, FileType, SystemStats, CDNConfig } from './types';
+import { QrCode } from './components/QrCode';
+import { ShareTimeline } from './components/ShareTimeline';
+import { CloudFile, CloudFolder, ShareFields, User, FileType, SystemStats, CDNConfig, UploadSession, UploadQueueItem, MigrationState, ConnectionTestResult, Session, SecurityPolicy, FileAccess, AuditEntry, AuditAction, LoginAttempts, PlanLimits, StorageProviderId, AccessToken, TokenScope, ShareSettings, SharedFolderListing, ShareGrant, ShareRole, ShareStats } from './types';
 import { 
-    initDB, registerUser, loginUser, addFileToDB, 
+    initDB, registerUser, loginUser, completeTwoFactorLogin,
+    enableTwoFactor, disableTwoFactor, regenerateRecoveryCodes, getRemainingRecoveryCodes,
+    getSecurityPolicy, saveSecurityPolicy,
+    changePassword, createPasswordReset, checkPasswordResetToken, resetPasswordWithToken,
+    enableEncryption,
     getFilesFromDB, getFoldersFromDB, addFolderToDB, 
-    deleteFileFromDB, getSystemStats, getFileContent,
-    updateFileShareStatus, getFileByShareToken,
-    getAllUsers, updateUser, deleteUser, getAllFilesGlobal,
-    saveCDNConfig, getCDNConfig,
-    trashFile, restoreFile, getTrashedItems, emptyTrash
+    getSystemStats,
+    updateFileShareStatus, updateShareSettings, getFileByShareToken, getFile,
+    updateFolderShareStatus, updateFolderShareSettings, getFolderByShareToken, getFolder,
+    getSharedFolderListing, getSharedFile,
+    shareWithUser, getItemGrants, revokeGrant, getSharedWithMe, getShareRole,
+    registerShareView, getShareStats, getMyShares,
+    getAllUsers, getUserById, updateUser, deleteUser, getAllFilesGlobal,
+    trashFile, restoreFile, getTrashedItems, getAuditEntries, getSecurityHistory,
+    getLockedAccounts, unlockAccount,
+    isSetupComplete, completeSetup, getPlanLimits, DEFAULT_PLAN_LIMITS
 } from './utils/db';
+import {
+    uploadFile, getFileContent, getFileDownloadUrl, getSharedFolderEntries, purgeFile, emptyTrash,
+    getPendingUploads, discardUpload, validateCDNConfig, testConnection
+} from './utils/storage';
+import { createMigrationJob, getFilesToMigrate } from './utils/migration';
+import {
+    getMaskedCDNConfig, saveProviderConfig, withStoredSecrets, getProviderConfig,
+    isVaultConfigured, isVaultUnlocked, setupVault, unlockVault, lockVault, rotatePassphrase, VaultLockedError, VAULT_UNLOCK_TTL_MS
+} from './utils/secrets';
+import {
+    createSession, restoreSession, touchSession, endSession, getCurrentSessionId,
+    getActiveSessions, revokeSession, revokeAllSessions, revokeOtherSessions
+} from './utils/sessions';
+import { generateTotpSecret, buildOtpAuthUri } from './utils/totp';
+import { NestedFile, collectDroppedFiles, filesFromDirectoryInput, ensureFolderTree } from './utils/folderUpload';
+import { ForbiddenError, NotFoundError, describeError } from './utils/permissions';
+import { MIN_PASSWORD_LENGTH } from './utils/passwords';
+import { getFileType } from './utils/fileTypes';
+import { ShareExpiryChoice, SHARE_EXPIRY_LABELS, SHARE_PROBLEM_MESSAGES, resolveShareExpiry, getShareProblem } from './utils/sharing';
+import { createAccessToken, getAccessTokens, revokeAccessToken, isTokenExpired } from './utils/accessTokens';
+import { generateToken } from './utils/tokens';
+import { AUDIT_ACTION_LABELS, startOfDay, endOfDay, auditToCsv, auditToJson } from './utils/audit';
+import { unlockEncryption, lockEncryption, isEncryptionUnlocked, getShareKey } from './utils/encryption';
+import { createZip } from './utils/zip';
 
 // --- Helper Functions ---
+
+// Rows rendered in the audit tab; exports always include every matching entry
+const AUDIT_TABLE_LIMIT = 200;
+
+const SETUP_STEPS = ['Administrador', 'Armazenamento', 'Planos'];
+
+const TOKEN_SCOPE_LABELS: Record<TokenScope, string> = { read: 'Leitura', write: 'Escrita', share: 'Compartilhamento' };
+
+const SHARE_ROLE_LABELS: Record<ShareRole, string> = { viewer: 'Visualizador', editor: 'Editor' };
+
+const GB = 1024 * 1024 * 1024;
+
+// Permission, missing-record and locked-vault errors from the data layer are expected; show them as they are
+const reportError = (err: unknown) => {
+  if (!(err instanceof ForbiddenError || err instanceof NotFoundError || err instanceof VaultLockedError)) console.error(err);
+  alert(describeError(err));
+};
+
+// ISO timestamp as the value of a datetime-local input (local time, minutes)
+const toLocalDateTimeInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// Saves an object URL or a direct link under the given name
+const triggerDownload = (href: string, fileName: string) => {
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
+
 const formatSize = (bytes: number) => {
   if (bytes === 0) return '0 B';
   const k = 1024;
@@ -28,15 +98,18 @@ const formatSize = (bytes: number) => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
-const getFileType = (mimeType: string): FileType => {
-  if (mimeType.startsWith('image/')) return FileType.IMAGE;
-  if (mimeType.startsWith('video/')) return FileType.VIDEO;
-  if (mimeType.startsWith('audio/')) return FileType.AUDIO;
-  if (mimeType.includes('pdf') || mimeType.includes('text') || mimeType.includes('document')) return FileType.DOCUMENT;
-  if (mimeType.includes('zip') || mimeType.includes('rar') || mimeType.includes('7z')) return FileType.ARCHIVE;
-  return FileType.UNKNOWN;
+// Short "Browser • OS" label for the sessions list
+const describeUserAgent = (ua: string): string => {
+  const browser = /Edg\//.test(ua) ? 'Edge' : /OPR\//.test(ua) ? 'Opera' : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome' : /Safari\//.test(ua) ? 'Safari' : 'Navegador';
+  const os = /Windows/.test(ua) ? 'Windows' : /Android/.test(ua) ? 'Android' : /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Mac OS X/.test(ua) ? 'macOS' : /Linux/.test(ua) ? 'Linux' : 'Sistema desconhecido';
+  return `${browser} • ${os}`;
 };
 
+// How many files of the upload queue are sent at the same time
+const MAX_PARALLEL_UPLOADS = 3;
+
 const translateFileType = (type: FileType): string => {
   switch (type) {
     case FileType.IMAGE: return 'Imagem';
@@ -68,6 +141,30 @@ const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & { variant
   );
 };
 
+// Totals of a share's accesses above its daily timeline
+const ShareStatsSummary: React.FC<{ stats: ShareStats }> = ({ stats }) => (
+  <div>
+    <div className="grid grid-cols-3 gap-2 text-center">
+      <div className="p-2 bg-slate-50 rounded-lg">
+        <div className="text-lg font-bold text-slate-800">{stats.views}</div>
+        <div className="text-xs text-slate-500">Acessos</div>
+      </div>
+      <div className="p-2 bg-slate-50 rounded-lg">
+        <div className="text-lg font-bold text-slate-800">{stats.downloads}</div>
+        <div className="text-xs text-slate-500">Downloads</div>
+      </div>
+      <div className="p-2 bg-slate-50 rounded-lg">
+        <div className="text-lg font-bold text-slate-800">{stats.visitors}</div>
+        <div className="text-xs text-slate-500">Visitantes</div>
+      </div>
+    </div>
+    <ShareTimeline data={stats.timeline} />
+    <p className="text-xs text-slate-400">
+      {stats.lastAccessAt ? `Último acesso em ${new Date(stats.lastAccessAt).toLocaleString()}` : 'Ninguém abriu este link ainda.'}
+    </p>
+  </div>
+);
+
 const Footer = () => (
   <footer className="py-8 text-center text-slate-400 text-xs font-medium w-full mt-auto opacity-70 hover:opacity-100 transition-opacity">
     <p>CloudFire © {new Date().getFullYear()} - Armazenamento Seguro</p>
@@ -79,23 +176,83 @@ export default function App() {
   // --- State ---
   const [user, setUser] = useState<User | null>(null);
   const [isRegistering, setIsRegistering] = useState(false);
-  const [view, setView] = useState<'login' | 'dashboard' | 'admin' | 'shared' | 'profile' | 'trash'>('login');
+  const [view, setView] = useState<'login' | 'dashboard' | 'admin' | 'shared' | 'profile' | 'trash' | 'sharedWithMe' | 'myShares' | 'reset' | 'setup'>('login');
   
   // Admin Sub-views
-  const [adminTab, setAdminTab] = useState<'overview' | 'users' | 'files' | 'config'>('overview');
+  const [adminTab, setAdminTab] = useState<'overview' | 'users' | 'files' | 'config' | 'audit'>('overview');
   const [adminUsers, setAdminUsers] = useState<User[]>([]);
+  const [lockedAccounts, setLockedAccounts] = useState<LoginAttempts[]>([]);
   const [adminFiles, setAdminFiles] = useState<CloudFile[]>([]);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditFilter, setAuditFilter] = useState<{ username: string; action: AuditAction | ''; from: string; to: string }>({ username: '', action: '', from: '', to: '' });
   const [cdnConfig, setCdnConfig] = useState<CDNConfig>({ provider: 'local', rootPath: 'public/content' });
   const [configSaved, setConfigSaved] = useState(false);
+  const [configErrors, setConfigErrors] = useState<string[]>([]);
+  const [connectionTest, setConnectionTest] = useState<ConnectionTestResult | null>(null);
+  const [isTestingConnection, setIsTestingConnection] = useState(false);
+  const [migrationState, setMigrationState] = useState<MigrationState | null>(null);
+  const [migrationPending, setMigrationPending] = useState(0);
+  const migrationJob = useRef<ReturnType<typeof createMigrationJob> | null>(null);
+  const [vaultStatus, setVaultStatus] = useState<'unset' | 'locked' | 'unlocked'>('locked');
+  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [vaultNewPassphrase, setVaultNewPassphrase] = useState('');
+  const [vaultConfirm, setVaultConfirm] = useState('');
+  const [isRotatingPassphrase, setIsRotatingPassphrase] = useState(false);
+  const [vaultError, setVaultError] = useState('');
+  const [securityPolicy, setSecurityPolicy] = useState<SecurityPolicy>({ requireAdminTwoFactor: false });
+
+  // Two-Factor State (profile)
+  const [twoFactorSetup, setTwoFactorSetup] = useState<{ secret: string; uri: string } | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [twoFactorError, setTwoFactorError] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [remainingRecoveryCodes, setRemainingRecoveryCodes] = useState(0);
+
+  // Setup Wizard State
+  const [setupStep, setSetupStep] = useState(0);
+  const [setupForm, setSetupForm] = useState({
+    username: '', email: '', password: '', confirm: '',
+    provider: 'local' as StorageProviderId, rootPath: 'public/content',
+    freeGb: String(DEFAULT_PLAN_LIMITS.free / GB), proGb: String(DEFAULT_PLAN_LIMITS.pro / GB), enterpriseGb: String(DEFAULT_PLAN_LIMITS.enterprise / GB),
+  });
+  const [setupError, setSetupError] = useState('');
+  const [planLimits, setPlanLimits] = useState<PlanLimits>(DEFAULT_PLAN_LIMITS);
 
   // Auth Form State
   const [authUsername, setAuthUsername] = useState('');
   const [authPassword, setAuthPassword] = useState('');
   const [authEmail, setAuthEmail] = useState('');
   const [authError, setAuthError] = useState('');
+  const [authNotice, setAuthNotice] = useState('');
+
+  // Password Change / Reset State
+  const [passwordCurrent, setPasswordCurrent] = useState('');
+  const [passwordNew, setPasswordNew] = useState('');
+  const [passwordConfirm, setPasswordConfirm] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [passwordChanged, setPasswordChanged] = useState(false);
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [resetUsername, setResetUsername] = useState<string | null>(null);
+  const [adminResetLink, setAdminResetLink] = useState<{ username: string; url: string; expiresAt: string } | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
+  const [authCode, setAuthCode] = useState('');
+  const [activeSessions, setActiveSessions] = useState<Session[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [securityHistory, setSecurityHistory] = useState<AuditEntry[]>([]);
+  const [accessTokens, setAccessTokens] = useState<AccessToken[]>([]);
+  const [tokenForm, setTokenForm] = useState<{ name: string; scopes: TokenScope[]; expiresInDays: string }>({ name: '', scopes: ['read'], expiresInDays: '30' });
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [tokenError, setTokenError] = useState('');
+
+  // Encryption State
+  const [encryptionUnlocked, setEncryptionUnlocked] = useState(false);
+  const [encryptionPassword, setEncryptionPassword] = useState('');
+  const [encryptionError, setEncryptionError] = useState('');
 
   // File System State
   const [currentFolderId, setCurrentFolderId] = useState<string>('root');
+  const [currentFolder, setCurrentFolder] = useState<CloudFolder | null>(null);
+  const [currentFolderRole, setCurrentFolderRole] = useState<ShareRole | null>(null); // Set inside folders shared with the user
   const [folders, setFolders] = useState<CloudFolder[]>([]);
   const [files, setFiles] = useState<CloudFile[]>([]);
   const [isLoadingFiles, setIsLoadingFiles] = useState(false);
@@ -105,8 +262,8 @@ export default function App() {
 
   // UI State
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [isUploading, setIsUploading] = useState(false);
+  const [uploadQueue, setUploadQueue] = useState<UploadQueueItem[]>([]);
+  const [pendingUploads, setPendingUploads] = useState<UploadSession[]>([]);
   
   const [isFolderModalOpen, setIsFolderModalOpen] = useState(false);
   const [folderNameInput, setFolderNameInput] = useState('');
@@ -115,105 +272,135 @@ export default function App() {
   // Sharing UI
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
   const [shareLinkCopied, setShareLinkCopied] = useState(false);
+  const [shareLink, setShareLink] = useState('');
+  const [shareForm, setShareForm] = useState<{ expiry: ShareExpiryChoice; customExpiry: string; maxDownloads: string; password: string }>({ expiry: '7d', customExpiry: '', maxDownloads: '', password: '' });
+  const [shareFolder, setShareFolder] = useState<CloudFolder | null>(null); // Set when the modal is about a folder
+  const shareItem: CloudFile | CloudFolder | null = shareFolder || selectedFile;
+  const [shareGrants, setShareGrants] = useState<ShareGrant[]>([]);
+  const [grantForm, setGrantForm] = useState<{ login: string; role: ShareRole }>({ login: '', role: 'viewer' });
+  const [shareStats, setShareStats] = useState<ShareStats | null>(null);
+  const [myShares, setMyShares] = useState<ShareStats[]>([]);
 
   // Shared View State
+  const [sharedToken, setSharedToken] = useState('');
   const [sharedFile, setSharedFile] = useState<CloudFile | null>(null);
+  const [sharedFolder, setSharedFolder] = useState<CloudFolder | null>(null);
+  const [sharedListing, setSharedListing] = useState<SharedFolderListing | null>(null);
+  const [sharedPreviewFile, setSharedPreviewFile] = useState<CloudFile | null>(null);
+  const [isZipping, setIsZipping] = useState(false);
   const [sharedError, setSharedError] = useState('');
+  const [sharedStorageError, setSharedStorageError] = useState(''); // Set while the provider can't be read (locked vault)
+  const [sharedFileKey, setSharedFileKey] = useState<string | undefined>(undefined);
+  const [sharedPassword, setSharedPassword] = useState<string | undefined>(undefined); // Set once accepted
+  const [sharedPasswordInput, setSharedPasswordInput] = useState('');
+  const [sharedPasswordError, setSharedPasswordError] = useState('');
   
   // Preview States
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const uploadControllers = useRef(new Map<string, AbortController>());
 
   // --- Initialization ---
   useEffect(() => {
     initDB().then(async () => {
-      // Force Create/Update default admin user
-      const adminUser: User = {
-        id: 'admin',
-        username: 'admin',
-        password: 'password', // Default admin credentials
-        email: 'admin@cloudfire.com',
-        role: 'admin',
-        plan: 'enterprise',
-        avatar: 'https://ui-avatars.com/api/?name=Admin&background=0D8ABC&color=fff',
-        storageUsed: 0,
-        storageLimit: 100 * 1024 * 1024 * 1024,
-        createdAt: new Date().toISOString(),
-        isActive: true
-      };
-
-      try {
-          await registerUser(adminUser);
-      } catch (e) {
-          await updateUser(adminUser);
+      // A fresh database has no accounts yet: the wizard creates the first admin
+      if (!(await isSetupComplete())) {
+          setView('setup');
+          return;
       }
 
+      setSecurityPolicy(await getSecurityPolicy());
+      setPlanLimits(await getPlanLimits());
+
       // Check for Share Link
       const params = new URLSearchParams(window.location.search);
       const shareToken = params.get('share');
-      if (shareToken) {
+      const passwordResetToken = params.get('reset');
+      if (passwordResetToken) {
+          setView('reset');
+          setResetToken(passwordResetToken);
+          setResetUsername(await checkPasswordResetToken(passwordResetToken));
+      } else if (shareToken) {
           setView('shared');
+          setSharedToken(shareToken);
           setIsLoadingPreview(true);
           try {
              const file = await getFileByShareToken(shareToken);
-             if (file) {
+             const folder = file ? null : await getFolderByShareToken(shareToken);
+             if (file || folder) await registerShareView(shareToken);
+             if (folder) {
+                 setSharedFolder(folder);
+                 if (!folder.sharePassword) setSharedListing(await getSharedFolderListing(shareToken, folder.id));
+             } else if (file) {
                  setSharedFile(file);
-                 const blob = await getFileContent(file.id);
-                 if (blob) {
-                     setPreviewUrl(URL.createObjectURL(blob));
-                 }
+                 // Encrypted files carry their key in the fragment (#k=...), which browsers never send
+                 const fileKey = new URLSearchParams(window.location.hash.slice(1)).get('k') || undefined;
+                 setSharedFileKey(fileKey);
+                 // Protected links wait for the password prompt before any content is read
+                 if (!file.sharePassword) await loadSharedPreview(file, { shareToken, fileKey }, file);
              } else {
                  setSharedError('Arquivo não encontrado ou link expirado.');
              }
           } catch (e) {
-              setSharedError('Erro ao carregar arquivo compartilhado.');
+              // A locked vault only keeps the content away; the link itself is fine
+              if (e instanceof VaultLockedError) setSharedStorageError(e.message);
+              else setSharedError(e instanceof Error && e.message ? e.message : 'Erro ao carregar arquivo compartilhado.');
           } finally {
               setIsLoadingPreview(false);
           }
       } else {
           // Only check session if not accessing a shared link
-          const savedUserId = localStorage.getItem('cloudfire_user');
-          if (savedUserId) {
-              try {
-                  const users = await getAllUsers();
-                  const found = users.find(u => u.id === savedUserId);
-                  if (found && found.isActive) {
-                      setUser(found);
-                      setView(found.role === 'admin' ? 'admin' : 'dashboard');
-                  }
-              } catch (e) {
-                  console.error("Session restore failed", e);
+          localStorage.removeItem('cloudfire_user'); // Pre-session builds trusted a bare user id here
+          try {
+              const found = await restoreSession();
+              if (found) {
+                  setUser(found);
+                  setView(found.role === 'admin' ? 'admin' : 'dashboard');
               }
+          } catch (e) {
+              console.error("Session restore failed", e);
           }
       }
 
-      // Load Config
-      const conf = await getCDNConfig();
-      if (conf) {
-          setCdnConfig({
-              ...conf,
-              rootPath: conf.rootPath || 'public/content' // Default
-          });
-      }
+      // Load Config (credentials stay encrypted; the form only sees them masked)
+      const conf = await getMaskedCDNConfig();
+      setCdnConfig({
+          ...conf,
+          rootPath: conf.rootPath || 'public/content' // Default
+      });
     });
   }, []);
 
   // --- Data Loading ---
+  const isDriveView = view === 'dashboard' || view === 'trash' || view === 'sharedWithMe';
+  // Uploads and new folders go to the open folder: the user's own, or a shared one they may edit
+  const canAddHere = view === 'dashboard' || (view === 'sharedWithMe' && currentFolderRole === 'editor');
+
   const loadContent = async (folderId: string) => {
     if (!user) return;
     setIsLoadingFiles(true);
     try {
+      const folder = folderId === 'root' ? null : await getFolder(user, folderId);
+      setCurrentFolder(folder);
+      setCurrentFolderRole(folder ? await getShareRole(user, folder) : null);
       if (view === 'trash') {
         // Load Trash
-        const { files: trashedFiles } = await getTrashedItems(user.id);
+        const { files: trashedFiles } = await getTrashedItems(user);
         setFiles(trashedFiles);
         setFolders([]); // We only support trashed files display for now
+      } else if (view === 'sharedWithMe' && folderId === 'root') {
+        // Items other users shared directly; their folders open like any other
+        const shared = await getSharedWithMe(user);
+        setFiles(shared.files);
+        setFolders(shared.folders);
       } else {
         // Load Normal Dashboard Content
-        const fetchedFolders = await getFoldersFromDB(folderId, user.id);
-        const fetchedFiles = await getFilesFromDB(folderId, user.id);
+        const fetchedFolders = await getFoldersFromDB(user, folderId);
+        const fetchedFiles = await getFilesFromDB(user, folderId);
         setFiles(fetchedFiles);
         setFolders(fetchedFolders);
       }
@@ -225,21 +412,26 @@ export default function App() {
   };
 
   useEffect(() => {
-    if (user && (view === 'dashboard' || view === 'trash')) {
+    if (user && (view === 'dashboard' || view === 'trash' || view === 'sharedWithMe')) {
       loadContent(currentFolderId);
     }
   }, [user, currentFolderId, view]);
 
   // Handle Preview Loading
   useEffect(() => {
-      // Only load logic if dashboard/trash view and a file is selected (not shared view)
-      if ((view === 'dashboard' || view === 'trash') && selectedFile) {
+      // Only load logic if a drive view has a file selected (not the public shared view)
+      if (isDriveView && selectedFile && user) {
           setIsLoadingPreview(true);
           setPreviewUrl(null);
           
           const loadPreview = async () => {
               try {
-                  const blob = await getFileContent(selectedFile.id);
+                  const directUrl = await getFileDownloadUrl(user, selectedFile);
+                  if (directUrl) {
+                      setPreviewUrl(directUrl);
+                      return;
+                  }
+                  const blob = await getFileContent(user, selectedFile);
                   if (blob) {
                       const url = URL.createObjectURL(blob);
                       setPreviewUrl(url);
@@ -257,7 +449,7 @@ export default function App() {
           } else {
               setIsLoadingPreview(false);
           }
-      } else if (view === 'dashboard' || view === 'trash') {
+      } else if (isDriveView) {
           if (previewUrl) {
               URL.revokeObjectURL(previewUrl);
           }
@@ -266,35 +458,154 @@ export default function App() {
       }
       
       return () => {
-           if ((view === 'dashboard' || view === 'trash') && previewUrl) URL.revokeObjectURL(previewUrl);
+           if (isDriveView && previewUrl) URL.revokeObjectURL(previewUrl);
+      };
+  }, [selectedFile, view, encryptionUnlocked]);
+
+  // The share form starts from the current link's limits, or the defaults for a new link
+  useEffect(() => {
+      if (!isShareModalOpen || !shareItem) return;
+      setShareForm({
+          expiry: shareItem.shareExpiresAt ? 'custom' : shareItem.isShared ? 'never' : '7d',
+          customExpiry: shareItem.shareExpiresAt ? toLocalDateTimeInput(shareItem.shareExpiresAt) : '',
+          maxDownloads: shareItem.shareMaxDownloads ? String(shareItem.shareMaxDownloads) : '',
+          password: '',
+      });
+  }, [isShareModalOpen, shareItem?.id]);
+
+  // People the item is shared with, for the owner's list in the share modal
+  useEffect(() => {
+      if (!isShareModalOpen || !user || !shareItem) {
+          setShareGrants([]);
+          return;
+      }
+      setGrantForm({ login: '', role: 'viewer' });
+      getItemGrants(user, shareItem.id).then(setShareGrants).catch(reportError);
+  }, [isShareModalOpen, shareItem?.id, user]);
+
+  // Accesses through the item's links, for the owner's summary in the share modal
+  useEffect(() => {
+      if (!isShareModalOpen || !user || !shareItem) {
+          setShareStats(null);
+          return;
+      }
+      getShareStats(user, { type: shareFolder ? 'folder' : 'file', id: shareItem.id }).then(setShareStats).catch(reportError);
+  }, [isShareModalOpen, shareItem?.id, user]);
+
+  // The "My shares" page, reloaded whenever the share modal closes over it
+  useEffect(() => {
+      if (view !== 'myShares' || !user || isShareModalOpen) return;
+      getMyShares(user).then(setMyShares).catch(reportError);
+  }, [view, user, isShareModalOpen]);
+
+  // Links to encrypted files carry the file key in the fragment, which needs the unlocked user key
+  useEffect(() => {
+      if (!isShareModalOpen || !user || !shareItem?.shareToken) {
+          setShareLink('');
+          return;
+      }
+      const base = `${window.location.origin}?share=${shareItem.shareToken}`;
+      (shareFolder || !selectedFile ? Promise.resolve(undefined) : getShareKey(user, selectedFile))
+          .then(key => setShareLink(key ? `${base}#k=${key}` : base))
+          .catch(err => {
+              setShareLink('');
+              reportError(err);
+          });
+  }, [isShareModalOpen, shareItem, user, encryptionUnlocked]);
+
+  // Admins without 2FA are kept out of the admin panel while the policy requires it
+  const mustEnrollTwoFactor = !!user && user.role === 'admin' && securityPolicy.requireAdminTwoFactor && !user.twoFactorEnabled;
+
+  // Re-validate the session every minute (expiry, idle timeout, revocation from another device),
+  // pick up changes an admin made to the account (role, plan, block) and count clicks and key
+  // presses as activity
+  useEffect(() => {
+      if (!user) return;
+      const check = setInterval(async () => {
+          const current = await restoreSession().catch(() => null);
+          if (!current) {
+              resetSignedInState();
+              setAuthError('Sua sessão expirou. Entre novamente.');
+              return;
+          }
+          setUser(prev => prev && JSON.stringify(prev) === JSON.stringify(current) ? prev : current);
+      }, 60 * 1000);
+      const onActivity = () => { touchSession().catch(() => {}); };
+      window.addEventListener('click', onActivity);
+      window.addEventListener('keydown', onActivity);
+      return () => {
+          clearInterval(check);
+          window.removeEventListener('click', onActivity);
+          window.removeEventListener('keydown', onActivity);
       };
-  }, [selectedFile, view]);
+  }, [user?.id]);
+
+  useEffect(() => {
+      if (view === 'profile' && user) {
+          loadSessions();
+          getRemainingRecoveryCodes(user).then(setRemainingRecoveryCodes).catch(() => {});
+          getSecurityHistory(user).then(setSecurityHistory).catch(() => setSecurityHistory([]));
+          getAccessTokens(user).then(setAccessTokens).catch(() => setAccessTokens([]));
+      }
+  }, [view, user?.id]);
+
+  useEffect(() => {
+      if (mustEnrollTwoFactor && view === 'admin') setView('profile');
+  }, [mustEnrollTwoFactor, view]);
+
+  // Interrupted uploads can be resumed by picking the same file again
+  useEffect(() => {
+      if (isUploadModalOpen && user) {
+          getPendingUploads(user).then(setPendingUploads).catch(() => setPendingUploads([]));
+      }
+  }, [isUploadModalOpen, user]);
 
   // Load Admin Stats & Data
   useEffect(() => {
     let isMounted = true;
     const fetchAdminData = async () => {
-        if (view === 'admin' && user?.role === 'admin') {
+        // The data layer refuses admin reads to admins the 2FA policy holds back; they're sent to enroll instead
+        if (view === 'admin' && user?.role === 'admin' && !mustEnrollTwoFactor) {
             try {
                 if (adminTab === 'overview') {
-                    const stats = await getSystemStats();
+                    const stats = await getSystemStats(user);
                     if (isMounted) setSystemStats(stats);
                 }
                 else if (adminTab === 'users') {
-                    const users = await getAllUsers();
-                    if (isMounted) setAdminUsers(users);
+                    const users = await getAllUsers(user);
+                    const locked = await getLockedAccounts(user);
+                    if (isMounted) {
+                        setAdminUsers(users);
+                        setLockedAccounts(locked);
+                    }
                 }
                 else if (adminTab === 'files') {
-                    const allFiles = await getAllFilesGlobal();
+                    const allFiles = await getAllFilesGlobal(user);
                     if (isMounted) setAdminFiles(allFiles);
                 }
+                else if (adminTab === 'audit') {
+                    const entries = await getAuditEntries(user, {
+                        username: auditFilter.username || undefined,
+                        action: auditFilter.action || undefined,
+                        from: auditFilter.from ? startOfDay(auditFilter.from) : undefined,
+                        to: auditFilter.to ? endOfDay(auditFilter.to) : undefined,
+                    });
+                    const users = await getAllUsers(user);
+                    if (isMounted) {
+                        setAuditEntries(entries);
+                        setAdminUsers(users);
+                    }
+                }
                 else if (adminTab === 'config') {
-                    const conf = await getCDNConfig();
-                    if (isMounted && conf) {
+                    const conf = await getMaskedCDNConfig();
+                    await refreshVaultStatus();
+                    if (isMounted) {
                         setCdnConfig({
                             ...conf,
                             rootPath: conf.rootPath || 'public/content'
                         });
+                        const pending = await getFilesToMigrate(user, conf);
+                        if (isMounted) setMigrationPending(pending.length);
                     }
                 }
             } catch (dbError) {
@@ -304,13 +615,14 @@ export default function App() {
     };
     fetchAdminData();
     return () => { isMounted = false; };
-  }, [view, user, adminTab]);
+  }, [view, user, adminTab, auditFilter, mustEnrollTwoFactor]);
 
   // --- Auth Actions ---
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setAuthError('');
+    setAuthNotice('');
     try {
       if (isRegistering) {
         if (!authUsername || !authPassword || !authEmail) {
@@ -320,28 +632,26 @@ export default function App() {
         const newUser: User = {
           id: `u-${Date.now()}`,
           username: authUsername,
-          password: authPassword,
           email: authEmail,
           role: 'user',
           plan: 'free',
           avatar: `https://ui-avatars.com/api/?name=${authUsername}&background=random`,
           storageUsed: 0,
-          storageLimit: 5 * 1024 * 1024 * 1024,
+          storageLimit: planLimits.free,
           createdAt: new Date().toISOString(),
           isActive: true
         };
-        await registerUser(newUser);
-        setUser(newUser);
-        localStorage.setItem('cloudfire_user', newUser.id);
-        setView('dashboard');
+        await registerUser(newUser, authPassword);
+        await completeSignIn(newUser);
       } else {
-        const loggedUser = await loginUser(authUsername, authPassword);
-        if (loggedUser) {
-          setUser(loggedUser);
-          localStorage.setItem('cloudfire_user', loggedUser.id);
-          setView(loggedUser.role === 'admin' ? 'admin' : 'dashboard');
-        } else {
+        const result = await loginUser(authUsername, authPassword);
+        if (!result) {
           setAuthError('Nome de usuário ou senha inválidos (ou conta bloqueada)');
+        } else if (result.status === 'two_factor') {
+          setTwoFactorChallenge(result.challenge);
+          setAuthCode('');
+        } else {
+          await completeSignIn(result.user);
         }
       }
     } catch (err: any) {
@@ -349,45 +659,507 @@ export default function App() {
     }
   };
 
-  const handleLogout = () => {
+  // --- First-Run Setup ---
+
+  const handleSetupSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSetupError('');
+    if (setupStep === 0) {
+        if (setupForm.password.length < MIN_PASSWORD_LENGTH) {
+            setSetupError(`A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`);
+            return;
+        }
+        if (setupForm.password !== setupForm.confirm) {
+            setSetupError('As senhas não coincidem.');
+            return;
+        }
+    }
+    if (setupStep < SETUP_STEPS.length - 1) {
+        setSetupStep(setupStep + 1);
+        return;
+    }
+
+    const limits: PlanLimits = {
+        free: Number(setupForm.freeGb) * GB,
+        pro: Number(setupForm.proGb) * GB,
+        enterprise: Number(setupForm.enterpriseGb) * GB,
+    };
+    if (Object.values(limits).some(limit => !(limit > 0))) {
+        setSetupError('Os limites dos planos devem ser maiores que zero.');
+        return;
+    }
+    const username = setupForm.username.trim();
+    const admin: User = {
+        id: `u-${Date.now()}`,
+        username,
+        email: setupForm.email.trim(),
+        role: 'admin',
+        plan: 'enterprise',
+        avatar: `https://ui-avatars.com/api/?name=${username}&background=0D8ABC&color=fff`,
+        storageUsed: 0,
+        storageLimit: limits.enterprise,
+        createdAt: new Date().toISOString(),
+        isActive: true
+    };
+    try {
+        await completeSetup(admin, setupForm.password, {
+            provider: setupForm.provider,
+            rootPath: setupForm.rootPath.trim().replace(/^\/+|\/+$/g, '') || 'public/content',
+            planLimits: limits,
+        });
+        setPlanLimits(limits);
+        setSecurityPolicy(await getSecurityPolicy());
+        const conf = await getMaskedCDNConfig();
+        setCdnConfig({ ...conf, rootPath: conf.rootPath || 'public/content' });
+        await completeSignIn(admin);
+        // Remote providers still need their credentials, which go through the vault
+        if (setupForm.provider !== 'local') setAdminTab('config');
+    } catch (err) {
+        setSetupError(describeError(err));
+    }
+  };
+
+  const completeSignIn = async (signedIn: User) => {
+    await createSession(signedIn.id);
+    if (signedIn.encryptionEnabled && authPassword) {
+        // The password is at hand only now; a failure just leaves the files locked
+        await unlockEncryption(signedIn, authPassword).catch(e => console.error("Failed to unlock encryption", e));
+    }
+    setEncryptionUnlocked(isEncryptionUnlocked(signedIn));
+    setUser(signedIn);
+    setTwoFactorChallenge(null);
+    setView(signedIn.role === 'admin' ? 'admin' : 'dashboard');
+  };
+
+  const handleTwoFactorLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorChallenge) return;
+    setAuthError('');
+    try {
+      const verified = await completeTwoFactorLogin(twoFactorChallenge, authCode);
+      if (verified) {
+        await completeSignIn(verified);
+      } else {
+        setAuthError('Código inválido.');
+      }
+    } catch (err) {
+      // The error shows on the code step; the challenge stays open until the user goes back
+      setAuthError(describeError(err));
+    }
+  };
+
+  const resetSignedInState = () => {
+    lockEncryption();
+    setEncryptionUnlocked(false);
     setUser(null);
-    localStorage.removeItem('cloudfire_user');
     setView('login');
     setAuthUsername('');
     setAuthPassword('');
     setCurrentFolderId('root');
   };
 
+  const handleCancelTwoFactorLogin = () => {
+    setTwoFactorChallenge(null);
+    setAuthCode('');
+    setAuthError('');
+  };
+
+  const handleLogout = async () => {
+    await endSession().catch(e => console.error("Failed to end session", e));
+    resetSignedInState();
+  };
+
+  // --- Two-Factor Management ---
+
+  const resetTwoFactorForm = () => {
+    setTwoFactorCode('');
+    setTwoFactorError('');
+  };
+
+  const handleStartTwoFactorSetup = () => {
+    if (!user) return;
+    const secret = generateTotpSecret();
+    setTwoFactorSetup({ secret, uri: buildOtpAuthUri(secret, user.username) });
+    setRecoveryCodes(null);
+    resetTwoFactorForm();
+  };
+
+  const handleConfirmTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !twoFactorSetup) return;
+    try {
+      const codes = await enableTwoFactor(user, twoFactorSetup.secret, twoFactorCode);
+      setRecoveryCodes(codes);
+      setRemainingRecoveryCodes(codes.length);
+      setTwoFactorSetup(null);
+      resetTwoFactorForm();
+      setUser({ ...user, twoFactorEnabled: true });
+    } catch (err: any) {
+      setTwoFactorError(err.toString());
+    }
+  };
+
+  const handleDisableTwoFactor = async () => {
+    if (!user) return;
+    if (user.role === 'admin' && securityPolicy.requireAdminTwoFactor) {
+      setTwoFactorError('A política de segurança exige 2FA para administradores.');
+      return;
+    }
+    try {
+      await disableTwoFactor(user, twoFactorCode);
+      resetTwoFactorForm();
+      setRecoveryCodes(null);
+      setUser({ ...user, twoFactorEnabled: false });
+    } catch (err: any) {
+      setTwoFactorError(err.toString());
+    }
+  };
+
+  const handleRegenerateRecoveryCodes = async () => {
+    if (!user) return;
+    try {
+      const codes = await regenerateRecoveryCodes(user, twoFactorCode);
+      setRecoveryCodes(codes);
+      setRemainingRecoveryCodes(codes.length);
+      resetTwoFactorForm();
+    } catch (err: any) {
+      setTwoFactorError(err.toString());
+    }
+  };
+
+  const handleToggleAdminTwoFactor = async () => {
+    if (!user) return;
+    const next = { ...securityPolicy, requireAdminTwoFactor: !securityPolicy.requireAdminTwoFactor };
+    if (next.requireAdminTwoFactor && !user.twoFactorEnabled) {
+      alert('Ative a verificação em duas etapas na sua própria conta antes de exigi-la dos administradores.');
+      return;
+    }
+    try {
+      await saveSecurityPolicy(user, next);
+      setSecurityPolicy(next);
+    } catch (err) {
+      reportError(err);
+    }
+  };
+
+  // --- Password Management ---
+
+  const resetPasswordForm = () => {
+    setPasswordCurrent('');
+    setPasswordNew('');
+    setPasswordConfirm('');
+    setPasswordError('');
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setPasswordChanged(false);
+    if (passwordNew !== passwordConfirm) {
+        setPasswordError('As senhas não coincidem.');
+        return;
+    }
+    try {
+        const updated = await changePassword(user, user.username, passwordCurrent, passwordNew);
+        await revokeOtherSessions(user.id);
+        setUser(updated);
+        resetPasswordForm();
+        setPasswordChanged(true);
+    } catch (err: any) {
+        setPasswordError(err.toString());
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetToken) return;
+    if (passwordNew !== passwordConfirm) {
+        setPasswordError('As senhas não coincidem.');
+        return;
+    }
+    try {
+        await resetPasswordWithToken(resetToken, passwordNew);
+        window.history.replaceState({}, '', window.location.pathname);
+        resetPasswordForm();
+        setResetToken(null);
+        setAuthUsername(resetUsername || '');
+        setAuthNotice('Senha redefinida. Entre com a nova senha.');
+        setView('login');
+    } catch (err: any) {
+        setPasswordError(err.toString());
+    }
+  };
+
+  // --- Encryption ---
+
+  const handleEnableEncryption = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setEncryptionError('');
+    try {
+        const updated = await enableEncryption(user, encryptionPassword);
+        await unlockEncryption(updated, encryptionPassword);
+        setUser(updated);
+        setEncryptionUnlocked(true);
+        setEncryptionPassword('');
+    } catch (err) {
+        setEncryptionError(describeError(err));
+    }
+  };
+
+  const handleUnlockEncryption = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setEncryptionError('');
+    try {
+        await unlockEncryption(user, encryptionPassword);
+        setEncryptionUnlocked(true);
+        setEncryptionPassword('');
+    } catch (err) {
+        setEncryptionError(describeError(err));
+    }
+  };
+
+  const handleLockEncryption = () => {
+    lockEncryption();
+    setEncryptionUnlocked(false);
+  };
+
+  // --- Session Management ---
+
+  const loadSessions = async () => {
+    if (!user) return;
+    setCurrentSessionId(await getCurrentSessionId());
+    setActiveSessions(await getActiveSessions(user.id));
+  };
+
+  const handleRevokeSession = async (session: Session) => {
+    if (session.id === currentSessionId) {
+        await handleLogout();
+        return;
+    }
+    await revokeSession(session.id);
+    await loadSessions();
+  };
+
+  // --- Access Tokens ---
+
+  const handleCreateAccessToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setTokenError('');
+    try {
+        const { token } = await createAccessToken(user, tokenForm.name, tokenForm.scopes, Number(tokenForm.expiresInDays) || undefined);
+        setCreatedToken(token);
+        setTokenForm({ name: '', scopes: ['read'], expiresInDays: '30' });
+        setAccessTokens(await getAccessTokens(user));
+    } catch (err) {
+        setTokenError(describeError(err));
+    }
+  };
+
+  const handleRevokeAccessToken = async (token: AccessToken) => {
+    if (!user || !window.confirm(`Revogar o token "${token.name}"? Scripts que o usam deixarão de funcionar.`)) return;
+    try {
+        await revokeAccessToken(user, token.id);
+        setAccessTokens(await getAccessTokens(user));
+    } catch (err) {
+        reportError(err);
+    }
+  };
+
+  const toggleTokenScope = (scope: TokenScope) => {
+    setTokenForm(prev => ({
+        ...prev,
+        scopes: prev.scopes.includes(scope) ? prev.scopes.filter(s => s !== scope) : [...prev.scopes, scope],
+    }));
+  };
+
+  const handleLogoutAllDevices = async () => {
+    if (!user || !window.confirm('Encerrar a sessão em todos os dispositivos, incluindo este?')) return;
+    await revokeAllSessions(user.id);
+    resetSignedInState();
+  };
+
   // --- Admin Management Actions ---
 
   const handleAdminUpdateUser = async (targetUser: User, updates: Partial<User>) => {
+      if (!user) return;
       const updatedUser = { ...targetUser, ...updates };
-      await updateUser(updatedUser);
-      const users = await getAllUsers();
-      setAdminUsers(users);
+      try {
+          await updateUser(user, updatedUser);
+          const users = await getAllUsers(user);
+          setAdminUsers(users);
+      } catch (err) {
+          reportError(err);
+      }
+  };
+
+  const handleAdminResetPassword = async (targetUser: User) => {
+      if (!user) return;
+      if (!window.confirm(`Gerar um link de redefinição de senha para ${targetUser.username}? As sessões dele serão encerradas e o próximo login exigirá uma nova senha.`)) return;
+      try {
+          const { token, expiresAt } = await createPasswordReset(user, targetUser.username);
+          setAdminResetLink({ username: targetUser.username, url: `${window.location.origin}?reset=${token}`, expiresAt });
+          const users = await getAllUsers(user);
+          setAdminUsers(users);
+      } catch (err) {
+          reportError(err);
+      }
   };
 
   const handleAdminDeleteUser = async (username: string) => {
+      if (!user) return;
       if (window.confirm(`Tem certeza que deseja excluir o usuário ${username}? Isso apagará todos os arquivos dele.`)) {
-          await deleteUser(username);
-          const users = await getAllUsers();
-          setAdminUsers(users);
+          try {
+              await deleteUser(user, username);
+              const users = await getAllUsers(user);
+              setAdminUsers(users);
+          } catch (err) {
+              reportError(err);
+          }
+      }
+  };
+
+  const handleAdminUnlockAccount = async (username: string) => {
+      if (!user) return;
+      try {
+          await unlockAccount(user, username);
+          setLockedAccounts(await getLockedAccounts(user));
+      } catch (err) {
+          reportError(err);
       }
   };
 
   const handleAdminDeleteFile = async (file: CloudFile) => {
+      if (!user) return;
       if (window.confirm(`Deletar arquivo global: ${file.name}?`)) {
-          await deleteFileFromDB(file.id, file.ownerId, file.size);
-          const allFiles = await getAllFilesGlobal();
-          setAdminFiles(allFiles);
+          try {
+              await purgeFile(user, file);
+              const allFiles = await getAllFilesGlobal(user);
+              setAdminFiles(allFiles);
+          } catch (err) {
+              reportError(err);
+          }
       }
   }
 
+  const handleExportAudit = (format: 'csv' | 'json') => {
+      const content = format === 'csv' ? auditToCsv(auditEntries) : auditToJson(auditEntries);
+      const blob = new Blob([content], { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `auditoria-${new Date().toISOString().slice(0, 10)}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+  }
+
+  const refreshVaultStatus = async () => {
+      const configured = await isVaultConfigured();
+      setVaultStatus(!configured ? 'unset' : await isVaultUnlocked() ? 'unlocked' : 'locked');
+  }
+
+  const resetVaultForm = () => {
+      setVaultPassphrase('');
+      setVaultNewPassphrase('');
+      setVaultConfirm('');
+      setVaultError('');
+  }
+
+  const handleVaultSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!user) return;
+      setVaultError('');
+      try {
+          if (vaultStatus === 'unset' || isRotatingPassphrase) {
+              const next = vaultStatus === 'unset' ? vaultPassphrase : vaultNewPassphrase;
+              if (next !== vaultConfirm) {
+                  setVaultError('As senhas não coincidem.');
+                  return;
+              }
+              if (vaultStatus === 'unset') await setupVault(user, next);
+              else await rotatePassphrase(user, vaultPassphrase, next);
+              setIsRotatingPassphrase(false);
+          } else {
+              await unlockVault(user, vaultPassphrase);
+          }
+          resetVaultForm();
+          await refreshVaultStatus();
+      } catch (err: any) {
+          setVaultError(err?.message || String(err));
+      }
+  }
+
+  const handleLockVault = async () => {
+      if (!user) return;
+      try {
+          await lockVault(user);
+      } catch (err) {
+          reportError(err);
+      }
+      setIsRotatingPassphrase(false);
+      resetVaultForm();
+      await refreshVaultStatus();
+  }
+
+  const handleTestConnection = async (): Promise<ConnectionTestResult | null> => {
+      if (!user) return null;
+      const errors = validateCDNConfig(cdnConfig);
+      setConfigErrors(errors);
+      if (errors.length > 0) return null;
+      let config: CDNConfig;
+      try {
+          config = await withStoredSecrets(user, cdnConfig);
+      } catch (err: any) {
+          setConfigErrors([err?.message || String(err)]);
+          return null;
+      }
+      setIsTestingConnection(true);
+      setConnectionTest(null);
+      const result = await testConnection(config);
+      setConnectionTest(result);
+      setIsTestingConnection(false);
+      return result;
+  }
+
   const handleSaveConfig = async (e: React.FormEvent) => {
       e.preventDefault();
-      await saveCDNConfig(cdnConfig);
+      const result = await handleTestConnection();
+      if (!result || !user) return; // Invalid fields, listed in the form
+      if (!result.ok && !window.confirm(`O teste de conexão falhou: ${result.error}\n\nSalvar mesmo assim? Novos envios poderão falhar.`)) {
+          return;
+      }
+      try {
+          await saveProviderConfig(user, cdnConfig);
+      } catch (err: any) {
+          setConfigErrors([err?.message || String(err)]);
+          return;
+      }
+      setCdnConfig(await getMaskedCDNConfig());
       setConfigSaved(true);
       setTimeout(() => setConfigSaved(false), 3000);
+      const pending = await getFilesToMigrate(user, cdnConfig);
+      setMigrationPending(pending.length);
+  }
+
+  // Migration always targets the saved configuration, never unsaved form edits
+  const handleStartMigration = async () => {
+      if (!user) return;
+      let saved: CDNConfig;
+      try {
+          saved = await getProviderConfig();
+      } catch (err: any) {
+          alert(err?.message || String(err));
+          return;
+      }
+      const job = createMigrationJob(user, saved, setMigrationState);
+      migrationJob.current = job;
+      await job.start();
+      const pending = await getFilesToMigrate(user, saved);
+      setMigrationPending(pending.length);
   }
 
   // --- File Actions ---
@@ -401,47 +1173,152 @@ export default function App() {
     setCurrentFolderId('root');
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0] && user) {
-      const file = e.target.files[0];
-      setIsUploading(true);
-      setUploadProgress(10);
-      await new Promise(r => setTimeout(r, 300));
-      setUploadProgress(30);
+  const updateQueueItem = (id: string, updates: Partial<UploadQueueItem>) => {
+    setUploadQueue(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
+  };
 
-      const rootPath = cdnConfig.rootPath || 'public/content';
-      const storageKey = `${rootPath}/${file.name}`;
+  const runUpload = async (item: UploadQueueItem) => {
+    if (!user || uploadControllers.current.has(item.id)) return;
+    const controller = new AbortController();
+    uploadControllers.current.set(item.id, controller);
+    updateQueueItem(item.id, { status: 'uploading', error: undefined });
 
+    try {
       const newFile: CloudFile = {
-        id: `fi-${Date.now()}`,
-        name: file.name,
-        size: file.size,
-        type: getFileType(file.type),
-        parentId: currentFolderId,
+        id: `fi-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        name: item.file.name,
+        size: item.file.size,
+        type: getFileType(item.file.type),
+        parentId: item.parentId,
         createdAt: new Date().toISOString(),
-        mimeType: file.type || 'application/octet-stream',
-        ownerId: user.id,
-        storageKey: storageKey,
-        data: file,
+        mimeType: item.file.type || 'application/octet-stream',
+        // Files sent to a folder shared with the user belong to, and are charged to, its owner
+        ownerId: item.parentId === 'root' ? user.id : (await getFolder(user, item.parentId)).ownerId,
         isShared: false
       };
+      await uploadFile(user, newFile, item.file, (loaded, _total, phase) => updateQueueItem(item.id, { loaded, phase }), controller.signal);
+      updateQueueItem(item.id, { status: 'done', loaded: item.file.size });
+      if (newFile.ownerId === user.id) setUser(prev => prev ? { ...prev, storageUsed: prev.storageUsed + item.file.size } : null);
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        updateQueueItem(item.id, { status: 'canceled' });
+      } else {
+        console.error("Upload failed", err);
+        updateQueueItem(item.id, { status: 'error', error: err?.message || String(err) });
+      }
+    } finally {
+      uploadControllers.current.delete(item.id);
+    }
+  };
 
+  // Start queued uploads whenever a slot frees up
+  useEffect(() => {
+    const running = uploadQueue.filter(i => i.status === 'uploading').length;
+    uploadQueue
+      .filter(i => i.status === 'queued')
+      .slice(0, Math.max(0, MAX_PARALLEL_UPLOADS - running))
+      .forEach(runUpload);
+  }, [uploadQueue]);
+
+  // Once the queue settles, refresh the listing and the interrupted uploads list
+  const isQueueSettled = uploadQueue.length > 0 && uploadQueue.every(i => ['done', 'error', 'canceled'].includes(i.status));
+  useEffect(() => {
+    if (isQueueSettled && user) {
+      loadContent(currentFolderId);
+      getPendingUploads(user).then(setPendingUploads).catch(() => {});
+    }
+  }, [isQueueSettled]);
+
+  const enqueueUploads = (entries: { file: File; parentId: string }[]) => {
+    const stamp = Date.now();
+    setUploadQueue(prev => [
+      // Starting a new batch drops the summary of the previous one
+      ...(isQueueSettled ? [] : prev),
+      ...entries.map(({ file, parentId }, i) => ({
+        id: `up-${stamp}-${i}`,
+        file,
+        parentId,
+        status: 'queued' as const,
+        loaded: 0
+      }))
+    ]);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0 || !user) return;
+    const picked: File[] = Array.from(e.target.files);
+    e.target.value = ''; // Allow picking the same file again to resume after a failure
+    enqueueUploads(picked.map(file => ({ file, parentId: currentFolderId })));
+  };
+
+  // Recreates the dropped/picked directory structure, then queues each file into its folder
+  const uploadNestedFiles = async (items: NestedFile[]) => {
+    if (!user || items.length === 0) return;
+    setIsUploadModalOpen(true);
+    try {
+      const folderIds = await ensureFolderTree(user, items, currentFolderId);
+      enqueueUploads(items.map(item => ({ file: item.file, parentId: folderIds.get(item.path.join('/'))! })));
+      if (items.some(item => item.path.length > 0)) loadContent(currentFolderId);
+    } catch (err) {
+      if (err instanceof ForbiddenError || err instanceof NotFoundError) return reportError(err);
+      console.error("Folder upload failed", err);
+      alert("Não foi possível criar a estrutura de pastas.");
+    }
+  };
+
+  const handleFolderUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0) return;
+    const items = filesFromDirectoryInput(e.target.files);
+    e.target.value = '';
+    uploadNestedFiles(items);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!Array.from(e.dataTransfer.types).includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // dragleave also fires when moving over children; only reset when the pointer leaves the zone
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const items = await collectDroppedFiles(e.dataTransfer);
+    uploadNestedFiles(items);
+  };
+
+  const handleCancelUpload = (item: UploadQueueItem) => {
+    const controller = uploadControllers.current.get(item.id);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateQueueItem(item.id, { status: 'canceled' });
+    }
+  };
+
+  const handleRetryUpload = (item: UploadQueueItem) => {
+    // A failed upload keeps its session, so the retry resumes from the last stored chunk
+    updateQueueItem(item.id, { status: 'queued', loaded: 0, phase: undefined, error: undefined });
+  };
+
+  const handleCloseUploadModal = () => {
+    setIsUploadModalOpen(false);
+    if (isQueueSettled) setUploadQueue([]);
+  };
+
+  const handleDiscardUpload = async (session: UploadSession) => {
+      if (!user) return;
       try {
-        setUploadProgress(60);
-        await addFileToDB(newFile);
-        setUser(prev => prev ? { ...prev, storageUsed: prev.storageUsed + file.size } : null);
-        setUploadProgress(100);
-        await new Promise(r => setTimeout(r, 500));
-        await loadContent(currentFolderId);
-        setIsUploadModalOpen(false);
-        setUploadProgress(0);
-        setIsUploading(false);
+          await discardUpload(user, session);
       } catch (err) {
-        alert("Falha no envio. Erro no banco de dados ou cota excedida.");
-        setIsUploading(false);
-        setUploadProgress(0);
+          return reportError(err);
       }
-    }
+      setPendingUploads(prev => prev.filter(s => s.id !== session.id));
   };
 
   const handleCreateFolder = async () => {
@@ -451,9 +1328,13 @@ export default function App() {
       name: folderNameInput,
       parentId: currentFolderId,
       createdAt: new Date().toISOString(),
-      ownerId: user.id
+      ownerId: currentFolder?.ownerId || user.id
     };
-    await addFolderToDB(newFolder);
+    try {
+      await addFolderToDB(user, newFolder);
+    } catch (err) {
+      return reportError(err);
+    }
     loadContent(currentFolderId);
     setFolderNameInput('');
     setIsFolderModalOpen(false);
@@ -464,18 +1345,22 @@ export default function App() {
     const file = files.find(f => f.id === fileId);
     if (!file) return;
 
-    if (view === 'trash') {
-        // PERMANENT DELETE
-        if (window.confirm("Isso excluirá o arquivo permanentemente. Deseja continuar?")) {
-            await deleteFileFromDB(fileId, user.id, file.size);
-            // Update local user storage state immediately
-            setUser(prev => prev ? { ...prev, storageUsed: Math.max(0, prev.storageUsed - file.size) } : null);
+    try {
+        if (view === 'trash') {
+            // PERMANENT DELETE
+            if (window.confirm("Isso excluirá o arquivo permanentemente. Deseja continuar?")) {
+                await purgeFile(user, file);
+                // Update local user storage state immediately
+                setUser(prev => prev ? { ...prev, storageUsed: Math.max(0, prev.storageUsed - file.size) } : null);
+            } else {
+                return;
+            }
         } else {
-            return;
+            // MOVE TO TRASH
+            await trashFile(user, fileId);
         }
-    } else {
-        // MOVE TO TRASH
-        await trashFile(fileId);
+    } catch (err) {
+        return reportError(err);
     }
 
     setFiles(prev => prev.filter(f => f.id !== fileId));
@@ -484,7 +1369,11 @@ export default function App() {
 
   const handleRestoreFile = async (fileId: string) => {
       if (!user) return;
-      await restoreFile(fileId);
+      try {
+          await restoreFile(user, fileId);
+      } catch (err) {
+          return reportError(err);
+      }
       setFiles(prev => prev.filter(f => f.id !== fileId));
       if (selectedFile?.id === fileId) setSelectedFile(null);
   };
@@ -492,54 +1381,281 @@ export default function App() {
   const handleEmptyTrash = async () => {
       if (!user) return;
       if (window.confirm("Isso apagará todos os itens da lixeira permanentemente. Tem certeza?")) {
-          await emptyTrash(user.id);
+          try {
+              await emptyTrash(user);
+          } catch (err) {
+              reportError(err);
+          }
           // Reload to reflect changes (should be empty)
           loadContent('root');
-          // Need to recalc storage used ideally, but for now we rely on deleteFileFromDB updating it
-          // Force user refresh to get accurate storage?
-          const updatedUsers = await getAllUsers();
-          const me = updatedUsers.find(u => u.id === user.id);
+          // purgeFile updated the stored counter; read it back rather than recalculating here
+          const me = await getUserById(user.id);
           if (me) setUser(me);
       }
   };
 
+  // Remote providers serve a presigned URL; local files are read into a blob. Links with a download
+  // limit get no preview, since the preview would hand out the content without counting a download.
+  const loadSharedPreview = async (file: CloudFile, access: FileAccess, link: ShareFields) => {
+      if (link.shareMaxDownloads !== undefined) return;
+      const preview: FileAccess = 'shareToken' in access ? { ...access, purpose: 'preview' } : access;
+      const directUrl = await getFileDownloadUrl(preview, file);
+      const blob = directUrl ? undefined : await getFileContent(preview, file);
+      if (directUrl || blob) {
+          setPreviewUrl(directUrl || URL.createObjectURL(blob!));
+      }
+  };
+
+  const handleSharedPasswordSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setSharedPasswordError('');
+      setIsLoadingPreview(true);
+      try {
+          if (sharedFolder) {
+              setSharedListing(await getSharedFolderListing(sharedToken, sharedFolder.id, sharedPasswordInput));
+          } else if (sharedFile) {
+              const access = { shareToken: sharedToken, fileKey: sharedFileKey, password: sharedPasswordInput };
+              // Checks the password even when the link's download limit skips the preview
+              await getSharedFile(access, sharedFile.id);
+              await loadSharedPreview(sharedFile, access, sharedFile);
+          }
+          setSharedPassword(sharedPasswordInput);
+      } catch (err) {
+          if (err instanceof VaultLockedError) {
+              // The password was accepted before the provider was reached
+              setSharedPassword(sharedPasswordInput);
+              setSharedStorageError(err.message);
+          } else {
+              setSharedPasswordError(describeError(err));
+          }
+      } finally {
+          setIsLoadingPreview(false);
+      }
+  };
+
+  // Errors on the share page; a locked vault is shown in a notice above the content instead of an alert
+  const reportSharedError = (err: unknown) => {
+      if (err instanceof VaultLockedError) setSharedStorageError(err.message);
+      else reportError(err);
+  };
+
+  // --- Shared Folder Browsing ---
+  const releaseSharedPreview = () => {
+      if (previewUrl?.startsWith('blob:')) URL.revokeObjectURL(previewUrl);
+      setPreviewUrl(null);
+  };
+
+  const browseSharedFolder = async (folderId: string) => {
+      try {
+          setSharedListing(await getSharedFolderListing(sharedToken, folderId, sharedPassword));
+          setSharedPreviewFile(null);
+          releaseSharedPreview();
+      } catch (err) {
+          reportError(err);
+      }
+  };
+
+  // Media files preview in the side panel; anything else just shows its icon there
+  const handleSelectSharedFile = async (file: CloudFile) => {
+      setSharedPreviewFile(file);
+      releaseSharedPreview();
+      if (![FileType.IMAGE, FileType.VIDEO, FileType.AUDIO].includes(file.type)) return;
+      setIsLoadingPreview(true);
+      try {
+          if (sharedFolder) await loadSharedPreview(file, { shareToken: sharedToken, password: sharedPassword }, sharedFolder);
+      } catch (e) {
+          if (e instanceof VaultLockedError) setSharedStorageError(e.message);
+          else console.error("Failed to load preview", e);
+      } finally {
+          setIsLoadingPreview(false);
+      }
+  };
+
+  // The whole shared folder as one ZIP, subfolders included; counts as a single download
+  const handleDownloadSharedFolder = async () => {
+      if (!sharedFolder) return;
+      setIsZipping(true);
+      try {
+          const entries = await getSharedFolderEntries(sharedToken, sharedPassword);
+          if (entries.length === 0) {
+              alert('Esta pasta não tem arquivos para baixar.');
+              return;
+          }
+          const zip = await createZip(entries);
+          const url = URL.createObjectURL(zip);
+          triggerDownload(url, `${sharedFolder.name}.zip`);
+          URL.revokeObjectURL(url);
+      } catch (err) {
+          reportSharedError(err);
+      } finally {
+          setIsZipping(false);
+      }
+  };
+
   const handleDownload = async (file: CloudFile) => {
+    // Visitors of a public link read through the share token; everyone else as themselves
+    const access: FileAccess | null = view === 'shared' && sharedToken
+        ? { shareToken: sharedToken, fileKey: sharedFileKey, password: sharedPassword }
+        : user;
+    if (!access) return;
     try {
-        const blob = await getFileContent(file.id);
-        if (!blob) {
+        // S3-backed files download straight from the bucket through a presigned URL
+        const directUrl = await getFileDownloadUrl(access, file);
+        const blob = directUrl ? undefined : await getFileContent(access, file);
+        if (!directUrl && !blob) {
             alert("Conteúdo do arquivo não encontrado!");
             return;
         }
+        if (directUrl) {
+            triggerDownload(directUrl, file.name);
+            return;
+        }
         const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = file.name;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
+        triggerDownload(url, file.name);
         URL.revokeObjectURL(url);
     } catch (e) {
-        console.error("Download failed", e);
+        // Includes decryption failures: a locked key or a link missing its fragment
+        if (view === 'shared') reportSharedError(e);
+        else reportError(e);
     }
   };
 
   // --- Sharing Actions ---
+  const readShareForm = (): ShareSettings => {
+      const maxDownloads = shareForm.maxDownloads ? Number(shareForm.maxDownloads) : undefined;
+      if (maxDownloads !== undefined && !(Number.isInteger(maxDownloads) && maxDownloads > 0)) {
+          throw new Error('O limite de downloads deve ser um número inteiro maior que zero.');
+      }
+      if (shareForm.password && shareForm.password.length < MIN_PASSWORD_LENGTH) {
+          throw new Error(`A senha do link deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`);
+      }
+      // An empty field keeps the link's current password
+      return { expiresAt: resolveShareExpiry(shareForm.expiry, shareForm.customExpiry), maxDownloads, password: shareForm.password || undefined };
+  };
+
+  // Re-reads the record so the modal and the listing show the link as stored
+  const refreshShareItem = async () => {
+      if (!user) return;
+      if (shareFolder) {
+          const updated = await getFolder(user, shareFolder.id);
+          setShareFolder(updated);
+          setFolders(prev => prev.map(f => f.id === updated.id ? updated : f));
+      } else if (selectedFile) {
+          const updated = await getFile(user, selectedFile.id);
+          setSelectedFile(prev => prev?.id === updated.id ? updated : prev);
+          setFiles(prev => prev.map(f => f.id === updated.id ? updated : f));
+      }
+  };
+
+  // The modal opens on the selected file unless a folder's share button picked the folder
+  const openFolderShareModal = (folder: CloudFolder) => {
+      setShareFolder(folder);
+      setIsShareModalOpen(true);
+  };
+
+  // From the "My shares" page: opens the item's folder in the drive, with the share modal on top
+  const handleManageShare = async (stats: ShareStats) => {
+      if (!user) return;
+      try {
+          if (stats.itemType === 'folder') {
+              const folder = await getFolder(user, stats.itemId);
+              setCurrentFolderId(folder.parentId || 'root');
+              openFolderShareModal(folder);
+          } else {
+              const file = await getFile(user, stats.itemId);
+              setCurrentFolderId(file.parentId);
+              setSelectedFile(file);
+              setIsShareModalOpen(true);
+          }
+          setView('dashboard');
+      } catch (err) {
+          reportError(err);
+      }
+  };
+
+  const closeShareModal = () => {
+      setIsShareModalOpen(false);
+      setShareFolder(null);
+  };
+
+  const saveShareSettings = (settings: ShareSettings) => shareFolder
+      ? updateFolderShareSettings(user!, shareFolder.id, settings)
+      : updateShareSettings(user!, selectedFile!.id, settings);
+
   const handleShareToggle = async () => {
-      if (!selectedFile) return;
-      const newStatus = !selectedFile.isShared;
-      let token = selectedFile.shareToken;
+      if (!shareItem || !user) return;
+      const newStatus = !shareItem.isShared;
+      let token = shareItem.shareToken;
       if (newStatus && !token) {
-          token = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+          token = generateToken();
+      }
+      try {
+          const settings = newStatus ? readShareForm() : undefined;
+          const linkToken = newStatus ? token : undefined;
+          if (shareFolder) await updateFolderShareStatus(user, shareFolder.id, newStatus, linkToken, settings);
+          else await updateFileShareStatus(user, shareItem.id, newStatus, linkToken, settings);
+          await refreshShareItem();
+      } catch (err) {
+          reportError(err);
       }
-      await updateFileShareStatus(selectedFile.id, newStatus, newStatus ? token : undefined);
-      setSelectedFile(prev => prev ? ({ ...prev, isShared: newStatus, shareToken: newStatus ? token : undefined }) : null);
-      setFiles(prev => prev.map(f => f.id === selectedFile.id ? { ...f, isShared: newStatus, shareToken: newStatus ? token : undefined } : f));
   }
 
+  const handleSaveShareSettings = async () => {
+      if (!shareItem || !user) return;
+      try {
+          await saveShareSettings(readShareForm());
+          setShareForm(prev => ({ ...prev, password: '' }));
+          await refreshShareItem();
+      } catch (err) {
+          reportError(err);
+      }
+  };
+
+  const handleRemoveSharePassword = async () => {
+      if (!shareItem || !user) return;
+      try {
+          await saveShareSettings({ ...readShareForm(), password: null });
+          await refreshShareItem();
+      } catch (err) {
+          reportError(err);
+      }
+  };
+
+  const handleAddGrant = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!shareItem || !user || !grantForm.login.trim()) return;
+      try {
+          await shareWithUser(user, { type: shareFolder ? 'folder' : 'file', id: shareItem.id }, grantForm.login, grantForm.role);
+          setGrantForm({ login: '', role: grantForm.role });
+          setShareGrants(await getItemGrants(user, shareItem.id));
+      } catch (err) {
+          reportError(err);
+      }
+  };
+
+  const handleChangeGrantRole = async (grant: ShareGrant, role: ShareRole) => {
+      if (!user) return;
+      try {
+          await shareWithUser(user, { type: grant.itemType, id: grant.itemId }, grant.username, role);
+          setShareGrants(await getItemGrants(user, grant.itemId));
+      } catch (err) {
+          reportError(err);
+      }
+  };
+
+  const handleRevokeGrant = async (grant: ShareGrant) => {
+      if (!user) return;
+      try {
+          await revokeGrant(user, grant.id);
+          setShareGrants(prev => prev.filter(g => g.id !== grant.id));
+      } catch (err) {
+          reportError(err);
+      }
+  };
+
   const handleCopyLink = () => {
-      if (!selectedFile?.shareToken) return;
-      const link = `${window.location.origin}?share=${selectedFile.shareToken}`;
-      navigator.clipboard.writeText(link);
+      if (!shareLink) return;
+      navigator.clipboard.writeText(shareLink);
       setShareLinkCopied(true);
       setTimeout(() => setShareLinkCopied(false), 2000);
   }
@@ -586,6 +1702,7 @@ export default function App() {
   // --- Views ---
 
   if (view === 'shared') {
+      const sharedItem = sharedFile || sharedFolder;
       return (
           <div className="min-h-screen bg-slate-200 flex flex-col items-center p-4 pt-10">
               <div className="w-full max-w-4xl flex justify-center mb-8">
@@ -593,15 +1710,20 @@ export default function App() {
                      <span className="text-4xl">☁️</span> CloudFire
                   </div>
               </div>
-              <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl overflow-hidden border border-slate-300">
+              <div className={`bg-white rounded-lg shadow-xl w-full ${sharedFolder ? 'max-w-4xl' : 'max-w-2xl'} overflow-hidden border border-slate-300`}>
                   <div className="bg-slate-50 border-b border-slate-200 p-4 flex justify-between items-center">
                        <h2 className="font-semibold text-slate-700 flex items-center gap-2">
-                           <Download size={20} className="text-blue-500" />
-                           Download de Arquivo
+                           {sharedFolder ? <Folder size={20} className="text-blue-500" /> : <Download size={20} className="text-blue-500" />}
+                           {sharedFolder ? 'Pasta Compartilhada' : 'Download de Arquivo'}
                        </h2>
                        <a href="/" className="text-blue-600 text-sm hover:underline">Fazer Login</a>
                   </div>
                   <div className="p-8">
+                      {sharedStorageError && !sharedError && (
+                          <div className="mb-6 p-3 bg-amber-50 border border-amber-200 text-amber-700 rounded-lg text-sm flex items-center gap-2">
+                              <AlertCircle size={16} className="shrink-0" /> {sharedStorageError}
+                          </div>
+                      )}
                       {sharedError ? (
                           <div className="text-center py-10">
                               <div className="bg-red-50 text-red-500 p-4 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
@@ -610,6 +1732,99 @@ export default function App() {
                               <h2 className="text-xl font-bold text-slate-800 mb-2">Arquivo Indisponível</h2>
                               <p className="text-slate-500">{sharedError}</p>
                           </div>
+                      ) : sharedItem?.sharePassword && sharedPassword === undefined ? (
+                          <form onSubmit={handleSharedPasswordSubmit} className="max-w-sm mx-auto text-center py-6 space-y-4">
+                              <div className="bg-blue-50 text-blue-500 p-4 rounded-full w-16 h-16 flex items-center justify-center mx-auto">
+                                  <Lock size={32} />
+                              </div>
+                              <h2 className="text-xl font-bold text-slate-800">{sharedFolder ? 'Pasta Protegida' : 'Arquivo Protegido'}</h2>
+                              <p className="text-slate-500 text-sm">Digite a senha informada por quem compartilhou {sharedFolder ? 'esta pasta' : 'este arquivo'}.</p>
+                              <input type="password" autoFocus required placeholder="Senha do link" className="w-full px-4 py-2 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none" value={sharedPasswordInput} onChange={e => setSharedPasswordInput(e.target.value)} />
+                              {sharedPasswordError && (
+                                  <p className="text-sm text-red-600 flex items-center justify-center gap-1"><AlertCircle size={14} /> {sharedPasswordError}</p>
+                              )}
+                              <Button type="submit" className="w-full" disabled={isLoadingPreview}>
+                                  {isLoadingPreview ? <Loader2 className="animate-spin" size={18} /> : 'Desbloquear'}
+                              </Button>
+                          </form>
+                      ) : sharedFolder ? (
+                          sharedListing ? (
+                              <div className="space-y-6">
+                                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                      <nav className="flex items-center gap-1 text-sm overflow-x-auto no-scrollbar">
+                                          {sharedListing.path.map((folder, index) => (
+                                              <React.Fragment key={folder.id}>
+                                                  {index > 0 && <ChevronRight size={14} className="text-slate-300 shrink-0" />}
+                                                  <button
+                                                      onClick={() => browseSharedFolder(folder.id)}
+                                                      className={`px-1 rounded whitespace-nowrap hover:underline ${index === sharedListing.path.length - 1 ? 'font-semibold text-slate-800' : 'text-blue-600'}`}
+                                                  >
+                                                      {folder.name}
+                                                  </button>
+                                              </React.Fragment>
+                                          ))}
+                                      </nav>
+                                      <Button onClick={handleDownloadSharedFolder} disabled={isZipping} className="shrink-0">
+                                          {isZipping ? <><Loader2 className="animate-spin" size={16} /> Preparando ZIP...</> : <><Download size={16} /> Baixar Tudo (.zip)</>}
+                                      </Button>
+                                  </div>
+                                  <div className="flex flex-col md:flex-row gap-6">
+                                      <div className="flex-1 min-w-0">
+                                          {sharedListing.folders.length === 0 && sharedListing.files.length === 0 ? (
+                                              <div className="text-center text-slate-400 py-16">
+                                                  <Folder size={40} className="mx-auto mb-3 text-slate-300" />
+                                                  Esta pasta está vazia
+                                              </div>
+                                          ) : (
+                                              <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                                                  {sharedListing.folders.map(folder => (
+                                                      <li key={folder.id}>
+                                                          <button onClick={() => browseSharedFolder(folder.id)} className="w-full flex items-center gap-3 px-4 py-3 hover:bg-slate-50 text-left">
+                                                              <Folder className="w-5 h-5 text-yellow-500 fill-yellow-500 shrink-0" />
+                                                              <span className="text-sm font-medium text-slate-700 truncate flex-1">{folder.name}</span>
+                                                              <ChevronRight size={16} className="text-slate-300" />
+                                                          </button>
+                                                      </li>
+                                                  ))}
+                                                  {sharedListing.files.map(file => (
+                                                      <li
+                                                          key={file.id}
+                                                          onClick={() => handleSelectSharedFile(file)}
+                                                          className={`flex items-center gap-3 px-4 py-3 cursor-pointer ${sharedPreviewFile?.id === file.id ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                                                      >
+                                                          <FileIcon type={file.type} className="w-5 h-5 shrink-0" />
+                                                          <span className="text-sm text-slate-700 truncate flex-1">{file.name}</span>
+                                                          <span className="text-xs text-slate-400 shrink-0">{formatSize(file.size)}</span>
+                                                          <button
+                                                              onClick={(e) => { e.stopPropagation(); handleDownload(file); }}
+                                                              className="p-1 rounded hover:bg-white text-slate-500 hover:text-blue-600"
+                                                              title="Baixar"
+                                                          >
+                                                              <Download size={16} />
+                                                          </button>
+                                                      </li>
+                                                  ))}
+                                              </ul>
+                                          )}
+                                      </div>
+                                      {sharedPreviewFile && (
+                                          <div className="w-full md:w-72 shrink-0 space-y-3">
+                                              {renderPreview(sharedPreviewFile, previewUrl, isLoadingPreview)}
+                                              {sharedFolder?.shareMaxDownloads !== undefined && [FileType.IMAGE, FileType.VIDEO, FileType.AUDIO].includes(sharedPreviewFile.type) && (
+                                                  <div className="text-xs text-slate-400">Sem visualização: este link tem limite de downloads.</div>
+                                              )}
+                                              <div className="text-sm font-medium text-slate-700 break-all">{sharedPreviewFile.name}</div>
+                                              <div className="text-xs text-slate-400">{formatSize(sharedPreviewFile.size)} • {translateFileType(sharedPreviewFile.type)}</div>
+                                              <Button className="w-full" onClick={() => handleDownload(sharedPreviewFile)}><Download size={16} /> Baixar</Button>
+                                          </div>
+                                      )}
+                                  </div>
+                              </div>
+                          ) : (
+                              <div className="flex justify-center py-20">
+                                  <Loader2 className="animate-spin text-blue-500" size={40} />
+                              </div>
+                          )
                       ) : sharedFile ? (
                           <div className="flex flex-col md:flex-row gap-8">
                               <div className="flex-1 space-y-4">
@@ -647,6 +1862,205 @@ export default function App() {
       );
   }
 
+  // Password reset link (?reset=) and the forced change after an admin reset share this card
+  const isForcedPasswordChange = !!user && !!user.mustChangePassword && view !== 'shared';
+  if (view === 'reset' || isForcedPasswordChange) {
+    const resetLinkInvalid = view === 'reset' && !resetUsername;
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-600 to-indigo-900 flex flex-col items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-md">
+          <div className="flex justify-center mb-6">
+             <div className="bg-blue-100 p-3 rounded-full text-blue-600">
+               <KeyRound size={32} />
+             </div>
+          </div>
+          <h2 className="text-2xl font-bold text-center text-slate-800 mb-2">
+             {view === 'reset' ? 'Redefinir Senha' : 'Defina uma nova senha'}
+          </h2>
+          <p className="text-center text-slate-500 mb-6">
+             {resetLinkInvalid
+                ? 'Este link de redefinição é inválido, já foi usado ou expirou. Peça um novo ao administrador.'
+                : view === 'reset'
+                    ? `Escolha uma nova senha para ${resetUsername}.`
+                    : 'Um administrador redefiniu sua senha. Escolha uma nova para continuar.'}
+          </p>
+
+          {!resetLinkInvalid && (
+          <form onSubmit={view === 'reset' ? handleResetPassword : handleChangePassword} className="space-y-4">
+            {view !== 'reset' && (
+                <div className="relative">
+                    <Lock className="absolute left-3 top-3 text-slate-400" size={20} />
+                    <input 
+                        type="password" 
+                        required
+                        placeholder="Senha atual" 
+                        className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none"
+                        value={passwordCurrent}
+                        onChange={e => setPasswordCurrent(e.target.value)}
+                    />
+                </div>
+            )}
+            <div className="relative">
+                <Lock className="absolute left-3 top-3 text-slate-400" size={20} />
+                <input 
+                    type="password" 
+                    required
+                    placeholder="Nova senha (mín. 8 caracteres)" 
+                    className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none"
+                    value={passwordNew}
+                    onChange={e => setPasswordNew(e.target.value)}
+                />
+            </div>
+            <div className="relative">
+                <Lock className="absolute left-3 top-3 text-slate-400" size={20} />
+                <input 
+                    type="password" 
+                    required
+                    placeholder="Confirme a nova senha" 
+                    className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none"
+                    value={passwordConfirm}
+                    onChange={e => setPasswordConfirm(e.target.value)}
+                />
+            </div>
+
+            {passwordError && <div className="text-red-500 text-sm text-center">{passwordError}</div>}
+
+            <button 
+              type="submit"
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-xl transition-all shadow-lg hover:shadow-blue-500/30 flex items-center justify-center gap-2"
+            >
+              Salvar Nova Senha <ChevronRight size={18} />
+            </button>
+          </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <button 
+                onClick={() => {
+                    if (view === 'reset') {
+                        window.history.replaceState({}, '', window.location.pathname);
+                        setResetToken(null);
+                        setView('login');
+                    } else {
+                        handleLogout();
+                    }
+                    resetPasswordForm();
+                }}
+                className="text-sm text-blue-600 font-medium hover:underline"
+            >
+                {view === 'reset' ? 'Voltar para o login' : 'Sair'}
+            </button>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (view === 'setup') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-600 to-indigo-900 flex flex-col items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-lg">
+          <div className="flex justify-center mb-6">
+             <div className="bg-blue-100 p-3 rounded-full">
+               <span className="text-3xl font-bold text-blue-600 flex items-center gap-2">
+                 <span className="text-4xl">☁️</span> CloudFire
+               </span>
+             </div>
+          </div>
+          <h2 className="text-2xl font-bold text-center text-slate-800 mb-2">Configuração Inicial</h2>
+          <p className="text-center text-slate-500 mb-6">Crie a conta de administrador e escolha os padrões do servidor. Esta etapa só pode ser feita uma vez.</p>
+
+          <div className="flex items-center justify-center gap-2 mb-6">
+            {SETUP_STEPS.map((label, index) => (
+                <div key={label} className={`flex items-center gap-2 text-xs font-semibold ${index === setupStep ? 'text-blue-600' : index < setupStep ? 'text-green-600' : 'text-slate-400'}`}>
+                    <span className={`w-6 h-6 rounded-full flex items-center justify-center ${index === setupStep ? 'bg-blue-100' : index < setupStep ? 'bg-green-100' : 'bg-slate-100'}`}>
+                        {index < setupStep ? <CheckCircle size={14} /> : index + 1}
+                    </span>
+                    {label}
+                    {index < SETUP_STEPS.length - 1 && <ChevronRight size={14} className="text-slate-300" />}
+                </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleSetupSubmit} className="space-y-4">
+            {setupStep === 0 && (
+                <>
+                    <div className="relative">
+                        <UserIcon className="absolute left-3 top-3 text-slate-400" size={20} />
+                        <input type="text" required autoFocus placeholder="Nome de usuário do administrador" className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none" value={setupForm.username} onChange={e => setSetupForm({ ...setupForm, username: e.target.value })} />
+                    </div>
+                    <div className="relative">
+                        <Mail className="absolute left-3 top-3 text-slate-400" size={20} />
+                        <input type="email" required placeholder="Endereço de Email" className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none" value={setupForm.email} onChange={e => setSetupForm({ ...setupForm, email: e.target.value })} />
+                    </div>
+                    <div className="relative">
+                        <Lock className="absolute left-3 top-3 text-slate-400" size={20} />
+                        <input type="password" required placeholder={`Senha (mín. ${MIN_PASSWORD_LENGTH} caracteres)`} className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none" value={setupForm.password} onChange={e => setSetupForm({ ...setupForm, password: e.target.value })} />
+                    </div>
+                    <div className="relative">
+                        <Lock className="absolute left-3 top-3 text-slate-400" size={20} />
+                        <input type="password" required placeholder="Confirme a senha" className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none" value={setupForm.confirm} onChange={e => setSetupForm({ ...setupForm, confirm: e.target.value })} />
+                    </div>
+                </>
+            )}
+
+            {setupStep === 1 && (
+                <>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">Provedor de armazenamento padrão</label>
+                        <select className="w-full px-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none" value={setupForm.provider} onChange={e => setSetupForm({ ...setupForm, provider: e.target.value as StorageProviderId })}>
+                            <option value="local">Armazenamento Local</option>
+                            <option value="aws">Amazon S3</option>
+                            <option value="wasabi">Wasabi Hot Cloud</option>
+                            <option value="google_drive">Google Drive</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">Caminho raiz</label>
+                        <input type="text" required placeholder="public/content" className="w-full px-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none" value={setupForm.rootPath} onChange={e => setSetupForm({ ...setupForm, rootPath: e.target.value })} />
+                    </div>
+                    {setupForm.provider !== 'local' && (
+                        <div className="p-3 bg-blue-50 rounded-lg text-xs text-blue-700 border border-blue-100">
+                            As credenciais do provedor ficam protegidas pela senha mestra e serão pedidas no painel de configuração logo após concluir.
+                        </div>
+                    )}
+                </>
+            )}
+
+            {setupStep === 2 && (
+                <div className="grid grid-cols-3 gap-3">
+                    {([['freeGb', 'Free'], ['proGb', 'Pro'], ['enterpriseGb', 'Enterprise']] as const).map(([field, label]) => (
+                        <div key={field}>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">{label} (GB)</label>
+                            <input type="number" min="1" required className="w-full px-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none" value={setupForm[field]} onChange={e => setSetupForm({ ...setupForm, [field]: e.target.value })} />
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {setupError && <div className="text-red-500 text-sm text-center">{setupError}</div>}
+
+            <div className="flex gap-3">
+                {setupStep > 0 && (
+                    <button type="button" onClick={() => { setSetupError(''); setSetupStep(setupStep - 1); }} className="flex-1 border border-slate-200 text-slate-600 font-semibold py-3 px-4 rounded-xl hover:bg-slate-50 flex items-center justify-center gap-2">
+                        <ArrowLeft size={18} /> Voltar
+                    </button>
+                )}
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-xl transition-all shadow-lg hover:shadow-blue-500/30 flex items-center justify-center gap-2"
+                >
+                  {setupStep < SETUP_STEPS.length - 1 ? 'Próximo' : 'Concluir Configuração'} <ChevronRight size={18} />
+                </button>
+            </div>
+          </form>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
   if (view === 'login') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-600 to-indigo-900 flex flex-col items-center justify-center p-4">
@@ -659,10 +2073,41 @@ export default function App() {
              </div>
           </div>
           <h2 className="text-2xl font-bold text-center text-slate-800 mb-2">
-             {isRegistering ? 'Criar Conta' : 'Bem-vindo de volta'}
+             {twoFactorChallenge ? 'Verificação em duas etapas' : isRegistering ? 'Criar Conta' : 'Bem-vindo de volta'}
           </h2>
-          <p className="text-center text-slate-500 mb-6">Armazenamento em nuvem simples e seguro.</p>
-          
+          <p className="text-center text-slate-500 mb-6">
+             {twoFactorChallenge ? 'Digite o código do seu aplicativo autenticador ou um código de recuperação.' : 'Armazenamento em nuvem simples e seguro.'}
+          </p>
+
+          {twoFactorChallenge ? (
+          <form onSubmit={handleTwoFactorLogin} className="space-y-4">
+            <div className="relative">
+                <Shield className="absolute left-3 top-3 text-slate-400" size={20} />
+                <input 
+                    type="text" 
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    placeholder="123456 ou código de recuperação" 
+                    className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none tracking-widest"
+                    value={authCode}
+                    onChange={e => setAuthCode(e.target.value)}
+                />
+            </div>
+
+            {authError && <div className="text-red-500 text-sm text-center">{authError}</div>}
+
+            <button 
+              type="submit"
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-xl transition-all shadow-lg hover:shadow-blue-500/30 flex items-center justify-center gap-2"
+            >
+              Verificar <ChevronRight size={18} />
+            </button>
+            <button type="button" onClick={handleCancelTwoFactorLogin} className="w-full text-sm text-slate-500 hover:underline">
+              Voltar
+            </button>
+          </form>
+          ) : (
           <form onSubmit={handleAuth} className="space-y-4">
             {isRegistering && (
                 <div className="relative">
@@ -697,6 +2142,7 @@ export default function App() {
                 />
             </div>
             
+            {authNotice && !authError && <div className="text-green-600 text-sm text-center">{authNotice}</div>}
             {authError && <div className="text-red-500 text-sm text-center">{authError}</div>}
 
             <button 
@@ -706,11 +2152,6 @@ export default function App() {
               {isRegistering ? 'Cadastrar' : 'Entrar'} <ChevronRight size={18} />
             </button>
           </form>
-
-          {!isRegistering && (
-             <div className="mt-4 p-3 bg-blue-50 rounded-lg text-xs text-blue-700 border border-blue-100 text-center">
-                <strong>Admin de Demonstração:</strong> usuário: <code>admin</code> / senha: <code>password</code>
-             </div>
           )}
 
           <div className="mt-6 text-center">
@@ -828,10 +2269,10 @@ export default function App() {
                                  <h4 className="font-bold text-blue-800 mb-2 flex items-center gap-2">
                                      <CreditCard size={18}/> Faça Upgrade para Pro
                                  </h4>
-                                 <p className="text-sm text-blue-600 mb-4">Aumente seu armazenamento para 1TB e desbloqueie uploads mais rápidos.</p>
+                                 <p className="text-sm text-blue-600 mb-4">Aumente seu armazenamento para {formatSize(planLimits.pro)} e desbloqueie uploads mais rápidos.</p>
                                  <Button onClick={() => {
-                                     updateUser({...user, plan: 'pro', storageLimit: 1024 * 1024 * 1024 * 1024});
-                                     setUser({...user, plan: 'pro', storageLimit: 1024 * 1024 * 1024 * 1024});
+                                     updateUser(user, {...user, plan: 'pro', storageLimit: planLimits.pro});
+                                     setUser({...user, plan: 'pro', storageLimit: planLimits.pro});
                                      alert("Upgrade realizado com sucesso! (Simulação)");
                                  }}>
                                      Atualizar Agora
@@ -840,6 +2281,237 @@ export default function App() {
                          )}
                      </div>
                  </div>
+
+                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+                     <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+                         <KeyRound size={20} className="text-blue-600"/> Alterar Senha
+                     </h3>
+                     <form onSubmit={handleChangePassword} className="space-y-3">
+                         <input type="password" required placeholder="Senha atual" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={passwordCurrent} onChange={e => setPasswordCurrent(e.target.value)} />
+                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                             <input type="password" required placeholder="Nova senha (mín. 8 caracteres)" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={passwordNew} onChange={e => setPasswordNew(e.target.value)} />
+                             <input type="password" required placeholder="Confirme a nova senha" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={passwordConfirm} onChange={e => setPasswordConfirm(e.target.value)} />
+                         </div>
+                         {passwordError && <div className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={14} /> {passwordError}</div>}
+                         {passwordChanged && <div className="text-xs text-green-600 flex items-center gap-1"><CheckCircle size={14} /> Senha alterada. As sessões em outros dispositivos foram encerradas.</div>}
+                         <div className="flex justify-end">
+                             <Button type="submit"><Save size={16} /> Alterar Senha</Button>
+                         </div>
+                     </form>
+                 </div>
+
+                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+                     <div className="flex items-center justify-between gap-4">
+                         <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                             <Shield size={20} className="text-blue-600"/> Verificação em Duas Etapas
+                         </h3>
+                         <span className={`px-3 py-1 rounded-full text-xs font-semibold ${user.twoFactorEnabled ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'}`}>
+                             {user.twoFactorEnabled ? 'Ativa' : 'Desativada'}
+                         </span>
+                     </div>
+
+                     {mustEnrollTwoFactor && (
+                         <div className="bg-amber-50 border border-amber-200 text-amber-800 p-3 rounded-lg text-sm flex items-center gap-2">
+                             <AlertCircle size={16} className="shrink-0" /> A política de segurança exige 2FA para administradores. Ative-a para acessar o painel admin.
+                         </div>
+                     )}
+
+                     {recoveryCodes && (
+                         <div className="border border-blue-100 bg-blue-50 rounded-lg p-4">
+                             <p className="text-sm text-blue-800 font-medium mb-2">Guarde estes códigos de recuperação. Cada um funciona uma única vez e eles não serão mostrados novamente.</p>
+                             <div className="grid grid-cols-2 gap-2 font-mono text-sm text-slate-700">
+                                 {recoveryCodes.map(code => <div key={code} className="bg-white rounded px-2 py-1 border border-blue-100">{code}</div>)}
+                             </div>
+                             <div className="flex justify-end gap-2 mt-3">
+                                 <Button variant="secondary" onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}><Copy size={16} /> Copiar</Button>
+                                 <Button onClick={() => setRecoveryCodes(null)}>Já guardei</Button>
+                             </div>
+                         </div>
+                     )}
+
+                     {!user.twoFactorEnabled && !twoFactorSetup && (
+                         <div className="flex items-center justify-between gap-4">
+                             <p className="text-sm text-slate-500">Além da senha, peça um código do seu aplicativo autenticador (Google Authenticator, Authy, 1Password…) ao entrar.</p>
+                             <Button className="shrink-0" onClick={handleStartTwoFactorSetup}>Ativar 2FA</Button>
+                         </div>
+                     )}
+
+                     {twoFactorSetup && (
+                         <form onSubmit={handleConfirmTwoFactor} className="flex flex-col md:flex-row gap-6 items-center">
+                             <div className="p-2 bg-white border border-slate-200 rounded-lg shrink-0">
+                                 <QrCode value={twoFactorSetup.uri} />
+                             </div>
+                             <div className="flex-1 space-y-3 w-full">
+                                 <p className="text-sm text-slate-600">Escaneie o QR Code no aplicativo autenticador ou digite o segredo manualmente:</p>
+                                 <code className="block bg-slate-100 rounded px-3 py-2 text-sm break-all tracking-wider">{twoFactorSetup.secret.match(/.{1,4}/g)!.join(' ')}</code>
+                                 <input type="text" inputMode="numeric" autoComplete="one-time-code" required placeholder="Código de 6 dígitos" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500 tracking-widest" value={twoFactorCode} onChange={e => setTwoFactorCode(e.target.value)} />
+                                 {twoFactorError && <div className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={14} /> {twoFactorError}</div>}
+                                 <div className="flex justify-end gap-2">
+                                     <Button type="button" variant="secondary" onClick={() => { setTwoFactorSetup(null); resetTwoFactorForm(); }}>Cancelar</Button>
+                                     <Button type="submit">Confirmar e Ativar</Button>
+                                 </div>
+                             </div>
+                         </form>
+                     )}
+
+                     {user.twoFactorEnabled && (
+                         <div className="space-y-3">
+                             <p className="text-sm text-slate-500">{remainingRecoveryCodes} código(s) de recuperação restante(s). Para gerar novos códigos ou desativar, confirme com um código atual.</p>
+                             <div className="flex flex-col sm:flex-row gap-2">
+                                 <input type="text" autoComplete="one-time-code" placeholder="Código do autenticador ou de recuperação" className="flex-1 px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={twoFactorCode} onChange={e => setTwoFactorCode(e.target.value)} />
+                                 <Button variant="secondary" disabled={!twoFactorCode} onClick={handleRegenerateRecoveryCodes}>Novos Códigos</Button>
+                                 <Button variant="danger" disabled={!twoFactorCode} onClick={handleDisableTwoFactor}>Desativar</Button>
+                             </div>
+                             {twoFactorError && <div className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={14} /> {twoFactorError}</div>}
+                         </div>
+                     )}
+                 </div>
+
+                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+                     <div className="flex items-center justify-between gap-4">
+                         <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                             <Lock size={20} className="text-blue-600"/> Criptografia de Ponta a Ponta
+                         </h3>
+                         <span className={`px-3 py-1 rounded-full text-xs font-semibold ${!user.encryptionEnabled ? 'bg-slate-100 text-slate-600' : encryptionUnlocked ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+                             {!user.encryptionEnabled ? 'Desativada' : encryptionUnlocked ? 'Desbloqueada' : 'Bloqueada'}
+                         </span>
+                     </div>
+
+                     {!user.encryptionEnabled ? (
+                         <form onSubmit={handleEnableEncryption} className="space-y-3">
+                             <p className="text-sm text-slate-500">Os arquivos enviados a partir de agora são criptografados no navegador antes de chegar ao armazenamento. Os já enviados não mudam.</p>
+                             <div className="bg-amber-50 border border-amber-200 text-amber-800 p-3 rounded-lg text-sm flex items-center gap-2">
+                                 <AlertCircle size={16} className="shrink-0" /> A chave é protegida pela sua senha. Se você esquecê-la, uma redefinição feita pelo administrador não recupera os arquivos criptografados.
+                             </div>
+                             <div className="flex flex-col sm:flex-row gap-2">
+                                 <input type="password" required placeholder="Confirme sua senha" className="flex-1 px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={encryptionPassword} onChange={e => setEncryptionPassword(e.target.value)} />
+                                 <Button type="submit">Ativar Criptografia</Button>
+                             </div>
+                         </form>
+                     ) : encryptionUnlocked ? (
+                         <div className="flex items-center justify-between gap-4">
+                             <p className="text-sm text-slate-500">Seus arquivos criptografados podem ser abertos neste navegador até você sair ou bloqueá-los.</p>
+                             <Button variant="secondary" className="shrink-0" onClick={handleLockEncryption}>Bloquear</Button>
+                         </div>
+                     ) : (
+                         <form onSubmit={handleUnlockEncryption} className="flex flex-col sm:flex-row gap-2">
+                             <input type="password" required placeholder="Senha da conta" className="flex-1 px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={encryptionPassword} onChange={e => setEncryptionPassword(e.target.value)} />
+                             <Button type="submit">Desbloquear</Button>
+                         </form>
+                     )}
+                     {encryptionError && <div className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={14} /> {encryptionError}</div>}
+                 </div>
+
+                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+                     <div className="flex items-center justify-between gap-4 mb-4">
+                         <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                             <Monitor size={20} className="text-blue-600"/> Sessões Ativas
+                         </h3>
+                         <Button variant="danger" onClick={handleLogoutAllDevices}>
+                             <LogOut size={16} /> Sair de todos os dispositivos
+                         </Button>
+                     </div>
+                     <ul className="divide-y divide-slate-100">
+                         {activeSessions.map(session => (
+                             <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                                 <div className="min-w-0">
+                                     <div className="text-sm font-medium text-slate-700 flex items-center gap-2">
+                                         {describeUserAgent(session.userAgent)}
+                                         {session.id === currentSessionId && <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-semibold">Este dispositivo</span>}
+                                     </div>
+                                     <div className="text-xs text-slate-400">
+                                         Entrou em {new Date(session.createdAt).toLocaleString()} • Última atividade {new Date(session.lastActiveAt).toLocaleString()}
+                                     </div>
+                                 </div>
+                                 <Button variant="secondary" className="shrink-0" onClick={() => handleRevokeSession(session)}>
+                                     {session.id === currentSessionId ? 'Sair' : 'Encerrar'}
+                                 </Button>
+                             </li>
+                         ))}
+                     </ul>
+                 </div>
+
+                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+                     <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                         <Terminal size={20} className="text-blue-600"/> Tokens de Acesso Pessoal
+                     </h3>
+                     <p className="text-sm text-slate-500">Para scripts e automações: <code className="bg-slate-100 rounded px-1">cloudfire.connect(token)</code> permite listar, enviar, baixar e compartilhar arquivos em seu nome, dentro das permissões do token.</p>
+
+                     {createdToken && (
+                         <div className="border border-blue-100 bg-blue-50 rounded-lg p-4 space-y-2">
+                             <p className="text-sm text-blue-800 font-medium">Copie o token agora. Ele não será mostrado novamente.</p>
+                             <div className="flex gap-2">
+                                 <input readOnly className="flex-1 px-3 py-2 rounded-lg border border-blue-200 bg-white text-slate-700 text-sm font-mono" value={createdToken} onFocus={e => e.target.select()} />
+                                 <Button variant="secondary" onClick={() => navigator.clipboard.writeText(createdToken)}><Copy size={16} /> Copiar</Button>
+                                 <Button onClick={() => setCreatedToken(null)}>Já copiei</Button>
+                             </div>
+                         </div>
+                     )}
+
+                     <form onSubmit={handleCreateAccessToken} className="flex flex-col md:flex-row md:items-center gap-3">
+                         <input type="text" required placeholder="Nome (ex.: backup noturno)" className="flex-1 px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={tokenForm.name} onChange={e => setTokenForm({ ...tokenForm, name: e.target.value })} />
+                         <div className="flex items-center gap-3 text-sm text-slate-600">
+                             {(Object.keys(TOKEN_SCOPE_LABELS) as TokenScope[]).map(scope => (
+                                 <label key={scope} className="flex items-center gap-1">
+                                     <input type="checkbox" checked={tokenForm.scopes.includes(scope)} onChange={() => toggleTokenScope(scope)} />
+                                     {TOKEN_SCOPE_LABELS[scope]}
+                                 </label>
+                             ))}
+                         </div>
+                         <select className="px-3 py-2 rounded-lg border border-slate-200 text-sm bg-white" value={tokenForm.expiresInDays} onChange={e => setTokenForm({ ...tokenForm, expiresInDays: e.target.value })}>
+                             <option value="7">Expira em 7 dias</option>
+                             <option value="30">Expira em 30 dias</option>
+                             <option value="90">Expira em 90 dias</option>
+                             <option value="365">Expira em 1 ano</option>
+                             <option value="">Nunca expira</option>
+                         </select>
+                         <Button type="submit" className="shrink-0"><Plus size={16} /> Criar Token</Button>
+                     </form>
+                     {tokenError && <div className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={14} /> {tokenError}</div>}
+
+                     <ul className="divide-y divide-slate-100">
+                         {accessTokens.map(token => (
+                             <li key={token.id} className="py-3 flex items-center justify-between gap-4">
+                                 <div className="min-w-0">
+                                     <div className="text-sm font-medium text-slate-700 flex items-center gap-2 flex-wrap">
+                                         {token.name}
+                                         <code className="text-xs text-slate-400">{token.prefix}…</code>
+                                         {token.scopes.map(scope => <span key={scope} className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded-full text-xs font-semibold">{TOKEN_SCOPE_LABELS[scope]}</span>)}
+                                         {isTokenExpired(token) && <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-xs font-semibold">Expirado</span>}
+                                     </div>
+                                     <div className="text-xs text-slate-400">
+                                         Criado em {new Date(token.createdAt).toLocaleString()}
+                                         {' • '}{token.expiresAt ? `Expira em ${new Date(token.expiresAt).toLocaleString()}` : 'Sem expiração'}
+                                         {' • '}{token.lastUsedAt ? `Último uso ${new Date(token.lastUsedAt).toLocaleString()}` : 'Nunca usado'}
+                                     </div>
+                                 </div>
+                                 <Button variant="secondary" className="shrink-0" onClick={() => handleRevokeAccessToken(token)}>Revogar</Button>
+                             </li>
+                         ))}
+                     </ul>
+                     {accessTokens.length === 0 && <p className="text-sm text-slate-400">Nenhum token criado.</p>}
+                 </div>
+
+                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+                     <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+                         <History size={20} className="text-blue-600"/> Histórico de Segurança
+                     </h3>
+                     <ul className="divide-y divide-slate-100">
+                         {securityHistory.map(entry => (
+                             <li key={entry.id} className="py-3 flex items-center justify-between gap-4">
+                                 <div className="min-w-0">
+                                     <div className={`text-sm font-medium flex items-center gap-2 ${entry.success ? 'text-slate-700' : 'text-red-600'}`}>
+                                         {entry.success ? <CheckCircle size={14} className="text-green-500" /> : <AlertCircle size={14} />}
+                                         {AUDIT_ACTION_LABELS[entry.action]}
+                                     </div>
+                                     {entry.details && <div className="text-xs text-slate-400 truncate">{entry.details}</div>}
+                                 </div>
+                                 <div className="text-xs text-slate-400 shrink-0">{new Date(entry.timestamp).toLocaleString()}</div>
+                             </li>
+                         ))}
+                     </ul>
+                     {securityHistory.length === 0 && <p className="text-sm text-slate-400">Nenhum evento registrado.</p>}
+                 </div>
                  <Footer />
               </main>
           </div>
@@ -847,6 +2519,48 @@ export default function App() {
   }
 
   // --- Admin View ---
+  if (view === 'myShares' && user) {
+      return (
+          <div className="min-h-screen bg-slate-50 flex flex-col">
+              <Header />
+              <main className="flex-1 p-6 max-w-4xl mx-auto w-full space-y-6">
+                 <div className="flex items-center gap-4 mb-6">
+                    <button onClick={() => setView('dashboard')} className="p-2 hover:bg-slate-200 rounded-full">
+                        <ArrowLeft />
+                    </button>
+                    <h1 className="text-2xl font-bold text-slate-800">Meus compartilhamentos</h1>
+                 </div>
+
+                 {myShares.length === 0 ? (
+                     <div className="bg-white p-10 rounded-xl shadow-sm border border-slate-200 text-center text-slate-400">
+                         <Globe size={40} className="mx-auto mb-3 opacity-20" />
+                         <p>Você ainda não compartilhou nenhum link público.</p>
+                     </div>
+                 ) : (
+                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                         {myShares.map(stats => (
+                             <div key={stats.itemId} className="bg-white p-5 rounded-xl shadow-sm border border-slate-200 space-y-3">
+                                 <div className="flex items-center gap-3">
+                                     {stats.itemType === 'folder' ? <Folder size={20} className="text-blue-500 shrink-0" /> : <FileText size={20} className="text-slate-400 shrink-0" />}
+                                     <div className="flex-1 min-w-0">
+                                         <div className="font-semibold text-slate-800 truncate" title={stats.name}>{stats.name}</div>
+                                         <div className={`text-xs ${stats.isShared ? 'text-green-600' : 'text-slate-400'}`}>{stats.isShared ? 'Link ativo' : 'Link desativado'}</div>
+                                     </div>
+                                     <Button variant="secondary" className="text-xs h-8 shrink-0" onClick={() => handleManageShare(stats)}>
+                                         <Share2 size={14} /> Gerenciar
+                                     </Button>
+                                 </div>
+                                 <ShareStatsSummary stats={stats} />
+                             </div>
+                         ))}
+                     </div>
+                 )}
+              </main>
+              <Footer />
+          </div>
+      );
+  }
+
   if (view === 'admin') {
     return (
       <div className="h-[100dvh] bg-slate-50 flex flex-col overflow-hidden">
@@ -869,6 +2583,9 @@ export default function App() {
                     <button onClick={() => setAdminTab('config')} className={`w-full flex items-center gap-3 px-4 py-2 rounded-lg font-medium transition-colors ${adminTab === 'config' ? 'bg-blue-50 text-blue-600' : 'text-slate-600 hover:bg-slate-50'}`}>
                         <Settings size={18} /> Configurações
                     </button>
+                    <button onClick={() => setAdminTab('audit')} className={`w-full flex items-center gap-3 px-4 py-2 rounded-lg font-medium transition-colors ${adminTab === 'audit' ? 'bg-blue-50 text-blue-600' : 'text-slate-600 hover:bg-slate-50'}`}>
+                        <ScrollText size={18} /> Auditoria
+                    </button>
                 </nav>
             </aside>
             <main className="flex-1 p-6 overflow-y-auto pb-24">
@@ -897,6 +2614,25 @@ export default function App() {
                             <h3 className="text-lg font-bold text-slate-800 mb-4">Atividade Recente</h3>
                             {systemStats && <AdminChart data={systemStats.recentUploads} />}
                             </div>
+                            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+                                <h3 className="text-lg font-bold text-slate-800 mb-4">Links mais baixados</h3>
+                                {!systemStats?.topShares.length ? (
+                                    <p className="text-sm text-slate-400">Nenhum download por link público ainda.</p>
+                                ) : (
+                                    <ol className="space-y-3">
+                                        {systemStats.topShares.map(stats => (
+                                            <li key={stats.itemId} className="flex items-center gap-3 text-sm">
+                                                {stats.itemType === 'folder' ? <Folder size={16} className="text-blue-500 shrink-0" /> : <FileText size={16} className="text-slate-400 shrink-0" />}
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="font-medium text-slate-700 truncate" title={stats.name}>{stats.name}</div>
+                                                    <div className="text-xs text-slate-400">{stats.ownerName || 'Usuário removido'}{stats.isShared ? '' : ' • link desativado'}</div>
+                                                </div>
+                                                <span className="font-semibold text-slate-800">{stats.downloads}</span>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
+                            </div>
                         </div>
                     </div>
                 )}
@@ -904,6 +2640,28 @@ export default function App() {
                 {adminTab === 'users' && (
                     <div className="space-y-6">
                         <h1 className="text-2xl font-bold text-slate-800">Gerenciar Usuários</h1>
+                        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 flex items-center justify-between gap-4">
+                            <div>
+                                <h3 className="font-bold text-slate-800 flex items-center gap-2"><Shield size={18} className="text-blue-600" /> Exigir 2FA para administradores</h3>
+                                <p className="text-xs text-slate-500 mt-1">Administradores sem verificação em duas etapas ficam sem acesso ao painel até ativá-la no perfil.</p>
+                            </div>
+                            <button onClick={handleToggleAdminTwoFactor} className="text-blue-600 shrink-0" title={securityPolicy.requireAdminTwoFactor ? 'Desativar exigência' : 'Ativar exigência'}>
+                                {securityPolicy.requireAdminTwoFactor ? <ToggleRight size={36} /> : <ToggleLeft size={36} className="text-slate-400" />}
+                            </button>
+                        </div>
+                        {adminResetLink && (
+                            <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 space-y-2">
+                                <div className="flex items-center justify-between gap-4">
+                                    <h3 className="font-bold text-blue-800 flex items-center gap-2"><KeyRound size={18} /> Link de redefinição para {adminResetLink.username}</h3>
+                                    <button onClick={() => setAdminResetLink(null)} className="text-blue-400 hover:text-blue-700"><X size={18} /></button>
+                                </div>
+                                <div className="flex gap-2">
+                                    <input readOnly className="flex-1 px-3 py-2 rounded-lg border border-blue-200 bg-white text-slate-700 text-sm font-mono" value={adminResetLink.url} onFocus={e => e.target.select()} />
+                                    <Button variant="secondary" onClick={() => navigator.clipboard.writeText(adminResetLink.url)}><Copy size={16} /> Copiar</Button>
+                                </div>
+                                <p className="text-xs text-blue-700">Uso único, válido até {new Date(adminResetLink.expiresAt).toLocaleString()}. Envie ao usuário por um canal seguro; o link não será mostrado novamente.</p>
+                            </div>
+                        )}
                         <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
                             <table className="w-full text-left border-collapse">
                                 <thead className="bg-slate-50 text-slate-500 text-xs uppercase font-semibold">
@@ -916,7 +2674,9 @@ export default function App() {
                                     </tr>
                                 </thead>
                                 <tbody className="divide-y divide-slate-100">
-                                    {adminUsers.map(u => (
+                                    {adminUsers.map(u => {
+                                        const lock = lockedAccounts.find(l => l.username === u.username);
+                                        return (
                                         <tr key={u.id} className="hover:bg-slate-50 transition-colors">
                                             <td className="p-4">
                                                 <div className="flex items-center gap-3">
@@ -955,14 +2715,31 @@ export default function App() {
                                                 >
                                                     {u.isActive ? 'Ativo' : 'Bloqueado'}
                                                 </button>
+                                                {u.twoFactorEnabled && (
+                                                    <span className="ml-2 text-xs px-2 py-1 rounded-full font-medium bg-blue-100 text-blue-700" title="Verificação em duas etapas ativa">2FA</span>
+                                                )}
+                                                {lock && (
+                                                    <div className="mt-2 flex items-center gap-1 text-xs text-amber-700">
+                                                        <Lock size={12} /> Bloqueada até {new Date(lock.lockedUntil!).toLocaleTimeString()} ({lock.failures} falhas)
+                                                    </div>
+                                                )}
                                             </td>
                                             <td className="p-4 text-right">
+                                                {lock && (
+                                                    <Button variant="ghost" className="text-amber-600 hover:bg-amber-50 p-2" title="Desbloquear login" onClick={() => handleAdminUnlockAccount(u.username)}>
+                                                        <Unlock size={16} />
+                                                    </Button>
+                                                )}
+                                                <Button variant="ghost" className="text-slate-500 hover:bg-slate-100 p-2" title="Gerar link de redefinição de senha" onClick={() => handleAdminResetPassword(u)}>
+                                                    <KeyRound size={16} />
+                                                </Button>
                                                 <Button variant="ghost" className="text-red-500 hover:bg-red-50 p-2" onClick={() => handleAdminDeleteUser(u.username)}>
                                                     <Trash2 size={16} />
                                                 </Button>
                                             </td>
                                         </tr>
-                                    ))}
+                                        );
+                                    })}
                                 </tbody>
                             </table>
                             {adminUsers.length === 0 && <div className="p-8 text-center text-slate-400">Nenhum usuário encontrado.</div>}
@@ -1016,12 +2793,135 @@ export default function App() {
                     </div>
                 )}
 
+                {adminTab === 'audit' && (
+                    <div className="space-y-6">
+                        <div className="flex flex-wrap items-center justify-between gap-4">
+                            <h1 className="text-2xl font-bold text-slate-800">Registro de Auditoria</h1>
+                            <div className="flex gap-2">
+                                <Button variant="secondary" onClick={() => handleExportAudit('csv')} disabled={auditEntries.length === 0}>
+                                    <FileSpreadsheet size={16} /> Exportar CSV
+                                </Button>
+                                <Button variant="secondary" onClick={() => handleExportAudit('json')} disabled={auditEntries.length === 0}>
+                                    <FileJson size={16} /> Exportar JSON
+                                </Button>
+                            </div>
+                        </div>
+                        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 mb-1">Usuário</label>
+                                <input
+                                    list="audit-users"
+                                    className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm"
+                                    placeholder="Todos"
+                                    value={auditFilter.username}
+                                    onChange={e => setAuditFilter({ ...auditFilter, username: e.target.value })}
+                                />
+                                <datalist id="audit-users">
+                                    {adminUsers.map(u => <option key={u.id} value={u.username} />)}
+                                </datalist>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 mb-1">Ação</label>
+                                <select
+                                    className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm bg-white"
+                                    value={auditFilter.action}
+                                    onChange={e => setAuditFilter({ ...auditFilter, action: e.target.value as AuditAction | '' })}
+                                >
+                                    <option value="">Todas</option>
+                                    {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                                        <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 mb-1">De</label>
+                                <input type="date" className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm" value={auditFilter.from} onChange={e => setAuditFilter({ ...auditFilter, from: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 mb-1">Até</label>
+                                <input type="date" className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm" value={auditFilter.to} onChange={e => setAuditFilter({ ...auditFilter, to: e.target.value })} />
+                            </div>
+                        </div>
+                        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                            <table className="w-full text-left border-collapse">
+                                <thead className="bg-slate-50 text-slate-500 text-xs uppercase font-semibold">
+                                    <tr>
+                                        <th className="p-4">Data</th>
+                                        <th className="p-4">Usuário</th>
+                                        <th className="p-4">Ação</th>
+                                        <th className="p-4">Alvo</th>
+                                        <th className="p-4">Detalhes</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                    {auditEntries.slice(0, AUDIT_TABLE_LIMIT).map(entry => (
+                                        <tr key={entry.id} className="hover:bg-slate-50 transition-colors text-sm">
+                                            <td className="p-4 text-slate-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                                            <td className="p-4 font-medium text-slate-700">{entry.actorName}</td>
+                                            <td className="p-4">
+                                                <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${entry.success ? 'bg-slate-100 text-slate-600' : 'bg-red-100 text-red-700'}`}>
+                                                    {AUDIT_ACTION_LABELS[entry.action] || entry.action}
+                                                </span>
+                                            </td>
+                                            <td className="p-4 text-slate-600 max-w-[200px] truncate" title={entry.targetId}>{entry.targetName || entry.targetId || '-'}</td>
+                                            <td className="p-4 text-slate-500">{entry.details || '-'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {auditEntries.length === 0 && <div className="p-8 text-center text-slate-400">Nenhum evento encontrado.</div>}
+                            {auditEntries.length > AUDIT_TABLE_LIMIT && (
+                                <div className="p-4 text-center text-xs text-slate-400 border-t border-slate-100">
+                                    Mostrando {AUDIT_TABLE_LIMIT} de {auditEntries.length} eventos. Exporte para ver todos.
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {adminTab === 'config' && (
                      <div className="space-y-6 max-w-2xl pb-10">
                         <div className="flex justify-between items-center">
                             <h1 className="text-2xl font-bold text-slate-800">Integração de Armazenamento</h1>
                             {configSaved && <span className="text-green-600 text-sm font-bold animate-pulse">Configurações salvas!</span>}
                         </div>
+
+                        {/* Secrets Vault */}
+                        <div className={`border rounded-xl p-4 space-y-3 ${vaultStatus === 'unlocked' ? 'bg-white border-slate-200' : 'bg-amber-50 border-amber-200'}`}>
+                            <div className="flex items-center justify-between gap-4">
+                                <div>
+                                    <h3 className="font-bold text-slate-800 flex items-center gap-2"><Lock size={18} className="text-blue-600" /> Cofre de Credenciais</h3>
+                                    <p className="text-xs text-slate-500 mt-1">
+                                        {vaultStatus === 'unset' && 'Defina uma senha mestra para criptografar as chaves dos provedores antes de salvá-las.'}
+                                        {vaultStatus === 'locked' && 'As credenciais estão criptografadas. Desbloqueie com a senha mestra para usar ou alterar provedores remotos.'}
+                                        {vaultStatus === 'unlocked' && `Desbloqueado por até ${VAULT_UNLOCK_TTL_MS / 3600000} horas ou até que um administrador bloqueie; depois disso é preciso a senha mestra de novo. As credenciais continuam criptografadas no banco e são lidas só quando necessário.`}
+                                    </p>
+                                </div>
+                                {vaultStatus === 'unlocked' && !isRotatingPassphrase && (
+                                    <div className="flex gap-2 shrink-0">
+                                        <Button variant="secondary" onClick={() => setIsRotatingPassphrase(true)}>Trocar Senha</Button>
+                                        <Button variant="secondary" onClick={handleLockVault}>Bloquear</Button>
+                                    </div>
+                                )}
+                            </div>
+                            {(vaultStatus !== 'unlocked' || isRotatingPassphrase) && (
+                                <form onSubmit={handleVaultSubmit} className="space-y-2">
+                                    <input type="password" required className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" placeholder={vaultStatus === 'unset' ? 'Nova senha mestra' : isRotatingPassphrase ? 'Senha mestra atual' : 'Senha mestra'} value={vaultPassphrase} onChange={e => setVaultPassphrase(e.target.value)} />
+                                    {isRotatingPassphrase && (
+                                        <input type="password" required className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" placeholder="Nova senha mestra" value={vaultNewPassphrase} onChange={e => setVaultNewPassphrase(e.target.value)} />
+                                    )}
+                                    {(vaultStatus === 'unset' || isRotatingPassphrase) && (
+                                        <input type="password" required className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" placeholder="Confirme a nova senha mestra" value={vaultConfirm} onChange={e => setVaultConfirm(e.target.value)} />
+                                    )}
+                                    {vaultError && <div className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={14} /> {vaultError}</div>}
+                                    <div className="flex justify-end gap-2">
+                                        {isRotatingPassphrase && <Button type="button" variant="secondary" onClick={() => { setIsRotatingPassphrase(false); resetVaultForm(); }}>Cancelar</Button>}
+                                        <Button type="submit">{vaultStatus === 'unset' ? 'Definir Senha Mestra' : isRotatingPassphrase ? 'Trocar e Recriptografar' : 'Desbloquear'}</Button>
+                                    </div>
+                                </form>
+                            )}
+                        </div>
+
                         <form onSubmit={handleSaveConfig} className="space-y-4">
                             <div>
                                 <label className="block text-xs font-medium text-slate-500 mb-1">Caminho Base (Físico/Bucket)</label>
@@ -1077,11 +2977,11 @@ export default function App() {
                                         <div className="grid grid-cols-2 gap-3">
                                             <div>
                                                 <label className="block text-xs font-medium text-slate-500 mb-1">Access Key</label>
-                                                <input type="text" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.accessKey || ''} onChange={e => setCdnConfig({...cdnConfig, accessKey: e.target.value})} />
+                                                <input type="text" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.accessKey || ''} onFocus={e => e.target.select()} onChange={e => setCdnConfig({...cdnConfig, accessKey: e.target.value})} />
                                             </div>
                                             <div>
                                                 <label className="block text-xs font-medium text-slate-500 mb-1">Secret Key</label>
-                                                <input type="password" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.secretKey || ''} onChange={e => setCdnConfig({...cdnConfig, secretKey: e.target.value})} />
+                                                <input type="password" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.secretKey || ''} onFocus={e => e.target.select()} onChange={e => setCdnConfig({...cdnConfig, secretKey: e.target.value})} />
                                             </div>
                                         </div>
                                     </div>
@@ -1125,11 +3025,11 @@ export default function App() {
                                         <div className="grid grid-cols-2 gap-3">
                                             <div>
                                                 <label className="block text-xs font-medium text-slate-500 mb-1">Access Key</label>
-                                                <input type="text" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.accessKey || ''} onChange={e => setCdnConfig({...cdnConfig, accessKey: e.target.value})} />
+                                                <input type="text" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.accessKey || ''} onFocus={e => e.target.select()} onChange={e => setCdnConfig({...cdnConfig, accessKey: e.target.value})} />
                                             </div>
                                             <div>
                                                 <label className="block text-xs font-medium text-slate-500 mb-1">Secret Key</label>
-                                                <input type="password" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.secretKey || ''} onChange={e => setCdnConfig({...cdnConfig, secretKey: e.target.value})} />
+                                                <input type="password" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.secretKey || ''} onFocus={e => e.target.select()} onChange={e => setCdnConfig({...cdnConfig, secretKey: e.target.value})} />
                                             </div>
                                         </div>
                                     </div>
@@ -1162,20 +3062,106 @@ export default function App() {
                                          </div>
                                          <div>
                                             <label className="block text-xs font-medium text-slate-500 mb-1">Client Secret</label>
-                                            <input type="password" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.clientSecret || ''} onChange={e => setCdnConfig({...cdnConfig, clientSecret: e.target.value})} />
+                                            <input type="password" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.clientSecret || ''} onFocus={e => e.target.select()} onChange={e => setCdnConfig({...cdnConfig, clientSecret: e.target.value})} />
                                          </div>
                                          <div>
                                             <label className="block text-xs font-medium text-slate-500 mb-1">Refresh Token</label>
-                                            <input type="password" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.refreshToken || ''} onChange={e => setCdnConfig({...cdnConfig, refreshToken: e.target.value})} />
+                                            <input type="password" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.refreshToken || ''} onFocus={e => e.target.select()} onChange={e => setCdnConfig({...cdnConfig, refreshToken: e.target.value})} />
+                                         </div>
+                                         <div>
+                                            <label className="block text-xs font-medium text-slate-500 mb-1">Endpoint da API (Opcional)</label>
+                                            <input type="text" placeholder="https://www.googleapis.com" className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm outline-none focus:border-blue-500" value={cdnConfig.endpoint || ''} onChange={e => setCdnConfig({...cdnConfig, endpoint: e.target.value})} />
+                                            <p className="text-xs text-slate-400 mt-1">Deixe em branco para usar o Google. Útil para apontar para um mock local da API do Drive.</p>
                                          </div>
                                     </div>
                                 )}
                             </div>
 
-                            <div className="pt-4 flex justify-end sticky bottom-0 bg-slate-50 py-4 border-t border-slate-200 mt-4">
-                                <Button type="submit" variant="success" className="shadow-lg"><Save size={18} /> Salvar Alterações</Button>
+                            {configErrors.length > 0 && (
+                                <div className="bg-red-50 border border-red-200 text-red-700 p-3 rounded-lg text-sm space-y-1">
+                                    {configErrors.map(err => (
+                                        <div key={err} className="flex items-center gap-2"><AlertCircle size={14} className="shrink-0" /> {err}</div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {connectionTest && (
+                                <div className={`border p-3 rounded-lg text-sm ${connectionTest.ok ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                                    <div className="font-semibold flex items-center gap-2">
+                                        {connectionTest.ok ? <CheckCircle size={16} /> : <AlertCircle size={16} />}
+                                        {connectionTest.ok ? 'Conexão OK' : 'Falha na conexão'} • {connectionTest.latencyMs} ms
+                                    </div>
+                                    <div className="text-xs mt-1 opacity-80">
+                                        {connectionTest.steps.map(step => `${step.name === 'write' ? 'Escrita' : step.name === 'read' ? 'Leitura' : 'Exclusão'}: ${step.ms} ms`).join(' • ')}
+                                    </div>
+                                    {connectionTest.error && (
+                                        <div className="text-xs mt-2 font-mono break-all">
+                                            [{connectionTest.failedStep === 'write' ? 'Escrita' : connectionTest.failedStep === 'read' ? 'Leitura' : 'Exclusão'}] {connectionTest.error}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            <div className="pt-4 flex justify-end gap-3 sticky bottom-0 bg-slate-50 py-4 border-t border-slate-200 mt-4">
+                                <Button type="button" variant="secondary" disabled={isTestingConnection} onClick={handleTestConnection}>
+                                    {isTestingConnection ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={18} />} Testar Conexão
+                                </Button>
+                                <Button type="submit" variant="success" className="shadow-lg" disabled={isTestingConnection}><Save size={18} /> Salvar Alterações</Button>
                             </div>
                         </form>
+
+                        {/* Provider Migration */}
+                        <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-4">
+                            <div className="flex items-center justify-between gap-4">
+                                <div>
+                                    <h3 className="font-bold text-slate-800 flex items-center gap-2"><RefreshCw size={18} className="text-blue-600" /> Migração de Provedor</h3>
+                                    <p className="text-xs text-slate-500 mt-1">
+                                        {migrationPending > 0
+                                            ? `${migrationPending} arquivo(s) ainda estão em outro provedor. A migração copia, confere e reaponta cada arquivo para o provedor salvo.`
+                                            : 'Todos os arquivos já estão no provedor salvo.'}
+                                    </p>
+                                </div>
+                                {migrationState?.status === 'running' ? (
+                                    <Button variant="secondary" className="shrink-0" onClick={() => migrationJob.current?.pause()}>Pausar</Button>
+                                ) : migrationState?.status === 'paused' ? (
+                                    <Button className="shrink-0" onClick={() => migrationJob.current?.resume()}>Retomar</Button>
+                                ) : (
+                                    <Button className="shrink-0" disabled={migrationPending === 0} onClick={handleStartMigration}>Iniciar Migração</Button>
+                                )}
+                            </div>
+
+                            {migrationState && migrationState.status !== 'idle' && (
+                                <div>
+                                    <div className="flex justify-between text-xs text-slate-500 mb-1">
+                                        <span className="truncate">
+                                            {migrationState.status === 'running' && `Copiando ${migrationState.current || ''}`}
+                                            {migrationState.status === 'paused' && 'Pausado'}
+                                            {migrationState.status === 'done' && 'Migração concluída'}
+                                        </span>
+                                        <span>{migrationState.completed} / {migrationState.total}</span>
+                                    </div>
+                                    <div className="w-full bg-slate-200 rounded-full h-2">
+                                        <div className="bg-blue-500 h-2 rounded-full transition-all" style={{ width: `${migrationState.total ? (migrationState.completed / migrationState.total) * 100 : 100}%` }}></div>
+                                    </div>
+                                </div>
+                            )}
+
+                            {migrationState && migrationState.failures.length > 0 && (
+                                <div className="border border-red-100 rounded-lg overflow-hidden">
+                                    <div className="bg-red-50 text-red-700 text-xs font-semibold px-3 py-2 flex items-center gap-2">
+                                        <AlertCircle size={14} /> {migrationState.failures.length} arquivo(s) não migrado(s) — continuam no provedor anterior
+                                    </div>
+                                    <ul className="divide-y divide-red-50 max-h-48 overflow-y-auto">
+                                        {migrationState.failures.map(f => (
+                                            <li key={f.fileId} className="px-3 py-2 text-xs">
+                                                <div className="font-medium text-slate-700 truncate">{f.fileName}</div>
+                                                <div className="text-red-500">{f.error}</div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
                      </div>
                 )}
                 <Footer />
@@ -1189,24 +3175,30 @@ export default function App() {
   return (
     <div className="h-[100dvh] bg-slate-50 flex flex-col overflow-hidden">
       <Header />
+      <input type="file" ref={folderInputRef} className="hidden" onChange={handleFolderUpload} {...{ webkitdirectory: '', directory: '' }} />
       
       <div className="flex flex-1 overflow-hidden">
         {/* Sidebar */}
         <aside className="w-64 bg-white border-r border-slate-200 hidden md:flex flex-col">
           <div className="p-4 space-y-2">
             <button 
-              onClick={() => {
-                setUploadProgress(0);
-                setIsUploading(false);
-                setIsUploadModalOpen(true);
-              }}
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg flex items-center justify-center gap-2 shadow-lg shadow-blue-500/20 transition-all"
+              onClick={() => setIsUploadModalOpen(true)}
+              disabled={!canAddHere}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg flex items-center justify-center gap-2 shadow-lg shadow-blue-500/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Upload size={18} /> Enviar Arquivo
             </button>
+            <button 
+              onClick={() => folderInputRef.current?.click()}
+              disabled={!canAddHere}
+              className="w-full bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 font-medium py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FolderUp size={18} /> Enviar Pasta
+            </button>
             <button 
               onClick={() => setIsFolderModalOpen(true)}
-              className="w-full bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 font-medium py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-all"
+              disabled={!canAddHere}
+              className="w-full bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 font-medium py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Plus size={18} /> Nova Pasta
             </button>
@@ -1225,6 +3217,18 @@ export default function App() {
             >
                 <Trash2 size={18} /> Lixeira
             </button>
+            <button
+                onClick={() => { setView('sharedWithMe'); setCurrentFolderId('root'); setSelectedFile(null); }}
+                className={`w-full flex items-center gap-3 px-4 py-2 rounded-lg font-medium transition-colors ${view === 'sharedWithMe' ? 'bg-blue-50 text-blue-600' : 'text-slate-600 hover:bg-slate-50'}`}
+            >
+                <Users size={18} /> Compartilhados comigo
+            </button>
+            <button
+                onClick={() => setView('myShares')}
+                className="w-full flex items-center gap-3 px-4 py-2 rounded-lg font-medium transition-colors text-slate-600 hover:bg-slate-50"
+            >
+                <BarChart3 size={18} /> Meus compartilhamentos
+            </button>
           </nav>
 
           <div className="p-4 m-4 bg-slate-50 rounded-xl border border-slate-100">
@@ -1245,19 +3249,35 @@ export default function App() {
         </aside>
 
         {/* Main Content */}
-        <main className="flex-1 flex flex-col overflow-hidden relative">
+        <main
+          className="flex-1 flex flex-col overflow-hidden relative"
+          onDragOver={canAddHere ? handleDragOver : undefined}
+          onDragLeave={canAddHere ? handleDragLeave : undefined}
+          onDrop={canAddHere ? handleDrop : undefined}
+        >
+          {/* Drop Overlay */}
+          {isDragging && (
+            <div className="absolute inset-2 z-30 border-2 border-dashed border-blue-500 bg-blue-50/90 rounded-xl flex flex-col items-center justify-center text-blue-600 pointer-events-none">
+              <FolderUp size={48} className="mb-3" />
+              <p className="font-semibold">Solte arquivos ou pastas para enviar</p>
+              <p className="text-sm text-blue-500 mt-1">A estrutura de pastas será recriada aqui</p>
+            </div>
+          )}
           
           {/* Breadcrumbs & Actions */}
           <div className="h-14 bg-white border-b border-slate-200 flex items-center justify-between px-6 shrink-0">
             <div className="flex items-center gap-2 overflow-x-auto no-scrollbar">
-              {view === 'dashboard' && currentFolderId !== 'root' && (
+              {(view === 'dashboard' || view === 'sharedWithMe') && currentFolderId !== 'root' && (
                 <button onClick={goUp} className="p-1 hover:bg-slate-100 rounded-full mr-2">
                   <ArrowLeft size={18} className="text-slate-500" />
                 </button>
               )}
                <div className="text-sm font-medium text-slate-800">
-                  {view === 'trash' ? 'Lixeira (Itens Excluídos)' : (currentFolderId === 'root' ? 'Meus Arquivos' : folders.find(f => f.id === currentFolderId)?.name || 'Pasta')}
+                  {view === 'trash' ? 'Lixeira (Itens Excluídos)' : (currentFolderId === 'root' ? (view === 'sharedWithMe' ? 'Compartilhados comigo' : 'Meus Arquivos') : currentFolder?.name || 'Pasta')}
                </div>
+               {view === 'sharedWithMe' && currentFolderRole && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-500">{SHARE_ROLE_LABELS[currentFolderRole]}</span>
+               )}
             </div>
             
             {view === 'trash' && files.length > 0 && (
@@ -1266,10 +3286,12 @@ export default function App() {
                 </Button>
             )}
 
+            {canAddHere && (
             <div className="flex items-center gap-2 md:hidden">
                 <Button variant="ghost" onClick={() => setIsUploadModalOpen(true)}><Upload size={18}/></Button>
                 <Button variant="ghost" onClick={() => setIsFolderModalOpen(true)}><Plus size={18}/></Button>
             </div>
+            )}
           </div>
 
           {/* File Grid */}
@@ -1289,8 +3311,19 @@ export default function App() {
                     </div>
                 )}
 
-                {/* Folders Section (Only show if dashboard) */}
-                {view === 'dashboard' && folders.length > 0 && (
+                {/* Encryption Locked */}
+                {view === 'dashboard' && user?.encryptionEnabled && !encryptionUnlocked && (
+                    <form onSubmit={handleUnlockEncryption} className="bg-amber-50 border border-amber-200 text-amber-800 p-4 rounded-lg mb-6 flex flex-col md:flex-row md:items-center gap-3 text-sm">
+                        <Lock size={20} className="shrink-0" />
+                        <span className="flex-1">Seus arquivos criptografados estão bloqueados. Digite sua senha para visualizá-los e enviar novos arquivos.</span>
+                        <input type="password" required placeholder="Senha da conta" className="px-3 py-2 rounded-lg border border-amber-200 bg-white text-slate-700 outline-none focus:border-amber-400" value={encryptionPassword} onChange={e => setEncryptionPassword(e.target.value)} />
+                        <Button type="submit" className="shrink-0">Desbloquear</Button>
+                        {encryptionError && <span className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={14} /> {encryptionError}</span>}
+                    </form>
+                )}
+
+                {/* Folders Section (not in the trash) */}
+                {view !== 'trash' && folders.length > 0 && (
                 <div className="mb-8">
                     <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">Pastas</h3>
                     <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
@@ -1302,6 +3335,22 @@ export default function App() {
                         >
                         <div className="flex justify-between items-start mb-2">
                             <Folder className="w-8 h-8 text-yellow-500 fill-yellow-500" />
+                            <div className="flex items-center gap-1">
+                                {folder.isShared && (
+                                    <span className="bg-green-500 text-white p-1 rounded-full shadow-sm" title="Compartilhada">
+                                        <Globe size={10} />
+                                    </span>
+                                )}
+                                {folder.ownerId === user?.id && (
+                                <button
+                                    className="p-1 rounded hover:bg-slate-100 text-slate-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                                    onClick={(e) => { e.stopPropagation(); openFolderShareModal(folder); }}
+                                    title="Compartilhar pasta"
+                                >
+                                    <Share2 size={14} />
+                                </button>
+                                )}
+                            </div>
                         </div>
                         <div className="text-sm font-medium text-slate-700 truncate">{folder.name}</div>
                         </div>
@@ -1312,15 +3361,15 @@ export default function App() {
 
                 {/* Files Section */}
                 <div>
-                {view === 'dashboard' && <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">Arquivos</h3>}
+                {view !== 'trash' && <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">Arquivos</h3>}
                 
                 {files.length === 0 && folders.length === 0 ? (
                     <div className="flex flex-col items-center justify-center py-20 text-slate-400">
                     <div className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center mb-4">
                         {view === 'trash' ? <Trash2 size={40} className="text-slate-300" /> : <Folder size={40} className="text-slate-300" />}
                     </div>
-                    <p>{view === 'trash' ? 'Sua lixeira está vazia' : 'Esta pasta está vazia'}</p>
-                    {view === 'dashboard' && <Button variant="secondary" className="mt-4" onClick={() => setIsUploadModalOpen(true)}>Enviar Arquivos</Button>}
+                    <p>{view === 'trash' ? 'Sua lixeira está vazia' : view === 'sharedWithMe' && currentFolderId === 'root' ? 'Ninguém compartilhou itens com você ainda' : 'Esta pasta está vazia'}</p>
+                    {canAddHere && <Button variant="secondary" className="mt-4" onClick={() => setIsUploadModalOpen(true)}>Enviar Arquivos</Button>}
                     </div>
                 ) : (
                     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
@@ -1346,7 +3395,7 @@ export default function App() {
                             )}
                             
                             <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1 z-10">
-                            {view === 'dashboard' ? (
+                            {view !== 'trash' ? (
                                 <>
                                 <button 
                                     className="p-1 bg-white/90 rounded hover:bg-white shadow text-slate-600" 
@@ -1354,12 +3403,14 @@ export default function App() {
                                 >
                                     <Download size={14} />
                                 </button>
+                                {file.ownerId === user?.id && (
                                 <button 
                                     className="p-1 bg-white/90 rounded hover:bg-white shadow text-red-500" 
                                     onClick={(e) => { e.stopPropagation(); handleDeleteFile(file.id); }}
                                 >
                                     <Trash2 size={14} />
                                 </button>
+                                )}
                                 </>
                             ) : (
                                 <>
@@ -1425,12 +3476,13 @@ export default function App() {
                 <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 text-xs font-mono text-slate-500 break-all">
                     <div className="flex items-center gap-1 mb-1 font-semibold text-slate-700">
                         <HardDrive size={12} /> Caminho de Armazenamento
+                        <span className="ml-auto font-normal uppercase text-slate-400">{selectedFile.storageProvider || 'local'}</span>
                     </div>
                     {selectedFile.storageKey || 'Caminho não definido'}
                 </div>
 
-                {/* Share Button Block - Only if not trashed */}
-                {view !== 'trash' && (
+                {/* Share Button Block - Only for the owner, and not in the trash */}
+                {view !== 'trash' && selectedFile.ownerId === user?.id && (
                 <div className="bg-blue-50 rounded-xl p-3 border border-blue-100">
                      <div className="flex items-center justify-between mb-2">
                          <div className="flex items-center gap-2 text-blue-700 font-medium text-sm">
@@ -1474,7 +3526,9 @@ export default function App() {
                    ) : (
                        <>
                         <Button className="flex-1 text-sm" onClick={() => handleDownload(selectedFile)}><Download size={16}/> Baixar</Button>
-                        <Button variant="danger" className="flex-1 text-sm" onClick={() => handleDeleteFile(selectedFile.id)}><Trash2 size={16}/> Excluir</Button>
+                        {selectedFile.ownerId === user?.id && (
+                            <Button variant="danger" className="flex-1 text-sm" onClick={() => handleDeleteFile(selectedFile.id)}><Trash2 size={16}/> Excluir</Button>
+                        )}
                        </>
                    )}
                 </div>
@@ -1486,14 +3540,14 @@ export default function App() {
       </div>
 
       {/* Share Modal */}
-      {isShareModalOpen && selectedFile && (
+      {isShareModalOpen && shareItem && (
           <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-            <div className="bg-white rounded-2xl w-full max-w-md p-6 shadow-2xl relative">
+            <div className="bg-white rounded-2xl w-full max-w-md p-6 shadow-2xl relative max-h-[90vh] overflow-y-auto">
                <div className="flex justify-between items-center mb-6">
                   <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
-                      <Share2 className="text-blue-500" /> Compartilhar Arquivo
+                      <Share2 className="text-blue-500" /> {shareFolder ? 'Compartilhar Pasta' : 'Compartilhar Arquivo'}
                   </h3>
-                  <button onClick={() => setIsShareModalOpen(false)} className="text-slate-400 hover:text-slate-600">
+                  <button onClick={closeShareModal} className="text-slate-400 hover:text-slate-600">
                       <X size={20} />
                   </button>
                </div>
@@ -1501,13 +3555,13 @@ export default function App() {
                <div className="space-y-6">
                    <div className="flex items-center justify-between p-4 bg-slate-50 rounded-xl border border-slate-100">
                        <div className="flex items-center gap-3">
-                           <div className={`p-2 rounded-full ${selectedFile.isShared ? 'bg-green-100 text-green-600' : 'bg-slate-200 text-slate-500'}`}>
-                               {selectedFile.isShared ? <Globe size={20} /> : <Lock size={20} />}
+                           <div className={`p-2 rounded-full ${shareItem.isShared ? 'bg-green-100 text-green-600' : 'bg-slate-200 text-slate-500'}`}>
+                               {shareItem.isShared ? <Globe size={20} /> : <Lock size={20} />}
                            </div>
                            <div>
                                <div className="font-semibold text-slate-700">Link Público</div>
                                <div className="text-xs text-slate-500">
-                                   {selectedFile.isShared ? 'Qualquer pessoa com o link pode baixar' : 'O compartilhamento está desativado'}
+                                   {!shareItem.isShared ? 'O compartilhamento está desativado' : shareItem.sharePassword ? 'Quem tiver o link e a senha pode baixar' : 'Qualquer pessoa com o link pode baixar'}
                                </div>
                            </div>
                        </div>
@@ -1516,25 +3570,59 @@ export default function App() {
                               type="checkbox" 
                               name="toggle" 
                               id="toggle" 
-                              checked={selectedFile.isShared || false}
+                              checked={shareItem.isShared || false}
                               onChange={handleShareToggle}
                               className="toggle-checkbox absolute block w-6 h-6 rounded-full bg-white border-4 appearance-none cursor-pointer transition-all duration-300 transform translate-x-0 checked:translate-x-6 checked:border-green-500"
                            />
                            <label 
                               htmlFor="toggle" 
-                              className={`toggle-label block overflow-hidden h-6 rounded-full cursor-pointer transition-colors ${selectedFile.isShared ? 'bg-green-500' : 'bg-slate-300'}`}
+                              className={`toggle-label block overflow-hidden h-6 rounded-full cursor-pointer transition-colors ${shareItem.isShared ? 'bg-green-500' : 'bg-slate-300'}`}
                            ></label>
                        </div>
                    </div>
 
-                   {selectedFile.isShared && (
+                   <div className="space-y-3">
+                       <div className="grid grid-cols-2 gap-3">
+                           <div>
+                               <label className="block text-xs font-medium text-slate-500 mb-1">Validade do link</label>
+                               <select className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm bg-white" value={shareForm.expiry} onChange={e => setShareForm({ ...shareForm, expiry: e.target.value as ShareExpiryChoice })}>
+                                   {(Object.keys(SHARE_EXPIRY_LABELS) as ShareExpiryChoice[]).map(choice => (
+                                       <option key={choice} value={choice}>{SHARE_EXPIRY_LABELS[choice]}</option>
+                                   ))}
+                               </select>
+                           </div>
+                           <div>
+                               <label className="block text-xs font-medium text-slate-500 mb-1">Máximo de downloads</label>
+                               <input type="number" min="1" placeholder="Sem limite" className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm" value={shareForm.maxDownloads} onChange={e => setShareForm({ ...shareForm, maxDownloads: e.target.value })} />
+                           </div>
+                       </div>
+                       {shareForm.expiry === 'custom' && (
+                           <input type="datetime-local" className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm" value={shareForm.customExpiry} onChange={e => setShareForm({ ...shareForm, customExpiry: e.target.value })} />
+                       )}
+                       <div>
+                           <label className="block text-xs font-medium text-slate-500 mb-1 flex items-center justify-between">
+                               <span>{shareItem.sharePassword ? 'Nova senha do link' : 'Senha do link (opcional)'}</span>
+                               {shareItem.isShared && shareItem.sharePassword && (
+                                   <button onClick={handleRemoveSharePassword} className="text-red-500 hover:underline">Remover senha</button>
+                               )}
+                           </label>
+                           <input type="password" autoComplete="new-password" placeholder={shareItem.sharePassword ? 'Protegido por senha; deixe em branco para manter' : 'Sem senha'} className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm" value={shareForm.password} onChange={e => setShareForm({ ...shareForm, password: e.target.value })} />
+                       </div>
+                       {shareItem.isShared && (
+                           <div className="flex justify-end">
+                               <Button variant="secondary" onClick={handleSaveShareSettings}><Save size={16} /> Salvar Alterações</Button>
+                           </div>
+                       )}
+                   </div>
+
+                   {shareItem.isShared && (
                        <div className="animate-in fade-in slide-in-from-top-2">
                            <label className="text-sm font-medium text-slate-700 mb-2 block">Link de compartilhamento</label>
                            <div className="flex gap-2">
                                <input 
                                   readOnly
                                   type="text" 
-                                  value={`${window.location.origin}?share=${selectedFile.shareToken}`}
+                                  value={shareLink}
                                   className="w-full bg-slate-50 border border-slate-200 text-slate-600 text-sm rounded-lg px-3 py-2 outline-none"
                                />
                                <Button variant="secondary" onClick={handleCopyLink} className="shrink-0">
@@ -1542,14 +3630,65 @@ export default function App() {
                                </Button>
                            </div>
                            <p className="text-xs text-slate-400 mt-2">
-                               Este link expira apenas se você desativar o compartilhamento.
+                               {shareItem.shareExpiresAt ? `Expira em ${new Date(shareItem.shareExpiresAt).toLocaleString()}` : 'Sem data de expiração'}
+                               {' • '}{shareItem.shareDownloads || 0}{shareItem.shareMaxDownloads ? ` de ${shareItem.shareMaxDownloads}` : ''} download(s)
                            </p>
+                           {getShareProblem(shareItem) && (
+                               <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                                   <AlertCircle size={12} /> {SHARE_PROBLEM_MESSAGES[getShareProblem(shareItem)!]} Ele será revogado no próximo acesso.
+                               </p>
+                           )}
+                           {!shareFolder && selectedFile?.encryption && (
+                               <p className="text-xs text-amber-600 mt-1">
+                                   O link inclui a chave do arquivo criptografado: qualquer pessoa com ele consegue abri-lo.
+                               </p>
+                           )}
+                           {shareFolder && (
+                               <p className="text-xs text-slate-400 mt-1">
+                                   O link dá acesso às subpastas e arquivos desta pasta, exceto os criptografados. Itens enviados à lixeira deixam de aparecer.
+                               </p>
+                           )}
+                       </div>
+                   )}
+                   {shareStats && (shareItem.isShared || shareStats.views + shareStats.downloads > 0) && (
+                       <div className="pt-4 border-t border-slate-100">
+                           <label className="text-sm font-medium text-slate-700 mb-2 flex items-center gap-2"><BarChart3 size={16} /> Acessos ao link</label>
+                           <ShareStatsSummary stats={shareStats} />
                        </div>
                    )}
+                   <div className="pt-4 border-t border-slate-100">
+                       <label className="text-sm font-medium text-slate-700 mb-2 flex items-center gap-2"><Users size={16} /> Pessoas com acesso</label>
+                       <form onSubmit={handleAddGrant} className="flex gap-2">
+                           <input type="text" placeholder="Usuário ou e-mail" className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-slate-200 text-sm" value={grantForm.login} onChange={e => setGrantForm({ ...grantForm, login: e.target.value })} />
+                           <select className="px-2 py-2 rounded-lg border border-slate-200 text-sm bg-white" value={grantForm.role} onChange={e => setGrantForm({ ...grantForm, role: e.target.value as ShareRole })}>
+                               {(Object.keys(SHARE_ROLE_LABELS) as ShareRole[]).map(role => <option key={role} value={role}>{SHARE_ROLE_LABELS[role]}</option>)}
+                           </select>
+                           <Button type="submit" variant="secondary" className="shrink-0"><Plus size={16} /></Button>
+                       </form>
+                       {shareGrants.length > 0 && (
+                           <ul className="mt-3 space-y-2">
+                               {shareGrants.map(grant => (
+                                   <li key={grant.id} className="flex items-center gap-2 text-sm">
+                                       <UserIcon size={14} className="text-slate-400 shrink-0" />
+                                       <span className="flex-1 truncate text-slate-700">{grant.username}</span>
+                                       <select className="px-2 py-1 rounded border border-slate-200 text-xs bg-white" value={grant.role} onChange={e => handleChangeGrantRole(grant, e.target.value as ShareRole)}>
+                                           {(Object.keys(SHARE_ROLE_LABELS) as ShareRole[]).map(role => <option key={role} value={role}>{SHARE_ROLE_LABELS[role]}</option>)}
+                                       </select>
+                                       <button onClick={() => handleRevokeGrant(grant)} className="text-slate-400 hover:text-red-500" title="Remover acesso"><X size={14} /></button>
+                                   </li>
+                               ))}
+                           </ul>
+                       )}
+                       <p className="text-xs text-slate-400 mt-2">
+                           {shareFolder
+                               ? 'Editores podem enviar arquivos e criar pastas aqui; o espaço usado conta na sua cota.'
+                               : 'Visualizadores e editores podem abrir e baixar o arquivo.'}
+                       </p>
+                   </div>
                </div>
 
                <div className="mt-8 flex justify-end">
-                   <Button onClick={() => setIsShareModalOpen(false)}>Concluído</Button>
+                   <Button onClick={closeShareModal}>Concluído</Button>
                </div>
             </div>
           </div>
@@ -1558,58 +3697,118 @@ export default function App() {
       {/* Upload Modal */}
       {isUploadModalOpen && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-          <div className="bg-white rounded-2xl w-full max-w-lg p-6 shadow-2xl relative">
+          <div className="bg-white rounded-2xl w-full max-w-lg p-6 shadow-2xl relative max-h-[90vh] flex flex-col">
             {/* Header */}
             <div className="flex justify-between items-center mb-4">
-                <h3 className="text-xl font-bold text-slate-800">Enviar Arquivo</h3>
-                {!isUploading && (
-                    <button onClick={() => setIsUploadModalOpen(false)} className="text-slate-400 hover:text-slate-600">
-                        <X size={20} />
-                    </button>
-                )}
+                <h3 className="text-xl font-bold text-slate-800">Enviar Arquivos</h3>
+                <button onClick={handleCloseUploadModal} className="text-slate-400 hover:text-slate-600" title={isQueueSettled || uploadQueue.length === 0 ? 'Fechar' : 'Continuar em segundo plano'}>
+                    <X size={20} />
+                </button>
             </div>
             
             {/* Body */}
-            {isUploading ? (
-                 <div className="py-10 flex flex-col items-center">
-                    <div className="w-16 h-16 mb-4 relative flex items-center justify-center">
-                        {uploadProgress === 100 ? (
-                             <CheckCircle className="w-full h-full text-green-500 animate-in zoom-in" />
-                        ) : (
-                             <Loader2 className="w-full h-full text-blue-500 animate-spin" />
-                        )}
-                    </div>
-                    <div className="w-full bg-slate-100 h-3 rounded-full overflow-hidden mb-2">
-                         <div 
-                           className="bg-blue-500 h-full transition-all duration-300 ease-out"
-                           style={{ width: `${uploadProgress}%` }}
-                         />
-                    </div>
-                    <p className="text-slate-600 font-medium">
-                        {uploadProgress === 100 ? 'Envio Concluído!' : 'Enviando arquivo...'}
-                    </p>
-                    <p className="text-xs text-slate-400 mt-1">{uploadProgress}%</p>
-                 </div>
-            ) : (
-                <div 
-                    className="border-2 border-dashed border-slate-300 rounded-xl p-8 flex flex-col items-center justify-center text-center cursor-pointer hover:bg-slate-50 hover:border-blue-400 transition-colors"
-                    onClick={() => fileInputRef.current?.click()}
-                >
-                    <div className="w-12 h-12 bg-blue-50 text-blue-500 rounded-full flex items-center justify-center mb-3">
-                        <Upload size={24} />
-                    </div>
-                    <p className="font-medium text-slate-700">Clique para enviar ou arraste e solte</p>
-                    <p className="text-sm text-slate-400 mt-1">Imagens, Docs, Vídeo, Músicas</p>
-                    <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
+            <div 
+                className={`border-2 border-dashed rounded-xl p-8 flex flex-col items-center justify-center text-center cursor-pointer hover:bg-slate-50 hover:border-blue-400 transition-colors shrink-0 ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-slate-300'}`}
+                onClick={() => fileInputRef.current?.click()}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+            >
+                <div className="w-12 h-12 bg-blue-50 text-blue-500 rounded-full flex items-center justify-center mb-3">
+                    <Upload size={24} />
+                </div>
+                <p className="font-medium text-slate-700">Clique para enviar ou arraste e solte</p>
+                <p className="text-sm text-slate-400 mt-1">Selecione vários arquivos de uma vez</p>
+                <input type="file" multiple ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
+            </div>
+            <button onClick={() => folderInputRef.current?.click()} className="mt-2 text-sm text-blue-600 font-medium hover:underline flex items-center gap-1 self-center">
+                <FolderUp size={14} /> Ou envie uma pasta inteira
+            </button>
+
+            {/* Upload Queue */}
+            {uploadQueue.length > 0 && (
+                <div className="mt-4 space-y-2 overflow-y-auto min-h-0">
+                    {uploadQueue.map(item => {
+                        const percent = item.file.size ? Math.floor((item.loaded / item.file.size) * 100) : (item.status === 'done' ? 100 : 0);
+                        return (
+                            <div key={item.id} className="p-3 bg-slate-50 border border-slate-100 rounded-lg">
+                                <div className="flex items-center gap-3">
+                                    {item.status === 'done' ? <CheckCircle size={16} className="text-green-500 shrink-0" />
+                                        : item.status === 'error' ? <AlertCircle size={16} className="text-red-500 shrink-0" />
+                                        : item.status === 'canceled' ? <X size={16} className="text-slate-400 shrink-0" />
+                                        : item.status === 'uploading' ? <Loader2 size={16} className="text-blue-500 animate-spin shrink-0" />
+                                        : <Upload size={16} className="text-slate-400 shrink-0" />}
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-sm font-medium text-slate-700 truncate" title={item.file.name}>{item.file.name}</div>
+                                        <div className={`text-xs ${item.status === 'error' ? 'text-red-500' : 'text-slate-400'}`}>
+                                            {item.status === 'queued' && 'Na fila'}
+                                            {item.status === 'uploading' && `${item.phase === 'hashing' ? 'Calculando hash… ' : ''}${percent}% • ${formatSize(item.loaded)} de ${formatSize(item.file.size)}`}
+                                            {item.status === 'done' && `Concluído • ${formatSize(item.file.size)}`}
+                                            {item.status === 'canceled' && 'Cancelado'}
+                                            {item.status === 'error' && (item.error || 'Falha no envio')}
+                                        </div>
+                                    </div>
+                                    {(item.status === 'queued' || item.status === 'uploading') && (
+                                        <button onClick={() => handleCancelUpload(item)} className="text-slate-400 hover:text-red-500" title="Cancelar">
+                                            <X size={16} />
+                                        </button>
+                                    )}
+                                    {(item.status === 'error' || item.status === 'canceled') && (
+                                        <button onClick={() => handleRetryUpload(item)} className="text-slate-400 hover:text-blue-500" title="Tentar novamente">
+                                            <RefreshCw size={16} />
+                                        </button>
+                                    )}
+                                </div>
+                                {item.status === 'uploading' && (
+                                    <div className="w-full bg-slate-200 h-1.5 rounded-full overflow-hidden mt-2">
+                                        <div className="bg-blue-500 h-full transition-all duration-300 ease-out" style={{ width: `${percent}%` }} />
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
                 </div>
             )}
-            
-            {/* Footer */}
-            {!isUploading && (
-                <div className="flex justify-end mt-6 gap-3">
-                <Button variant="secondary" onClick={() => setIsUploadModalOpen(false)}>Cancelar</Button>
+
+            {/* Summary */}
+            {isQueueSettled && (
+                <div className="mt-4 p-3 rounded-lg bg-blue-50 border border-blue-100 text-sm text-blue-800">
+                    Envio finalizado: {uploadQueue.filter(i => i.status === 'done').length} enviado(s)
+                    {uploadQueue.some(i => i.status === 'error') && `, ${uploadQueue.filter(i => i.status === 'error').length} com falha`}
+                    {uploadQueue.some(i => i.status === 'canceled') && `, ${uploadQueue.filter(i => i.status === 'canceled').length} cancelado(s)`}.
+                </div>
+            )}
+
+            {/* Interrupted Uploads */}
+            {(uploadQueue.length === 0 || isQueueSettled) && pendingUploads.length > 0 && (
+                <div className="mt-4 space-y-2">
+                    <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Envios interrompidos</h4>
+                    {pendingUploads.map(session => {
+                        const sent = Math.min(session.size, session.parts.length * session.chunkSize);
+                        return (
+                            <div key={session.id} className="flex items-center gap-3 p-3 bg-orange-50 border border-orange-100 rounded-lg">
+                                <RefreshCw size={16} className="text-orange-500 shrink-0" />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-medium text-slate-700 truncate" title={session.name}>{session.name}</div>
+                                    <div className="text-xs text-slate-500">
+                                        {formatSize(sent)} de {formatSize(session.size)} • Selecione o arquivo novamente para continuar
+                                    </div>
+                                </div>
+                                <button onClick={() => handleDiscardUpload(session)} className="text-slate-400 hover:text-red-500" title="Descartar">
+                                    <X size={16} />
+                                </button>
+                            </div>
+                        );
+                    })}
                 </div>
             )}
+            
+            {/* Footer */}
+            <div className="flex justify-end mt-6 gap-3 shrink-0">
+                <Button variant="secondary" onClick={handleCloseUploadModal}>
+                    {uploadQueue.length === 0 ? 'Cancelar' : isQueueSettled ? 'Fechar' : 'Ocultar'}
+                </Button>
+            </div>
           </div>
         </div>
       )}
@@ -0,0 +1,23 @@
+import React from 'react';
+import { encodeQrCode } from '../utils/qrcode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+// Rendered locally as SVG so the encoded value never leaves the browser
+export const QrCode: React.FC<QrCodeProps> = ({ value, size = 192 }) => {
+  const modules = encodeQrCode(value);
+  const quiet = 4;
+  const dimension = modules.length + quiet * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + quiet} ${y + quiet}h1v1h-1z` : '')))
+    .join('');
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${dimension} ${dimension}`} shapeRendering="crispEdges" role="img" aria-label="QR Code">
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#0f172a" />
+    </svg>
+  );
+};
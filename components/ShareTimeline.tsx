@@ -0,0 +1,30 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { ShareTimelineDay } from '../types';
+
+interface ShareTimelineProps {
+    data: ShareTimelineDay[];
+}
+
+// Day of the month under each bar; the tooltip shows the full date
+const dayOfMonth = (date: string) => String(Number(date.slice(8)));
+const fullDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+export const ShareTimeline: React.FC<ShareTimelineProps> = ({ data }) => {
+  return (
+    <div className="h-24 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} barCategoryGap={2}>
+          <XAxis dataKey="date" tickFormatter={dayOfMonth} axisLine={false} tickLine={false} interval={0} tick={{fill: '#94a3b8', fontSize: 10}} />
+          <Tooltip
+            cursor={{fill: '#f1f5f9'}}
+            labelFormatter={label => fullDate(String(label))}
+            contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: 12}}
+          />
+          <Bar dataKey="views" name="Acessos" stackId="share" fill="#93c5fd" />
+          <Bar dataKey="downloads" name="Downloads" stackId="share" fill="#2563eb" radius={[3, 3, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -1,6 +1,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { createApiClient } from './utils/api';
+
+declare global {
+  interface Window {
+    cloudfire?: { connect: typeof createApiClient };
+  }
+}
+
+// Entry point for scripts (browser automation, the devtools console) using a personal access token
+window.cloudfire = { connect: createApiClient };
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,234 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+// Local stand-in for the Drive REST v3 endpoints the provider uses: the OAuth token endpoint,
+// folder and file queries, resumable upload sessions for new files and for replacing a file's
+// content (with the 308 / Range status protocol), media download and delete. Served from one host, as CDNConfig.endpoint expects.
+
+export interface MockDriveOptions {
+    clientId: string;
+    clientSecret: string;
+    refreshToken: string;
+}
+
+export interface MockDriveFile {
+    id: string;
+    name: string;
+    mimeType: string;
+    parents: string[];
+    description?: string;
+    appProperties?: Record<string, string>;
+    data?: Buffer;
+}
+
+interface UploadSession {
+    metadata: Partial<Omit<MockDriveFile, 'id'>>;
+    received: Buffer;
+    fileId?: string; // Set for sessions that replace an existing file's content
+}
+
+export interface MockDrive {
+    endpoint: string;
+    files: Map<string, MockDriveFile>;
+    sessions: Map<string, UploadSession>;
+    requests: { method: string; url: string; contentRange?: string; authorization?: string }[];
+    tokensIssued(): number;
+    // Invalidates every access token handed out so far, as a revocation or early expiry would
+    revokeTokens(): void;
+    // The next chunk PUT keeps only its first `bytes` bytes, then the connection drops
+    interruptNextChunk(bytes: number): void;
+    close(): Promise<void>;
+}
+
+const FOLDER_MIME = 'application/vnd.google-apps.folder';
+
+const readBody = (req: http.IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const unquote = (value: string) => value.replace(/\\'/g, "'").replace(/\\\\/g, '\\');
+
+// Just the query shapes utils/drive.ts sends
+const matchesQuery = (file: MockDriveFile, q: string) => {
+    const mime = q.match(/mimeType='((?:[^'\\]|\\.)*)'/)?.[1];
+    if (mime !== undefined && file.mimeType !== unquote(mime)) return false;
+    const name = q.match(/name='((?:[^'\\]|\\.)*)'/)?.[1];
+    if (name !== undefined && file.name !== unquote(name)) return false;
+    const parent = q.match(/'((?:[^'\\]|\\.)*)' in parents/)?.[1];
+    if (parent !== undefined && !file.parents.includes(unquote(parent))) return false;
+    const property = q.match(/appProperties has \{ key='([^']*)' and value='([^']*)' \}/);
+    if (property && file.appProperties?.[property[1]] !== property[2]) return false;
+    return true;
+};
+
+const toResource = (file: MockDriveFile) => ({
+    id: file.id,
+    name: file.name,
+    size: file.data ? String(file.data.length) : undefined,
+    modifiedTime: '2024-01-01T00:00:00.000Z',
+    description: file.description,
+});
+
+export const startMockDrive = async (options: MockDriveOptions): Promise<MockDrive> => {
+    const files = new Map<string, MockDriveFile>();
+    const sessions = new Map<string, UploadSession>();
+    const requests: MockDrive['requests'] = [];
+    const validTokens = new Set<string>();
+    let issued = 0;
+    let nextId = 1;
+    let interruptAt: number | undefined;
+    let endpoint = '';
+
+    const json = (res: http.ServerResponse, status: number, body: unknown) => {
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body));
+    };
+    const error = (res: http.ServerResponse, status: number, message: string) =>
+        json(res, status, { error: { code: status, message } });
+
+    // 308 Resume Incomplete, with Range once the session holds any bytes
+    const resumeIncomplete = (res: http.ServerResponse, session: UploadSession) => {
+        res.statusCode = 308;
+        if (session.received.length > 0) res.setHeader('Range', `bytes=0-${session.received.length - 1}`);
+        res.end();
+    };
+
+    const handleSession = (req: http.IncomingMessage, res: http.ServerResponse, uploadId: string, body: Buffer) => {
+        const session = sessions.get(uploadId);
+        if (!session) return error(res, 404, 'Upload session not found');
+        if (req.method === 'DELETE') {
+            sessions.delete(uploadId);
+            return error(res, 499, 'Client Closed Request');
+        }
+        const range = String(req.headers['content-range'] || '');
+        const status = range.match(/^bytes \*\/(\*|\d+)$/);
+        if (status) {
+            // Status request, or the final empty PUT announcing the total
+            if (status[1] === '*' || Number(status[1]) !== session.received.length) return resumeIncomplete(res, session);
+            const existing = session.fileId ? files.get(session.fileId) : undefined;
+            if (session.fileId && !existing) return error(res, 404, 'File not found');
+            const file = { ...existing, id: existing?.id || `file-${nextId++}`, ...session.metadata, data: session.received } as MockDriveFile;
+            files.set(file.id, file);
+            sessions.delete(uploadId);
+            return json(res, 200, toResource(file));
+        }
+        const chunk = range.match(/^bytes (\d+)-(\d+)\/\*$/);
+        if (!chunk) return resumeIncomplete(res, session); // Empty file: nothing to take
+        const first = Number(chunk[1]);
+        if (first > session.received.length || Number(chunk[2]) - first + 1 !== body.length) {
+            return error(res, 400, 'Invalid Content-Range');
+        }
+        // Bytes the session already holds are dropped, as Drive does
+        session.received = Buffer.concat([session.received, body.subarray(session.received.length - first)]);
+        if (interruptAt !== undefined) {
+            session.received = session.received.subarray(0, first + interruptAt);
+            interruptAt = undefined;
+            req.socket.destroy();
+            return;
+        }
+        resumeIncomplete(res, session);
+    };
+
+    const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const url = new URL(req.url || '/', endpoint);
+        const body = await readBody(req);
+
+        if (url.pathname === '/token' && req.method === 'POST') {
+            const form = new URLSearchParams(body.toString());
+            if (form.get('grant_type') !== 'refresh_token' || form.get('client_id') !== options.clientId ||
+                form.get('client_secret') !== options.clientSecret || form.get('refresh_token') !== options.refreshToken) {
+                return json(res, 400, { error: 'invalid_grant', error_description: 'Bad Request' });
+            }
+            const token = `token-${++issued}`;
+            validTokens.add(token);
+            return json(res, 200, { access_token: token, expires_in: 3599, token_type: 'Bearer' });
+        }
+
+        const token = String(req.headers.authorization || '').replace(/^Bearer /, '');
+        if (!validTokens.has(token)) return error(res, 401, 'Invalid Credentials');
+
+        if (url.pathname === '/upload/drive/v3/files') {
+            const uploadId = url.searchParams.get('upload_id');
+            if (uploadId) return handleSession(req, res, uploadId, body);
+            if (req.method !== 'POST' || url.searchParams.get('uploadType') !== 'resumable') return error(res, 400, 'Unsupported upload');
+            const id = `session-${nextId++}`;
+            sessions.set(id, { metadata: JSON.parse(body.toString()), received: Buffer.alloc(0) });
+            res.setHeader('Location', `${endpoint}/upload/drive/v3/files?uploadType=resumable&upload_id=${id}`);
+            return res.end();
+        }
+
+        const updateId = url.pathname.match(/^\/upload\/drive\/v3\/files\/([^/]+)$/)?.[1];
+        if (updateId) {
+            if (req.method !== 'PATCH' || url.searchParams.get('uploadType') !== 'resumable') return error(res, 400, 'Unsupported upload');
+            if (!files.has(updateId)) return error(res, 404, 'File not found');
+            const id = `session-${nextId++}`;
+            sessions.set(id, { metadata: JSON.parse(body.toString() || '{}'), received: Buffer.alloc(0), fileId: updateId });
+            res.setHeader('Location', `${endpoint}/upload/drive/v3/files?uploadType=resumable&upload_id=${id}`);
+            return res.end();
+        }
+
+        if (url.pathname === '/drive/v3/files') {
+            if (req.method === 'POST') {
+                const file: MockDriveFile = { id: `folder-${nextId++}`, ...JSON.parse(body.toString()) };
+                files.set(file.id, file);
+                return json(res, 200, { id: file.id });
+            }
+            const q = url.searchParams.get('q') || '';
+            const matching = [...files.values()].filter(f => matchesQuery(f, q));
+            const pageSize = Number(url.searchParams.get('pageSize') || 100);
+            const start = Number(url.searchParams.get('pageToken') || 0);
+            const page = matching.slice(start, start + pageSize);
+            return json(res, 200, {
+                files: page.map(toResource),
+                nextPageToken: start + pageSize < matching.length ? String(start + pageSize) : undefined,
+            });
+        }
+
+        const fileId = url.pathname.match(/^\/drive\/v3\/files\/([^/]+)$/)?.[1];
+        const file = fileId ? files.get(fileId) : undefined;
+        if (!file) return error(res, 404, 'File not found');
+        if (req.method === 'DELETE') {
+            files.delete(file.id);
+            res.statusCode = 204;
+            return res.end();
+        }
+        if (req.method === 'GET' && url.searchParams.get('alt') === 'media') return res.end(file.data);
+        return json(res, 200, toResource(file));
+    };
+
+    const server = http.createServer((req, res) => {
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Access-Control-Expose-Headers', 'Location, Range');
+        if (req.method === 'OPTIONS') {
+            res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, PATCH, DELETE');
+            res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] || '');
+            return res.end();
+        }
+        requests.push({
+            method: req.method || '',
+            url: req.url || '',
+            contentRange: req.headers['content-range'] as string | undefined,
+            authorization: req.headers.authorization,
+        });
+        handle(req, res).catch(err => error(res, 500, String(err)));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        endpoint,
+        files,
+        sessions,
+        requests,
+        tokensIssued: () => issued,
+        revokeTokens: () => validTokens.clear(),
+        interruptNextChunk: bytes => { interruptAt = bytes; },
+        close: () => new Promise(resolve => server.close(() => resolve())),
+    };
+};
+
+export const isFolder = (file: MockDriveFile) => file.mimeType === FOLDER_MIME;
@@ -0,0 +1,228 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createHash, createHmac } from 'node:crypto';
+
+// Local S3 stand-in for the provider tests, in the spirit of MinIO: path-style buckets, SigV4
+// checked independently of utils/s3.ts (header and presigned), multipart uploads and paged
+// ListObjectsV2. Only what the app uses is implemented.
+
+export interface MockS3Options {
+    accessKey: string;
+    secretKey: string;
+    region: string;
+    bucket: string;
+    pageSize?: number; // MaxKeys of each ListObjectsV2 page
+}
+
+export interface MockS3 {
+    endpoint: string;
+    objects: Map<string, Buffer>;
+    uploads: Map<string, { key: string; parts: Map<number, Buffer> }>;
+    requests: { method: string; url: string }[];
+    close(): Promise<void>;
+}
+
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60;
+
+const uriEncode = (value: string) =>
+    encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: Buffer | string, data: string) => createHmac('sha256', key).update(data).digest();
+
+const signingKey = (secretKey: string, dateStamp: string, region: string) =>
+    hmac(hmac(hmac(hmac(`AWS4${secretKey}`, dateStamp), region), 's3'), 'aws4_request');
+
+const parseQuery = (raw: string): [string, string][] => raw
+    ? raw.split('&').map(pair => {
+        const i = pair.indexOf('=');
+        return [decodeURIComponent(i < 0 ? pair : pair.slice(0, i)), decodeURIComponent(i < 0 ? '' : pair.slice(i + 1))];
+    })
+    : [];
+
+const canonicalQuery = (query: [string, string][]) => query
+    .map(([k, v]) => [uriEncode(k), uriEncode(v)])
+    .sort(([a, av], [b, bv]) => a < b ? -1 : a > b ? 1 : av < bv ? -1 : av > bv ? 1 : 0)
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+
+// Not Date.now(): tests fake the Date the client signs with, and this clock must keep real time
+const now = () => performance.timeOrigin + performance.now();
+
+const parseAmzDate = (value: string) =>
+    Date.parse(`${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}T${value.slice(9, 11)}:${value.slice(11, 13)}:${value.slice(13, 15)}Z`);
+
+class S3Error extends Error {
+    constructor(readonly status: number, readonly code: string, message = code) {
+        super(message);
+    }
+}
+
+const verifySignature = (options: MockS3Options, req: http.IncomingMessage, path: string, query: [string, string][]) => {
+    const presigned = query.find(([k]) => k === 'X-Amz-Signature');
+    let credential: string, signedHeaders: string, signature: string, amzDate: string, payloadHash: string;
+    let signedQuery = query;
+
+    if (presigned) {
+        const param = (name: string) => query.find(([k]) => k === name)?.[1] || '';
+        credential = param('X-Amz-Credential');
+        signedHeaders = param('X-Amz-SignedHeaders');
+        signature = presigned[1];
+        amzDate = param('X-Amz-Date');
+        payloadHash = 'UNSIGNED-PAYLOAD';
+        signedQuery = query.filter(([k]) => k !== 'X-Amz-Signature');
+        const expires = Number(param('X-Amz-Expires'));
+        if (!(expires >= 1 && expires <= MAX_PRESIGN_SECONDS)) throw new S3Error(400, 'AuthorizationQueryParametersError');
+        if (now() > parseAmzDate(amzDate) + expires * 1000) throw new S3Error(403, 'AccessDenied', 'Request has expired');
+    } else {
+        const auth = req.headers.authorization || '';
+        const match = auth.match(/^AWS4-HMAC-SHA256 Credential=([^,]+), SignedHeaders=([^,]+), Signature=([0-9a-f]+)$/);
+        if (!match) throw new S3Error(403, 'AccessDenied');
+        [, credential, signedHeaders, signature] = match;
+        amzDate = String(req.headers['x-amz-date'] || '');
+        payloadHash = String(req.headers['x-amz-content-sha256'] || '');
+    }
+
+    const [accessKey, dateStamp, region, service, terminator] = credential.split('/');
+    if (accessKey !== options.accessKey) throw new S3Error(403, 'InvalidAccessKeyId');
+    if (region !== options.region || service !== 's3' || terminator !== 'aws4_request' || !amzDate.startsWith(dateStamp)) {
+        throw new S3Error(403, 'AuthorizationHeaderMalformed');
+    }
+    const canonicalHeaders = signedHeaders.split(';').map(name => `${name}:${String(req.headers[name] ?? '').trim()}\n`).join('');
+    const canonicalRequest = [req.method, path, canonicalQuery(signedQuery), canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, `${dateStamp}/${region}/s3/aws4_request`, sha256(canonicalRequest)].join('\n');
+    if (hmac(signingKey(options.secretKey, dateStamp, region), stringToSign).toString('hex') !== signature) {
+        throw new S3Error(403, 'SignatureDoesNotMatch');
+    }
+};
+
+const readBody = (req: http.IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const etagOf = (data: Buffer) => `"${createHash('md5').update(data).digest('hex')}"`;
+
+const xml = (root: string, body: string) =>
+    `<?xml version="1.0" encoding="UTF-8"?><${root} xmlns="http://s3.amazonaws.com/doc/2006-03-01/">${body}</${root}>`;
+
+const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const startMockS3 = async (options: MockS3Options): Promise<MockS3> => {
+    const objects = new Map<string, Buffer>();
+    const uploads = new Map<string, { key: string; parts: Map<number, Buffer> }>();
+    const requests: { method: string; url: string }[] = [];
+    let nextUploadId = 1;
+
+    const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const [path, rawQuery = ''] = (req.url || '/').split('?');
+        const query = parseQuery(rawQuery);
+        const param = (name: string) => query.find(([k]) => k === name)?.[1];
+        const has = (name: string) => query.some(([k]) => k === name);
+        const [, bucket, ...keyParts] = path.split('/');
+        const key = keyParts.map(decodeURIComponent).join('/');
+        const body = await readBody(req);
+
+        verifySignature(options, req, path, query);
+        if (decodeURIComponent(bucket) !== options.bucket) throw new S3Error(404, 'NoSuchBucket');
+
+        if (!key) {
+            if (req.method !== 'GET' || param('list-type') !== '2') throw new S3Error(400, 'InvalidRequest');
+            const prefix = param('prefix') || '';
+            const keys = [...objects.keys()].filter(k => k.startsWith(prefix)).sort();
+            const start = Number(param('continuation-token') || 0);
+            const page = keys.slice(start, start + (options.pageSize || 1000));
+            const truncated = start + page.length < keys.length;
+            res.setHeader('Content-Type', 'application/xml');
+            return res.end(xml('ListBucketResult',
+                `<Name>${options.bucket}</Name><Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${page.length}</KeyCount>` +
+                page.map(k => `<Contents><Key>${escapeXml(k)}</Key><Size>${objects.get(k)!.length}</Size><LastModified>2024-01-01T00:00:00.000Z</LastModified></Contents>`).join('') +
+                `<IsTruncated>${truncated}</IsTruncated>` +
+                (truncated ? `<NextContinuationToken>${start + page.length}</NextContinuationToken>` : '')
+            ));
+        }
+
+        if (req.method === 'POST' && has('uploads')) {
+            const uploadId = `upload-${nextUploadId++}`;
+            uploads.set(uploadId, { key, parts: new Map() });
+            return res.end(xml('InitiateMultipartUploadResult', `<Bucket>${options.bucket}</Bucket><Key>${escapeXml(key)}</Key><UploadId>${uploadId}</UploadId>`));
+        }
+        const uploadId = param('uploadId');
+        if (uploadId) {
+            const upload = uploads.get(uploadId);
+            if (!upload || upload.key !== key) throw new S3Error(404, 'NoSuchUpload');
+            if (req.method === 'PUT') {
+                upload.parts.set(Number(param('partNumber')), body);
+                res.setHeader('ETag', etagOf(body));
+                return res.end();
+            }
+            if (req.method === 'DELETE') {
+                uploads.delete(uploadId);
+                res.statusCode = 204;
+                return res.end();
+            }
+            // CompleteMultipartUpload: every listed part must exist with the ETag it was given
+            const listed = [...body.toString().matchAll(/<Part><PartNumber>(\d+)<\/PartNumber><ETag>([^<]*)<\/ETag><\/Part>/g)];
+            if (listed.length === 0) throw new S3Error(400, 'MalformedXML');
+            const data: Buffer[] = [];
+            for (const [, partNumber, etag] of listed) {
+                const part = upload.parts.get(Number(partNumber));
+                if (!part || etagOf(part) !== etag) throw new S3Error(400, 'InvalidPart');
+                data.push(part);
+            }
+            objects.set(key, Buffer.concat(data));
+            uploads.delete(uploadId);
+            return res.end(xml('CompleteMultipartUploadResult', `<Key>${escapeXml(key)}</Key>`));
+        }
+
+        if (req.method === 'PUT') {
+            objects.set(key, body);
+            res.setHeader('ETag', etagOf(body));
+            return res.end();
+        }
+        if (req.method === 'GET') {
+            const data = objects.get(key);
+            if (!data) throw new S3Error(404, 'NoSuchKey');
+            const disposition = param('response-content-disposition');
+            if (disposition) res.setHeader('Content-Disposition', disposition);
+            return res.end(data);
+        }
+        if (req.method === 'DELETE') {
+            objects.delete(key);
+            res.statusCode = 204;
+            return res.end();
+        }
+        throw new S3Error(405, 'MethodNotAllowed');
+    };
+
+    const server = http.createServer((req, res) => {
+        requests.push({ method: req.method || '', url: req.url || '' });
+        // Bucket CORS as the app's setup guide asks for it
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Access-Control-Expose-Headers', 'ETag');
+        if (req.method === 'OPTIONS') {
+            res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, DELETE');
+            res.setHeader('Access-Control-Allow-Headers', '*');
+            return res.end();
+        }
+        handle(req, res).catch(err => {
+            const error = err instanceof S3Error ? err : new S3Error(500, 'InternalError', String(err));
+            res.statusCode = error.status;
+            res.setHeader('Content-Type', 'application/xml');
+            res.end(xml('Error', `<Code>${error.code}</Code><Message>${escapeXml(error.message)}</Message>`));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        endpoint: `http://127.0.0.1:${port}`,
+        objects,
+        uploads,
+        requests,
+        close: () => new Promise(resolve => server.close(() => resolve())),
+    };
+};
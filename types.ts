@@ -8,7 +8,20 @@ export enum FileType {
   UNKNOWN = 'UNKNOWN'
 }
 
-export interface CloudFile {
+// Public link fields, the same on files and folders
+export interface ShareFields {
+  isShared?: boolean;
+  shareToken?: string;
+  shareCreatedAt?: string;
+  shareExpiresAt?: string; // The link is refused, and revoked, from then on
+  shareMaxDownloads?: number;
+  shareDownloads?: number; // Downloads through the current link
+  sharePassword?: PasswordHash; // Visitors must type the password before the content is served
+  sharePasswordFailures?: number; // Wrong passwords in a row; each one doubles the wait for the next
+  sharePasswordFailedAt?: string;
+}
+
+export interface CloudFile extends ShareFields {
   id: string;
   name: string;
   size: number;
@@ -17,18 +30,24 @@ export interface CloudFile {
   createdAt: string;
   mimeType: string;
   ownerId: string; // Link to user
-  storageKey?: string; // Physical path (e.g., public/content/file.jpg)
-  data?: Blob; // Stored in IndexedDB (optional in memory to save RAM)
-  // Sharing fields
-  isShared?: boolean;
-  shareToken?: string;
-  shareCreatedAt?: string;
+  storageKey?: string; // Object key inside the provider (e.g., public/content/fi-123/file.jpg)
+  storageProvider?: StorageProviderId; // Backend holding the bytes (defaults to 'local')
+  contentHash?: string; // SHA-256 of the bytes; identical uploads share one StoredObject
+  encryption?: FileEncryption; // Set when the stored bytes are ciphertext
   // Trash fields
   isTrashed?: boolean;
   trashedAt?: string;
 }
 
-export interface CloudFolder {
+// Limits chosen in the share modal; missing fields mean no limit
+export interface ShareSettings {
+  expiresAt?: string;
+  maxDownloads?: number;
+  password?: string | null; // Plaintext, hashed before it is stored; null removes it, undefined keeps the current one
+}
+
+// A shared folder's links cover everything below it that is not trashed or encrypted
+export interface CloudFolder extends ShareFields {
   id: string;
   name: string;
   parentId: string | null;
@@ -39,10 +58,64 @@ export interface CloudFolder {
   trashedAt?: string;
 }
 
+export type ShareRole = 'viewer' | 'editor';
+
+// Access to someone else's file or folder, given to one user. A folder grant covers everything
+// below it; editors may also add files and folders there, which belong to (and count against) the owner.
+export interface ShareGrant {
+  id: string;
+  itemId: string;
+  itemType: 'file' | 'folder';
+  ownerId: string;
+  userId: string; // Who was given access
+  username: string; // As it was when granted, for the owner's list
+  role: ShareRole;
+  createdAt: string;
+}
+
+export type ShareEventKind = 'view' | 'download';
+
+// One visit to a public link's page, or one download through it, as kept in the shareEvents store
+export interface ShareEvent {
+  id: number; // Auto-increment
+  itemId: string; // The shared file or folder; downloads below a shared folder count for the folder
+  itemType: 'file' | 'folder';
+  ownerId: string;
+  kind: ShareEventKind;
+  timestamp: string;
+  fingerprint: string; // Short hash of browser traits: tells visitors apart without identifying them
+}
+
+export interface ShareTimelineDay {
+  date: string; // Local day, YYYY-MM-DD
+  views: number;
+  downloads: number;
+}
+
+// Totals for one shared item, over every link it has had
+export interface ShareStats {
+  itemId: string;
+  itemType: 'file' | 'folder';
+  name: string;
+  ownerName?: string; // Only filled in for the admin overview
+  isShared: boolean;
+  views: number;
+  downloads: number;
+  visitors: number; // Distinct fingerprints
+  lastAccessAt?: string;
+  timeline: ShareTimelineDay[]; // Oldest day first, today last
+}
+
+// One level of a shared folder, as its public page browses it
+export interface SharedFolderListing {
+  path: CloudFolder[]; // From the shared folder down to the listed one, for the breadcrumbs
+  folders: CloudFolder[];
+  files: CloudFile[];
+}
+
 export interface User {
   id: string;
   username: string;
-  password?: string; // Stored for auth simulation
   email: string;
   role: 'admin' | 'user';
   plan: 'free' | 'pro' | 'enterprise'; // New field
@@ -51,6 +124,89 @@ export interface User {
   storageLimit: number;
   createdAt: string;
   isActive: boolean; // New field for blocking
+  twoFactorEnabled?: boolean;
+  mustChangePassword?: boolean; // Set by an admin reset; the app blocks until a new password is chosen
+  encryptionEnabled?: boolean; // New uploads are encrypted in the browser before they are stored
+}
+
+// Whoever a data operation runs on behalf of; every User is one. Scripts act as the owner of a
+// personal access token, with scopes narrowing what that user could otherwise do.
+export type Actor = Pick<User, 'id' | 'username' | 'role'> & { scopes?: TokenScope[] };
+
+export type TokenScope = 'read' | 'write' | 'share';
+
+export type PermissionAction = 'read' | 'write' | 'delete' | 'share' | 'admin';
+
+// Reading file content: as a signed-in user, or anonymously through a public share link
+// (fileKey comes from the link's URL fragment and is only needed for encrypted files; password
+// only for links protected by one). Reads through a link count as a download unless `purpose`
+// is 'preview', which links with a download limit refuse.
+export type FileAccess = Actor | { shareToken: string; fileKey?: string; password?: string; purpose?: SharedReadPurpose };
+
+// Why a share link's file is resolved: 'check' only authorizes (password step, URL decisions)
+export type SharedReadPurpose = 'check' | 'preview' | 'download';
+
+// Outcome of a correct username/password: either signed in, or a TOTP step is still due
+export type LoginResult =
+  | { status: 'success'; user: User }
+  | { status: 'two_factor'; challenge: string };
+
+// Storage quota each plan grants, in bytes
+export type PlanLimits = Record<User['plan'], number>;
+
+// Choices made in the first-run setup wizard, besides the admin account itself
+export interface SetupOptions {
+  provider: StorageProviderId;
+  rootPath: string;
+  planLimits: PlanLimits;
+}
+
+export interface SecurityPolicy {
+  requireAdminTwoFactor: boolean;
+}
+
+// TOTP enrolment as kept in the users store
+export interface TwoFactorRecord {
+  secret: string; // base32
+  lastUsedStep: number; // Codes at or before this time step are rejected (replay protection)
+  recoveryCodes: string[]; // SHA-256 of each unused recovery code
+}
+
+// Salted password hash as kept in the users store; never part of the User objects the app handles
+export interface PasswordHash {
+  algorithm: 'PBKDF2-SHA256';
+  salt: string; // base64
+  iterations: number;
+  hash: string; // base64
+}
+
+// Consecutive failed sign-ins for one typed username, whether or not an account has it
+export interface LoginAttempts {
+  username: string;
+  failures: number; // Since the last success, lockout or admin unlock
+  lastFailureAt: string;
+  lockedUntil?: string; // Set once failures reach the limit; no attempt is checked before then
+}
+
+// Personal access token as kept in the accessTokens store
+export interface AccessToken {
+  id: string; // SHA-256 of the token, which is only shown once, when created
+  userId: string;
+  name: string;
+  scopes: TokenScope[];
+  prefix: string; // Start of the token, to tell tokens apart in the list
+  createdAt: string;
+  expiresAt?: string; // Missing for tokens that never expire
+  lastUsedAt?: string;
+}
+
+export interface Session {
+  id: string; // SHA-256 of the token; the token itself only lives on the signed-in device
+  userId: string;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  userAgent: string;
 }
 
 export interface CDNConfig {
@@ -68,9 +224,186 @@ export interface CDNConfig {
   refreshToken?: string;
 }
 
+export type StorageProviderId = CDNConfig['provider'];
+
+export type SecretField = 'accessKey' | 'secretKey' | 'clientSecret' | 'refreshToken';
+
+// AES-GCM ciphertext, both parts base64
+export interface EncryptedSecret {
+  iv: string;
+  data: string;
+}
+
+// A user's file-encryption key as kept in the users store, encrypted under a key derived
+// (PBKDF2, with its own salt) from the account password
+export interface WrappedUserKey {
+  salt: string;
+  iterations: number;
+  key: EncryptedSecret;
+}
+
+// Per-file AES-GCM parameters. Each file has its own random key: the owner's user key unwraps it,
+// and a share link can carry it alone without exposing anything else.
+export interface FileEncryption {
+  algorithm: 'AES-GCM';
+  wrappedKey: EncryptedSecret; // File key encrypted with the owner's user key
+  noncePrefix: string; // base64, 8 bytes; chunk i uses prefix || uint32(i) as its IV
+  chunkSize: number; // Plaintext bytes per encrypted chunk; each chunk adds a 16-byte tag
+}
+
+// One provider's config as stored: credentials only ever appear encrypted
+export type StoredProviderConfig = Omit<CDNConfig, SecretField> & {
+  secrets?: Partial<Record<SecretField, EncryptedSecret>>;
+};
+
+// What the config store holds: the current provider's config, plus the last one saved for every
+// provider, so files that still live on another provider keep reaching its bucket or account
+export type StoredCDNConfig = StoredProviderConfig & {
+  providers?: Partial<Record<StorageProviderId, StoredProviderConfig>>;
+};
+
+// Parameters of the key derived from the admin's master passphrase
+export interface SecretVault {
+  salt: string;
+  iterations: number;
+  check: EncryptedSecret; // Known plaintext, to tell a wrong passphrase from corrupted secrets
+}
+
+export interface StorageObject {
+  key: string;
+  size: number;
+  lastModified?: string;
+}
+
+export interface UploadedPart {
+  partNumber: number; // 1-based, as in S3 multipart uploads
+  etag?: string;
+  size?: number;
+}
+
+export interface PartUploadOptions {
+  offset?: number; // Byte position of the part within the whole object
+  onProgress?: (loaded: number) => void;
+  signal?: AbortSignal;
+}
+
+// Hints for providers that organise objects by name and folder rather than by key (Google Drive)
+export interface ObjectMeta {
+  name?: string;
+  folderPath?: string[]; // CloudFolder names from the root down to the file's folder
+}
+
+// Common contract for every backend that can hold file bytes
+export interface StorageProvider {
+  id: StorageProviderId;
+  put(key: string, data: Blob, meta?: ObjectMeta): Promise<void>;
+  get(key: string): Promise<Blob | undefined>;
+  delete(key: string): Promise<void>;
+  list(prefix?: string): Promise<StorageObject[]>;
+  // Chunked writes; the returned upload id is persisted so an upload can resume after a reload
+  createMultipart(key: string, contentType: string, meta?: ObjectMeta): Promise<string>;
+  putPart(key: string, uploadId: string, partNumber: number, data: Blob, options?: PartUploadOptions): Promise<UploadedPart>;
+  completeMultipart(key: string, uploadId: string, parts: UploadedPart[]): Promise<void>;
+  abortMultipart(key: string, uploadId: string): Promise<void>;
+  // Only remote providers can hand out a direct, time-limited URL
+  getDownloadUrl?(key: string, options?: { expiresIn?: number; fileName?: string }): Promise<string>;
+}
+
+// One physical blob, shared by every CloudFile with the same content hash
+export interface StoredObject {
+  hash: string;
+  storageKey: string;
+  storageProvider: StorageProviderId;
+  size: number;
+  refCount: number; // CloudFile records pointing at this blob, trashed ones included
+  createdAt: string;
+}
+
+export interface UploadSession {
+  id: string; // Also the id of the CloudFile created on completion
+  ownerId: string;
+  parentId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  lastModified: number; // With name and size, identifies the same local file when it is picked again
+  storageKey: string;
+  storageProvider: StorageProviderId;
+  uploadId: string;
+  chunkSize: number;
+  parts: UploadedPart[]; // Completed parts, in order
+  contentHash?: string; // Missing for encrypted uploads, which are never deduplicated
+  encryption?: FileEncryption;
+  createdAt: string;
+}
+
+// One entry of the upload modal's queue (UI state, never persisted)
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  parentId: string;
+  status: 'queued' | 'uploading' | 'done' | 'error' | 'canceled';
+  phase?: 'hashing' | 'uploading';
+  loaded: number;
+  error?: string;
+}
+
+export interface MigrationFailure {
+  fileId: string;
+  fileName: string;
+  error: string;
+}
+
+export interface MigrationState {
+  status: 'idle' | 'running' | 'paused' | 'done';
+  target: StorageProviderId;
+  total: number;
+  completed: number; // Files processed so far, failed ones included
+  current?: string; // Name of the file being copied
+  failures: MigrationFailure[];
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  latencyMs: number; // Whole round trip
+  steps: { name: 'write' | 'read' | 'delete'; ms: number }[];
+  failedStep?: 'write' | 'read' | 'delete';
+  error?: string;
+}
+
 export interface SystemStats {
   totalUsers: number;
   totalFiles: number;
   totalStorage: number;
   recentUploads: { name: string; count: number }[];
-}
\ No newline at end of file
+  topShares: ShareStats[]; // Most downloaded links
+}
+
+export type AuditAction =
+  | 'login_success' | 'login_failed' | 'account_locked' | 'account_unlocked'
+  | 'file_upload' | 'file_trash' | 'file_restore' | 'file_purge'
+  | 'share_enable' | 'share_disable' | 'share_update' | 'share_password_failed'
+  | 'share_grant' | 'share_grant_revoke'
+  | 'setup_complete' | 'config_save' | 'security_policy_save'
+  | 'user_update' | 'user_delete' | 'password_reset_issued'
+  | 'token_create' | 'token_revoke';
+
+// One row of the audit store. Rows are only ever added, never updated or deleted.
+export interface AuditEntry {
+  id: number; // Auto-increment, so it also orders rows written in the same millisecond
+  timestamp: string;
+  action: AuditAction;
+  actorId?: string; // Missing for failed logins on unknown usernames
+  actorName: string;
+  targetId?: string;
+  targetName?: string;
+  details?: string;
+  success: boolean;
+}
+
+export interface AuditFilter {
+  username?: string;
+  action?: AuditAction;
+  from?: string; // ISO timestamps, inclusive
+  to?: string;
+}
@@ -0,0 +1,65 @@
+import { AccessToken, Actor, TokenScope } from '../types';
+import { getUserById, saveAccessToken, getAccessToken, getAccessTokensByUser, deleteAccessToken, recordAudit } from './db';
+import { ForbiddenError, NotFoundError } from './permissions';
+import { hashToken, generateToken } from './tokens';
+
+// Personal access tokens let scripts act as a user without the interactive login. As with
+// sessions, the store only holds each token's SHA-256; the token itself is shown once.
+
+const TOKEN_PREFIX = 'cfp_';
+// The token list only needs "last used" to the minute
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export const isTokenExpired = (token: AccessToken, now = Date.now()) =>
+    !!token.expiresAt && now >= new Date(token.expiresAt).getTime();
+
+// Tokens are created from an interactive session only: a token can't mint another one
+export const createAccessToken = async (
+    actor: Actor,
+    name: string,
+    scopes: TokenScope[],
+    expiresInDays?: number
+): Promise<{ token: string; record: AccessToken }> => {
+    if (actor.scopes) throw new ForbiddenError('admin', actor.id, 'Tokens de acesso não podem criar outros tokens.');
+    if (!name.trim()) throw new Error('Dê um nome ao token.');
+    if (scopes.length === 0) throw new Error('Escolha ao menos uma permissão.');
+    const token = generateToken(TOKEN_PREFIX);
+    const now = new Date();
+    const record: AccessToken = {
+        id: await hashToken(token),
+        userId: actor.id,
+        name: name.trim(),
+        scopes,
+        prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+        createdAt: now.toISOString(),
+        expiresAt: expiresInDays ? new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : undefined,
+    };
+    await saveAccessToken(record);
+    await recordAudit(actor, 'token_create', { targetName: record.name, details: `Permissões: ${scopes.join(', ')}` });
+    return { token, record };
+};
+
+// Newest first, expired ones included so the user can see why a script stopped working
+export const getAccessTokens = async (actor: Actor): Promise<AccessToken[]> =>
+    (await getAccessTokensByUser(actor.id)).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const revokeAccessToken = async (actor: Actor, id: string): Promise<void> => {
+    const record = await getAccessToken(id);
+    if (!record || record.userId !== actor.id) throw new NotFoundError(id, 'Token de acesso não encontrado.');
+    await deleteAccessToken(id);
+    await recordAudit(actor, 'token_revoke', { targetName: record.name });
+};
+
+// The actor a script runs as: the token's owner, limited to the token's scopes. Unknown,
+// expired or revoked tokens and blocked accounts are all refused the same way.
+export const authenticateAccessToken = async (token: string): Promise<Actor> => {
+    const record = token.startsWith(TOKEN_PREFIX) ? await getAccessToken(await hashToken(token)) : undefined;
+    const user = record && !isTokenExpired(record) ? await getUserById(record.userId) : undefined;
+    if (!record || !user || !user.isActive) {
+        throw new ForbiddenError('read', undefined, 'Token de acesso inválido, expirado ou revogado.');
+    }
+    if (!record.lastUsedAt || Date.now() - new Date(record.lastUsedAt).getTime() >= LAST_USED_INTERVAL_MS) {
+        await saveAccessToken({ ...record, lastUsedAt: new Date().toISOString() });
+    }
+    return { id: user.id, username: user.username, role: user.role, scopes: record.scopes };
+};
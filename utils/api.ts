@@ -0,0 +1,60 @@
+import { CloudFile, CloudFolder, ShareSettings } from '../types';
+import { getFile, getFilesFromDB, getFolder, getFoldersFromDB, updateFileShareStatus } from './db';
+import { uploadFile, getFileContent, UploadProgressHandler } from './storage';
+import { authenticateAccessToken } from './accessTokens';
+import { getShareKey } from './encryption';
+import { getFileType } from './fileTypes';
+import { NotFoundError } from './permissions';
+import { generateToken } from './tokens';
+
+// Scripted access to a drive. Every call authenticates the personal access token again, so a
+// revoked or expired token stops working at once; the data layer enforces the token's scopes.
+// index.tsx exposes this as window.cloudfire.connect(token) for scripts running against the app.
+export const createApiClient = (token: string) => ({
+    listFolder: async (folderId = 'root'): Promise<{ folders: CloudFolder[]; files: CloudFile[] }> => {
+        const actor = await authenticateAccessToken(token);
+        return {
+            folders: await getFoldersFromDB(actor, folderId),
+            files: await getFilesFromDB(actor, folderId),
+        };
+    },
+
+    upload: async (file: File, folderId = 'root', onProgress?: UploadProgressHandler): Promise<CloudFile> => {
+        const actor = await authenticateAccessToken(token);
+        const record: CloudFile = {
+            id: `fi-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+            name: file.name,
+            size: file.size,
+            type: getFileType(file.type),
+            parentId: folderId,
+            createdAt: new Date().toISOString(),
+            mimeType: file.type || 'application/octet-stream',
+            // As in the app: files sent to a folder shared with the token's user belong to the folder's owner
+            ownerId: folderId === 'root' ? actor.id : (await getFolder(actor, folderId, 'write')).ownerId,
+            isShared: false
+        };
+        return uploadFile(actor, record, file, onProgress);
+    },
+
+    download: async (fileId: string): Promise<Blob> => {
+        const actor = await authenticateAccessToken(token);
+        const blob = await getFileContent(actor, await getFile(actor, fileId));
+        if (!blob) throw new NotFoundError(fileId, 'Conteúdo do arquivo não encontrado.');
+        return blob;
+    },
+
+    // Returns the public link. A file that is already shared keeps its link and limits.
+    share: async (fileId: string, settings?: ShareSettings): Promise<string> => {
+        const actor = await authenticateAccessToken(token);
+        const file = await getFile(actor, fileId, 'share');
+        let shareToken = file.isShared ? file.shareToken : undefined;
+        if (!shareToken) {
+            shareToken = generateToken();
+            await updateFileShareStatus(actor, fileId, true, shareToken, settings);
+        }
+        const fileKey = await getShareKey(actor, file);
+        return `${window.location.origin}?share=${shareToken}` + (fileKey ? `#k=${fileKey}` : '');
+    },
+});
+
+export type ApiClient = ReturnType<typeof createApiClient>;
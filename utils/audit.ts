@@ -0,0 +1,50 @@
+import { AuditAction, AuditEntry } from '../types';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    login_success: 'Login',
+    login_failed: 'Falha de login',
+    account_locked: 'Bloqueio por tentativas',
+    account_unlocked: 'Desbloqueio de conta',
+    file_upload: 'Envio de arquivo',
+    file_trash: 'Movido para a lixeira',
+    file_restore: 'Restaurado da lixeira',
+    file_purge: 'Excluído permanentemente',
+    share_enable: 'Compartilhamento ativado',
+    share_disable: 'Compartilhamento desativado',
+    share_update: 'Limites do link alterados',
+    share_password_failed: 'Senha de link incorreta',
+    share_grant: 'Acesso concedido a usuário',
+    share_grant_revoke: 'Acesso de usuário removido',
+    setup_complete: 'Configuração inicial',
+    config_save: 'Configuração salva',
+    security_policy_save: 'Política de segurança',
+    user_update: 'Usuário alterado',
+    user_delete: 'Usuário excluído',
+    password_reset_issued: 'Redefinição de senha',
+    token_create: 'Token de acesso criado',
+    token_revoke: 'Token de acesso revogado',
+};
+
+// <input type="date"> values (local days) as the inclusive ISO bounds the audit filter takes
+export const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+export const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).toISOString();
+
+// --- Export ---
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+    'id', 'timestamp', 'action', 'actorId', 'actorName', 'targetId', 'targetName', 'details', 'success',
+];
+
+// RFC 4180 quoting. Cells starting with =, +, - or @ get a leading apostrophe so spreadsheet apps
+// don't evaluate a file name or username as a formula.
+const csvCell = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    let text = String(value);
+    if (/^[=+\-@]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditToCsv = (entries: AuditEntry[]): string =>
+    [CSV_COLUMNS.join(','), ...entries.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(','))].join('\r\n');
+
+export const auditToJson = (entries: AuditEntry[]): string => JSON.stringify(entries, null, 2);
@@ -1,7 +1,15 @@
-import { CloudFile, CloudFolder, User, SystemStats, CDNConfig } from '../types';
+import { Actor, AuditAction, AuditEntry, AuditFilter, PermissionAction, CloudFile, CloudFolder, User, SystemStats, StorageObject, UploadSession, StorageProviderId, StoredObject, StoredCDNConfig, SecretVault, PasswordHash, Session, LoginResult, TwoFactorRecord, SecurityPolicy, WrappedUserKey, LoginAttempts, PlanLimits, SetupOptions, AccessToken, ShareSettings, ShareFields, SharedFolderListing, ShareGrant, ShareRole, ShareEvent, ShareEventKind, ShareStats, SharedReadPurpose } from '../types';
+import { verifyTotp, generateRecoveryCodes, hashRecoveryCode } from './totp';
+import { hashPassword, verifyPassword, MIN_PASSWORD_LENGTH } from './passwords';
+import { createUserKey, rewrapUserKey } from './fileCrypto';
+import { SHARE_PROBLEM_MESSAGES, getShareProblem, buildShareTimeline, getClientFingerprint } from './sharing';
+import { ForbiddenError, NotFoundError, assertAdmin, assertCanAccess, assertScope, assertSelfOrAdmin, canAccess, isAdmin } from './permissions';
+import { hashToken, generateToken } from './tokens';
+import { toHex } from './encoding';
+import { ENCRYPTED_OBJECT_NAME, buildObjectKey, buildStorageKey } from './storageKeys';
 
 const DB_NAME = 'CloudFireDB';
-const DB_VERSION = 2; // Incremented version for config store
+const DB_VERSION = 11; // Incremented version for share access analytics
 
 // --- Database Singleton ---
 let dbInstance: IDBDatabase | null = null;
@@ -41,6 +49,92 @@ export const initDB = (): Promise<void> => {
             if (!db.objectStoreNames.contains('config')) {
                 db.createObjectStore('config', { keyPath: 'key' });
             }
+
+            // Blobs Store (bytes of the 'local' storage provider)
+            if (!db.objectStoreNames.contains('blobs')) {
+                const blobStore = db.createObjectStore('blobs', { keyPath: 'key' });
+
+                // v2 kept the Blob inline in the file record; move it out to its own key
+                if (event.oldVersion > 0) {
+                    const tx = (event.target as IDBOpenDBRequest).transaction;
+                    const cursorReq = tx?.objectStore('files').openCursor();
+                    if (cursorReq) {
+                        cursorReq.onsuccess = () => {
+                            const cursor = cursorReq.result;
+                            if (!cursor) return;
+                            const legacy = cursor.value as CloudFile & { data?: Blob };
+                            if (legacy.data) {
+                                const oldKey = legacy.storageKey || `public/content/${legacy.name}`;
+                                const rootPath = oldKey.slice(0, Math.max(0, oldKey.length - legacy.name.length - 1)) || 'public/content';
+                                const key = `${rootPath}/${legacy.id}/${legacy.name}`;
+                                blobStore.put({ key, data: legacy.data });
+                                delete legacy.data;
+                                legacy.storageKey = key;
+                                legacy.storageProvider = 'local';
+                                cursor.update(legacy);
+                            }
+                            cursor.continue();
+                        };
+                    }
+                }
+            }
+
+            // Chunks Store (local provider writes files in fixed-size pieces)
+            if (!db.objectStoreNames.contains('chunks')) {
+                db.createObjectStore('chunks', { keyPath: ['key', 'index'] });
+            }
+
+            // Uploads Store (in-flight upload sessions, kept so they can resume after a reload)
+            if (!db.objectStoreNames.contains('uploads')) {
+                const uploadStore = db.createObjectStore('uploads', { keyPath: 'id' });
+                uploadStore.createIndex('ownerId', 'ownerId', { unique: false });
+            }
+
+            // Objects Store (content-addressed blobs with their reference counts)
+            if (!db.objectStoreNames.contains('objects')) {
+                db.createObjectStore('objects', { keyPath: 'hash' });
+            }
+            const filesStore = (event.target as IDBOpenDBRequest).transaction?.objectStore('files');
+            if (filesStore && !filesStore.indexNames.contains('contentHash')) {
+                filesStore.createIndex('contentHash', 'contentHash', { unique: false });
+            }
+
+            // Sessions Store (login sessions, keyed by token hash)
+            if (!db.objectStoreNames.contains('sessions')) {
+                const sessionStore = db.createObjectStore('sessions', { keyPath: 'id' });
+                sessionStore.createIndex('userId', 'userId', { unique: false });
+            }
+
+            // Audit Store (append-only log of security and data events)
+            if (!db.objectStoreNames.contains('audit')) {
+                const auditStore = db.createObjectStore('audit', { keyPath: 'id', autoIncrement: true });
+                auditStore.createIndex('timestamp', 'timestamp', { unique: false });
+            }
+
+            // Login Attempts Store (failed sign-in counters, by typed username)
+            if (!db.objectStoreNames.contains('loginAttempts')) {
+                db.createObjectStore('loginAttempts', { keyPath: 'username' });
+            }
+
+            // Access Tokens Store (personal access tokens for scripts, keyed by token hash)
+            if (!db.objectStoreNames.contains('accessTokens')) {
+                const tokenStore = db.createObjectStore('accessTokens', { keyPath: 'id' });
+                tokenStore.createIndex('userId', 'userId', { unique: false });
+            }
+
+            // Grants Store (files and folders shared with other users)
+            if (!db.objectStoreNames.contains('grants')) {
+                const grantStore = db.createObjectStore('grants', { keyPath: 'id' });
+                grantStore.createIndex('userId', 'userId', { unique: false });
+                grantStore.createIndex('itemId', 'itemId', { unique: false });
+            }
+
+            // Share Events Store (visits and downloads through public links)
+            if (!db.objectStoreNames.contains('shareEvents')) {
+                const eventStore = db.createObjectStore('shareEvents', { keyPath: 'id', autoIncrement: true });
+                eventStore.createIndex('itemId', 'itemId', { unique: false });
+                eventStore.createIndex('ownerId', 'ownerId', { unique: false });
+            }
         };
 
         request.onsuccess = (event) => {
@@ -76,40 +170,452 @@ const getStore = async (storeName: string, mode: IDBTransactionMode) => {
   return tx.objectStore(storeName);
 };
 
+// --- Audit Log ---
+
+type AuditEvent = Partial<Pick<AuditEntry, 'targetId' | 'targetName' | 'details' | 'success'>>;
+
+// Appends one row; the store is never written any other way. Failures are logged rather than
+// thrown, so a broken audit write can't undo the operation it describes.
+// Failed logins pass just the username typed, which may not belong to any account.
+export const recordAudit = async (actor: Actor | { username: string }, action: AuditAction, event: AuditEvent = {}): Promise<void> => {
+    try {
+        const store = await getStore('audit', 'readwrite');
+        await new Promise<void>((resolve, reject) => {
+            const req = store.add({
+                timestamp: new Date().toISOString(),
+                action,
+                actorId: 'id' in actor ? actor.id : undefined,
+                actorName: actor.username,
+                success: true,
+                ...event
+            });
+            req.onsuccess = () => resolve();
+            req.onerror = () => reject(req.error);
+        });
+    } catch (e) {
+        console.error("Failed to write audit entry", e);
+    }
+};
+
+// Newest first. The date range uses the timestamp index; user and action are filtered in memory.
+export const getAuditEntries = async (actor: Actor, filter: AuditFilter = {}): Promise<AuditEntry[]> => {
+    await assertAdminAccess(actor);
+    const store = await getStore('audit', 'readonly');
+    const range = filter.from || filter.to ? IDBKeyRange.bound(filter.from || '', filter.to || '\uffff') : undefined;
+    const username = filter.username?.trim().toLowerCase();
+    return new Promise((resolve, reject) => {
+        const req = store.index('timestamp').getAll(range);
+        req.onsuccess = () => {
+            const entries = (req.result as AuditEntry[]).filter(e =>
+                (!username || e.actorName.toLowerCase() === username) &&
+                (!filter.action || e.action === filter.action)
+            );
+            resolve(entries.reverse());
+        };
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// What a user sees of the log about their own account
+const SECURITY_HISTORY_ACTIONS: AuditAction[] = [
+    'login_success', 'login_failed', 'account_locked', 'account_unlocked', 'password_reset_issued',
+    'token_create', 'token_revoke',
+];
+
+// Newest first: sign-ins under the user's name and admin actions on their account
+export const getSecurityHistory = async (actor: Actor, limit = 50): Promise<AuditEntry[]> => {
+    const store = await getStore('audit', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.index('timestamp').getAll();
+        req.onsuccess = () => {
+            const entries = (req.result as AuditEntry[]).filter(e =>
+                (e.actorId === actor.id || e.targetId === actor.id) && SECURITY_HISTORY_ACTIONS.includes(e.action)
+            );
+            resolve(entries.reverse().slice(0, limit));
+        };
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// --- Login Throttling ---
+
+// Each failure doubles the wait before the next attempt is checked; the last one locks the username
+const MAX_FAILED_LOGINS = 5;
+const LOGIN_BACKOFF_BASE_MS = 1000;
+const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+const getLoginAttempts = async (username: string): Promise<LoginAttempts | undefined> => {
+    const store = await getStore('loginAttempts', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.get(username);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+const putLoginAttempts = async (attempts: LoginAttempts): Promise<void> => {
+    const store = await getStore('loginAttempts', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.put(attempts);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+};
+
+const clearLoginAttempts = async (username: string): Promise<void> => {
+    const store = await getStore('loginAttempts', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.delete(username);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+};
+
+const isLocked = (attempts: LoginAttempts) =>
+    !!attempts.lockedUntil && new Date(attempts.lockedUntil).getTime() > Date.now();
+
+// Refuses, without checking any credential, while the username is locked or still backing off.
+// Unknown usernames are throttled the same way, so a lockout tells nothing about who has an account.
+const assertLoginAllowed = async (actor: Actor | { username: string }): Promise<void> => {
+    const attempts = await getLoginAttempts(actor.username);
+    if (!attempts) return;
+    if (isLocked(attempts)) {
+        await recordAudit(actor, 'login_failed', { success: false, details: 'Tentativa durante o bloqueio' });
+        throw `Conta bloqueada temporariamente após várias tentativas. Tente novamente às ${new Date(attempts.lockedUntil!).toLocaleTimeString('pt-BR')}.`;
+    }
+    const retryAt = new Date(attempts.lastFailureAt).getTime() + LOGIN_BACKOFF_BASE_MS * 2 ** (attempts.failures - 1);
+    if (!attempts.lockedUntil && retryAt > Date.now()) {
+        await recordAudit(actor, 'login_failed', { success: false, details: 'Tentativa antes do fim da espera' });
+        throw `Muitas tentativas seguidas. Aguarde ${Math.ceil((retryAt - Date.now()) / 1000)} s e tente novamente.`;
+    }
+};
+
+// Counts a wrong password or code; an expired lockout starts the count over
+const registerLoginFailure = async (actor: Actor | { username: string }): Promise<void> => {
+    const previous = await getLoginAttempts(actor.username);
+    const failures = (previous && !previous.lockedUntil ? previous.failures : 0) + 1;
+    const attempts: LoginAttempts = { username: actor.username, failures, lastFailureAt: new Date().toISOString() };
+    if (failures >= MAX_FAILED_LOGINS) {
+        attempts.lockedUntil = new Date(Date.now() + LOGIN_LOCKOUT_MS).toISOString();
+        await recordAudit(actor, 'account_locked', { success: false, details: `${failures} falhas seguidas; bloqueada até ${attempts.lockedUntil}` });
+    }
+    await putLoginAttempts(attempts);
+};
+
+export const getLockedAccounts = async (actor: Actor): Promise<LoginAttempts[]> => {
+    await assertAdminAccess(actor);
+    const store = await getStore('loginAttempts', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.getAll();
+        req.onsuccess = () => resolve((req.result as LoginAttempts[]).filter(isLocked));
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const unlockAccount = async (actor: Actor, username: string): Promise<void> => {
+    await assertAdminAccess(actor);
+    const record = await getUserRecord(username);
+    await clearLoginAttempts(username);
+    await recordAudit(actor, 'account_unlocked', { targetId: record?.id, targetName: username });
+};
+
 // --- User Operations ---
 
-export const registerUser = async (user: User): Promise<void> => {
+// The users store record. Credentials stay inside this module: every User handed out is stripped.
+interface StoredUser extends User {
+    passwordHash?: PasswordHash;
+    password?: string; // Plaintext from before hashing; replaced on the next successful login
+    twoFactor?: TwoFactorRecord;
+    passwordReset?: { tokenHash: string; expiresAt: string };
+    encryptionKey?: WrappedUserKey;
+}
+
+const toPublicUser = (record: StoredUser): User => {
+    const { passwordHash, password, twoFactor, passwordReset, encryptionKey, ...user } = record;
+    return { ...user, twoFactorEnabled: !!twoFactor, encryptionEnabled: !!encryptionKey };
+};
+
+// Password-verified logins waiting for their TOTP code, by challenge id. Memory only:
+// a reload simply means typing the password again.
+const TWO_FACTOR_CHALLENGE_MS = 5 * 60 * 1000;
+const pendingTwoFactor = new Map<string, { username: string; expiresAt: number }>();
+
+const PASSWORD_RESET_TTL_MS = 24 * 60 * 60 * 1000;
+
+// The default account older builds created, and kept resetting, on every start
+const SEEDED_ADMIN = { id: 'admin', username: 'admin', password: 'password' };
+
+// Checks a password against the stored hash, or the plaintext left by pre-hashing versions
+const checkPassword = async (record: StoredUser, password: string): Promise<{ valid: boolean; needsRehash: boolean }> => {
+    if (record.passwordHash) return verifyPassword(password, record.passwordHash);
+    const valid = record.password !== undefined && record.password === password;
+    return { valid, needsRehash: valid };
+};
+
+const assertPasswordStrength = (password: string) => {
+    if (password.length < MIN_PASSWORD_LENGTH) throw `A nova senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`;
+};
+
+// New hash in place of the old one; a pending reset and the forced-change flag are cleared
+const withNewPassword = async (record: StoredUser, password: string): Promise<StoredUser> => {
+    const { password: _plaintext, passwordReset, mustChangePassword, ...rest } = record;
+    return { ...rest, passwordHash: await hashPassword(password) };
+};
+
+const getUserRecord = async (username: string): Promise<StoredUser | undefined> => {
+    const store = await getStore('users', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.get(username);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+const putUserRecord = async (record: StoredUser): Promise<void> => {
+    const store = await getStore('users', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.put(record);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// Self-service sign-up needs no session, so nothing the caller sends may grant rights, quota or
+// skew counters: admins only come from the setup wizard and admin role changes
+export const registerUser = async (user: User, password: string): Promise<void> => {
+    if (!(await isSetupComplete())) throw "Conclua a configuração inicial antes de criar contas.";
+    const record: StoredUser = {
+        ...user,
+        role: 'user',
+        plan: 'free',
+        storageLimit: (await getPlanLimits()).free,
+        storageUsed: 0,
+        isActive: true,
+        passwordHash: await hashPassword(password),
+    };
     const store = await getStore('users', 'readwrite');
     return new Promise((resolve, reject) => {
-      const req = store.add(user);
+      const req = store.add(record);
       req.onsuccess = () => resolve();
       req.onerror = () => reject('Nome de usuário já existe');
     });
 };
 
-export const loginUser = async (username: string, password: string): Promise<User | null> => {
+export const loginUser = async (username: string, password: string): Promise<LoginResult | null> => {
+    let record: StoredUser | undefined;
     try {
-        const store = await getStore('users', 'readonly');
-        return new Promise((resolve, reject) => {
-        const req = store.get(username);
-        req.onsuccess = () => {
-            const user = req.result as User;
-            if (user && user.password === password) {
-                if (user.isActive === false) {
-                    reject("Conta desativada pelo administrador.");
-                } else {
-                    resolve(user);
-                }
-            } else {
-                resolve(null);
-            }
-        };
-        req.onerror = () => reject(req.error);
-        });
+        record = await getUserRecord(username);
     } catch { return null; }
+    await assertLoginAllowed(record || { username });
+    if (!record) {
+        await recordAudit({ username }, 'login_failed', { success: false, details: 'Usuário desconhecido' });
+        await registerLoginFailure({ username });
+        return null;
+    }
+
+    const { valid, needsRehash } = await checkPassword(record, password);
+    if (!valid) {
+        await recordAudit(record, 'login_failed', { success: false, details: 'Senha incorreta' });
+        await registerLoginFailure(record);
+        return null;
+    }
+    if (record.isActive === false) {
+        await recordAudit(record, 'login_failed', { success: false, details: 'Conta desativada' });
+        throw "Conta desativada pelo administrador.";
+    }
+
+    // Builds from before the setup wizard seeded admin/password on every start; that account
+    // has to pick its own password before it can do anything else
+    const isSeededAdmin = record.id === SEEDED_ADMIN.id && record.username === SEEDED_ADMIN.username && password === SEEDED_ADMIN.password;
+    if (needsRehash || (isSeededAdmin && !record.mustChangePassword)) {
+        const { password: _plaintext, ...rest } = record;
+        record = { ...rest, passwordHash: await hashPassword(password), ...(isSeededAdmin && { mustChangePassword: true }) };
+        await putUserRecord(record);
+    }
+    if (record.twoFactor) {
+        const challenge = toHex(crypto.getRandomValues(new Uint8Array(16)));
+        pendingTwoFactor.set(challenge, { username, expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_MS });
+        return { status: 'two_factor', challenge };
+    }
+    await clearLoginAttempts(username);
+    await recordAudit(record, 'login_success');
+    return { status: 'success', user: toPublicUser(record) };
+};
+
+// Checks a TOTP code (or consumes a recovery code) and records it as used
+const consumeSecondFactor = async (record: StoredUser, code: string): Promise<boolean> => {
+    const twoFactor = record.twoFactor;
+    if (!twoFactor) return false;
+
+    const step = await verifyTotp(twoFactor.secret, code);
+    if (step !== null && step > twoFactor.lastUsedStep) {
+        await putUserRecord({ ...record, twoFactor: { ...twoFactor, lastUsedStep: step } });
+        return true;
+    }
+
+    const hashed = await hashRecoveryCode(code);
+    if (twoFactor.recoveryCodes.includes(hashed)) {
+        await putUserRecord({ ...record, twoFactor: { ...twoFactor, recoveryCodes: twoFactor.recoveryCodes.filter(c => c !== hashed) } });
+        return true;
+    }
+    return false;
+};
+
+// Second login step; the challenge survives a wrong code until it expires
+export const completeTwoFactorLogin = async (challenge: string, code: string): Promise<User | null> => {
+    const pending = pendingTwoFactor.get(challenge);
+    if (!pending || pending.expiresAt < Date.now()) {
+        pendingTwoFactor.delete(challenge);
+        throw "A verificação expirou. Entre novamente.";
+    }
+    const record = await getUserRecord(pending.username);
+    // Codes count towards the same limit as passwords, or six digits could be guessed at leisure
+    await assertLoginAllowed(record || { username: pending.username });
+    if (!record || !(await consumeSecondFactor(record, code))) {
+        await recordAudit(record || { username: pending.username }, 'login_failed', { success: false, details: 'Código de verificação inválido' });
+        await registerLoginFailure(record || { username: pending.username });
+        return null;
+    }
+    pendingTwoFactor.delete(challenge);
+    if (record.isActive === false) {
+        await recordAudit(record, 'login_failed', { success: false, details: 'Conta desativada' });
+        throw "Conta desativada pelo administrador.";
+    }
+    await clearLoginAttempts(record.username);
+    await recordAudit(record, 'login_success', { details: 'Com verificação em duas etapas' });
+    return toPublicUser(record);
+};
+
+// --- Two-Factor Enrolment ---
+
+// Turns 2FA on once the user proves their app produces codes for `secret`; resolves with the
+// recovery codes, which are shown once and only stored hashed
+export const enableTwoFactor = async (actor: Actor, secret: string, code: string): Promise<string[]> => {
+    const record = await getUserRecord(actor.username);
+    if (!record) throw "Usuário não encontrado";
+    const step = await verifyTotp(secret, code);
+    if (step === null) throw "Código inválido. Confira o horário do dispositivo e tente novamente.";
+    const recoveryCodes = generateRecoveryCodes();
+    await putUserRecord({
+        ...record,
+        twoFactor: { secret, lastUsedStep: step, recoveryCodes: await Promise.all(recoveryCodes.map(hashRecoveryCode)) },
+    });
+    return recoveryCodes;
+};
+
+export const disableTwoFactor = async (actor: Actor, code: string): Promise<void> => {
+    const record = await getUserRecord(actor.username);
+    if (!record?.twoFactor) return;
+    if (actor.role === 'admin' && (await getSecurityPolicy()).requireAdminTwoFactor) {
+        throw "A política de segurança exige 2FA para administradores.";
+    }
+    if (!(await consumeSecondFactor(record, code))) throw "Código inválido.";
+    const { twoFactor, ...rest } = (await getUserRecord(actor.username))!;
+    await putUserRecord(rest);
+};
+
+export const regenerateRecoveryCodes = async (actor: Actor, code: string): Promise<string[]> => {
+    const record = await getUserRecord(actor.username);
+    if (!record?.twoFactor) throw "A verificação em duas etapas não está ativa.";
+    if (!(await consumeSecondFactor(record, code))) throw "Código inválido.";
+    const recoveryCodes = generateRecoveryCodes();
+    const updated = (await getUserRecord(actor.username))!;
+    await putUserRecord({
+        ...updated,
+        twoFactor: { ...updated.twoFactor!, recoveryCodes: await Promise.all(recoveryCodes.map(hashRecoveryCode)) },
+    });
+    return recoveryCodes;
+};
+
+// --- Password Changes ---
+
+// Only for the signed-in user's own account. Wrong current passwords count towards the same
+// limit as the login form, or this would be a way to guess passwords without one.
+export const changePassword = async (actor: Actor, username: string, currentPassword: string, newPassword: string): Promise<User> => {
+    if (actor.username !== username || actor.scopes) throw new ForbiddenError('write', actor.id);
+    const record = await getUserRecord(username);
+    if (!record || record.id !== actor.id) throw new ForbiddenError('write', actor.id);
+    await assertLoginAllowed(record);
+    if (!(await checkPassword(record, currentPassword)).valid) {
+        await recordAudit(record, 'login_failed', { success: false, details: 'Senha atual incorreta na troca de senha' });
+        await registerLoginFailure(record);
+        throw "Senha atual incorreta.";
+    }
+    await clearLoginAttempts(username);
+    assertPasswordStrength(newPassword);
+    if (newPassword === currentPassword) throw "A nova senha deve ser diferente da atual.";
+    const updated = await withNewPassword(record, newPassword);
+    if (record.encryptionKey) {
+        // After an admin reset the key may still be wrapped under an older password; it stays that way
+        updated.encryptionKey = await rewrapUserKey(record.encryptionKey, currentPassword, newPassword).catch(() => record.encryptionKey);
+    }
+    await putUserRecord(updated);
+    return toPublicUser(updated);
+};
+
+// Admin reset: issues a one-time token, forces a password change on the next login and signs
+// the user out everywhere. Only the token's hash is stored.
+export const createPasswordReset = async (actor: Actor, username: string): Promise<{ token: string; expiresAt: string }> => {
+    await assertAdminAccess(actor);
+    const record = await getUserRecord(username);
+    if (!record) throw "Usuário não encontrado";
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MS).toISOString();
+    await putUserRecord({ ...record, mustChangePassword: true, passwordReset: { tokenHash: await hashToken(token), expiresAt } });
+    await deleteSessionsByUser(record.id);
+    await recordAudit(actor, 'password_reset_issued', { targetId: record.id, targetName: record.username });
+    return { token, expiresAt };
+};
+
+const findUserByResetToken = async (token: string): Promise<StoredUser | undefined> => {
+    const tokenHash = await hashToken(token);
+    const store = await getStore('users', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.getAll();
+        req.onsuccess = () => resolve((req.result as StoredUser[]).find(u => u.passwordReset?.tokenHash === tokenHash));
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// Resolves with the username the link belongs to, or null when it is unknown, used or expired
+export const checkPasswordResetToken = async (token: string): Promise<string | null> => {
+    const record = await findUserByResetToken(token);
+    if (!record?.passwordReset || new Date(record.passwordReset.expiresAt).getTime() < Date.now()) return null;
+    return record.username;
+};
+
+// The file-encryption key is left wrapped under the forgotten password: without it, files
+// encrypted so far can only be opened by typing that old password to unlock them
+export const resetPasswordWithToken = async (token: string, newPassword: string): Promise<void> => {
+    const record = await findUserByResetToken(token);
+    if (!record?.passwordReset || new Date(record.passwordReset.expiresAt).getTime() < Date.now()) {
+        throw "Link de redefinição inválido ou expirado.";
+    }
+    assertPasswordStrength(newPassword);
+    await putUserRecord(await withNewPassword(record, newPassword));
+};
+
+export const getRemainingRecoveryCodes = async (actor: Actor): Promise<number> =>
+    (await getUserRecord(actor.username))?.twoFactor?.recoveryCodes.length || 0;
+
+// --- File Encryption Keys ---
+
+// Creates the user's file-encryption key, wrapped under their (verified) account password.
+// There is no way back: files encrypted with it would become unreadable without it.
+export const enableEncryption = async (actor: Actor, password: string): Promise<User> => {
+    const record = await getUserRecord(actor.username);
+    if (!record || !(await checkPassword(record, password)).valid) throw "Senha incorreta.";
+    if (record.encryptionKey) throw "A criptografia já está ativa.";
+    const updated: StoredUser = { ...record, encryptionKey: await createUserKey(password) };
+    await putUserRecord(updated);
+    return toPublicUser(updated);
 };
 
-export const updateUserStorage = async (userId: string, bytesToAdd: number): Promise<void> => {
+export const getWrappedUserKey = async (actor: Actor): Promise<WrappedUserKey | undefined> =>
+    (await getUserRecord(actor.username))?.encryptionKey;
+
+// Only called from here, as records are added and purged: quotas can't be rewritten from outside
+const updateUserStorage = async (userId: string, bytesToAdd: number): Promise<void> => {
     try {
         const store = await getStore('users', 'readwrite');
         const index = store.index('id');
@@ -134,80 +640,568 @@ export const updateUserStorage = async (userId: string, bytesToAdd: number): Pro
     }
 }
 
-export const getAllUsers = async (): Promise<User[]> => {
-    const store = await getStore('users', 'readonly');
+export const getUserById = async (userId: string): Promise<User | undefined> => {
+    const store = await getStore('users', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.index('id').get(userId);
+        req.onsuccess = () => resolve(req.result ? toPublicUser(req.result) : undefined);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const getAllUsers = async (actor: Actor): Promise<User[]> => {
+    await assertAdminAccess(actor);
+    const store = await getStore('users', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.getAll();
+        req.onsuccess = () => resolve((req.result as StoredUser[]).map(toPublicUser));
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// Changes to these show up in the audit log; avatar and the like don't
+const AUDITED_USER_FIELDS = ['email', 'role', 'plan', 'storageLimit', 'isActive'] as const;
+
+// Profile fields only; the stored credentials and the storage counter are carried over untouched.
+// Users may edit their own profile, but only an admin changes roles or blocks accounts.
+export const updateUser = async (actor: Actor, user: User): Promise<void> => {
+    assertSelfOrAdmin(actor, user.id);
+    const existing = await getUserRecord(user.username);
+    if (existing && existing.id !== user.id) throw new ForbiddenError('write', user.id);
+    const changesAccess = !!existing && (existing.role !== user.role || existing.isActive !== user.isActive);
+    if (changesAccess && !isAdmin(actor)) {
+        throw new ForbiddenError('admin', user.id, 'Apenas administradores podem alterar o papel ou o status da conta.');
+    }
+    if (changesAccess || actor.id !== user.id) await assertAdminAccess(actor);
+    const { passwordHash, password, twoFactor, passwordReset, mustChangePassword, encryptionKey } = existing || {};
+    const { twoFactorEnabled, encryptionEnabled, mustChangePassword: _ignored, ...profile } = toPublicUser(user as StoredUser);
+    await putUserRecord({ ...profile, storageUsed: existing?.storageUsed ?? profile.storageUsed, passwordHash, password, twoFactor, passwordReset, mustChangePassword, encryptionKey });
+
+    const changes = AUDITED_USER_FIELDS
+        .filter(field => existing && existing[field] !== user[field])
+        .map(field => `${field}: ${existing![field]} → ${user[field]}`);
+    if (changes.length > 0) {
+        await recordAudit(actor, 'user_update', { targetId: user.id, targetName: user.username, details: changes.join('; ') });
+    }
+};
+
+export const deleteUser = async (actor: Actor, username: string): Promise<void> => {
+    await assertAdminAccess(actor);
+    if (username === actor.username) throw new ForbiddenError('delete', actor.id, 'Você não pode excluir a própria conta.');
+    const existing = await getUserRecord(username);
+    const store = await getStore('users', 'readwrite');
+    await new Promise<void>((resolve, reject) => {
+        const req = store.delete(username);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+    if (existing) await deleteGrants('userId', existing.id);
+    await recordAudit(actor, 'user_delete', { targetId: existing?.id, targetName: username });
+};
+
+// --- Session Operations ---
+
+export const saveSession = async (session: Session): Promise<void> => {
+    const store = await getStore('sessions', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.put(session);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const getSession = async (id: string): Promise<Session | undefined> => {
+    const store = await getStore('sessions', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.get(id);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const getSessionsByUser = async (userId: string): Promise<Session[]> => {
+    const store = await getStore('sessions', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.index('userId').getAll(userId);
+        req.onsuccess = () => resolve(req.result || []);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    const store = await getStore('sessions', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.delete(id);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const deleteSessionsByUser = async (userId: string): Promise<void> => {
+    const store = await getStore('sessions', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.index('userId').openKeyCursor(IDBKeyRange.only(userId));
+        req.onsuccess = () => {
+            const cursor = req.result;
+            if (!cursor) return;
+            store.delete(cursor.primaryKey);
+            cursor.continue();
+        };
+        store.transaction.oncomplete = () => resolve();
+        store.transaction.onerror = () => reject(store.transaction.error);
+    });
+};
+
+// --- Access Token Operations ---
+
+export const saveAccessToken = async (token: AccessToken): Promise<void> => {
+    const store = await getStore('accessTokens', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.put(token);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const getAccessToken = async (id: string): Promise<AccessToken | undefined> => {
+    const store = await getStore('accessTokens', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.get(id);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const getAccessTokensByUser = async (userId: string): Promise<AccessToken[]> => {
+    const store = await getStore('accessTokens', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.index('userId').getAll(userId);
+        req.onsuccess = () => resolve(req.result || []);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const deleteAccessToken = async (id: string): Promise<void> => {
+    const store = await getStore('accessTokens', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.delete(id);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// --- Config Operations (First-Run Setup) ---
+
+const GB = 1024 * 1024 * 1024;
+
+export const DEFAULT_PLAN_LIMITS: PlanLimits = { free: 5 * GB, pro: 1024 * GB, enterprise: 5 * 1024 * GB };
+
+// Setup is done once the wizard saved its record. Installs from before the wizard have no record
+// but already have an admin, and count as set up too.
+const readSetupComplete = (tx: IDBTransaction, done: (complete: boolean) => void) => {
+    const setupReq = tx.objectStore('config').get('setup');
+    setupReq.onsuccess = () => {
+        if (setupReq.result) return done(true);
+        const usersReq = tx.objectStore('users').getAll();
+        usersReq.onsuccess = () => done((usersReq.result as StoredUser[]).some(u => u.role === 'admin'));
+    };
+};
+
+export const isSetupComplete = async (): Promise<boolean> => {
+    const db = await getDB();
+    const tx = db.transaction(['config', 'users'], 'readonly');
+    return new Promise((resolve, reject) => {
+        readSetupComplete(tx, resolve);
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+// Creates the first admin and saves the wizard's choices in one transaction, which also re-checks
+// that setup is still open: a second tab finishing first makes this one fail instead of adding an admin.
+export const completeSetup = async (admin: User, password: string, options: SetupOptions): Promise<void> => {
+    assertPasswordStrength(password);
+    const record: StoredUser = { ...admin, role: 'admin', passwordHash: await hashPassword(password) };
+    const db = await getDB();
+    const tx = db.transaction(['config', 'users'], 'readwrite');
+    await new Promise<void>((resolve, reject) => {
+        let alreadyComplete = false;
+        readSetupComplete(tx, complete => {
+            if (complete) {
+                alreadyComplete = true;
+                tx.abort();
+                return;
+            }
+            tx.objectStore('users').add(record);
+            tx.objectStore('config').put({ key: 'cdn', provider: options.provider, rootPath: options.rootPath });
+            tx.objectStore('config').put({ key: 'plans', ...options.planLimits });
+            tx.objectStore('config').put({ key: 'setup', completedAt: new Date().toISOString(), adminId: admin.id });
+        });
+        tx.oncomplete = () => resolve();
+        tx.onabort = () => reject(alreadyComplete
+            ? new ForbiddenError('admin', undefined, 'A configuração inicial já foi concluída.')
+            : tx.error);
+    });
+    await recordAudit(record, 'setup_complete', {
+        details: `Provedor: ${options.provider}; raiz: ${options.rootPath}`
+    });
+};
+
+export const getPlanLimits = async (): Promise<PlanLimits> => {
+    const store = await getStore('config', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.get('plans');
+        req.onsuccess = () => {
+            const { key, ...limits } = req.result || {};
+            resolve({ ...DEFAULT_PLAN_LIMITS, ...limits });
+        };
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// --- Config Operations (Security Policy) ---
+
+export const getSecurityPolicy = async (): Promise<SecurityPolicy> => {
+    const store = await getStore('config', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.get('security');
+        req.onsuccess = () => {
+            const { key, ...policy } = req.result || {};
+            resolve({ requireAdminTwoFactor: false, ...policy });
+        };
+        req.onerror = () => reject(req.error);
+    });
+};
+
+const ADMIN_TWO_FACTOR_MESSAGE = 'A política de segurança exige a verificação em duas etapas para administradores. Ative-a no seu perfil para continuar.';
+
+// Authorizes an admin action: the admin role as stored now (the actor may have been demoted or
+// blocked since it was loaded), and the admin's own 2FA while the policy requires it. Checked
+// here rather than in the UI so scripts calling the data layer are held to it too.
+export const assertAdminAccess = async (actor: Actor): Promise<void> => {
+    assertAdmin(actor);
+    const record = await getUserRecord(actor.username);
+    if (!record || record.id !== actor.id || record.role !== 'admin' || record.isActive === false) {
+        throw new ForbiddenError('admin', actor.id, 'Apenas administradores podem realizar esta ação.');
+    }
+    if ((await getSecurityPolicy()).requireAdminTwoFactor && !record.twoFactor) {
+        throw new ForbiddenError('admin', actor.id, ADMIN_TWO_FACTOR_MESSAGE);
+    }
+};
+
+export const saveSecurityPolicy = async (actor: Actor, policy: SecurityPolicy): Promise<void> => {
+    await assertAdminAccess(actor);
+    const store = await getStore('config', 'readwrite');
+    await new Promise<void>((resolve, reject) => {
+        const req = store.put({ key: 'security', ...policy });
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+    await recordAudit(actor, 'security_policy_save', { details: `requireAdminTwoFactor: ${policy.requireAdminTwoFactor}` });
+};
+
+// --- Config Operations (CDN) ---
+
+// Passing the vault writes both records in one transaction, so a rotation can't leave
+// secrets encrypted under a key the stored vault no longer derives
+export const saveCDNConfig = async (actor: Actor, config: StoredCDNConfig, vault?: SecretVault): Promise<void> => {
+    await assertAdminAccess(actor);
+    const store = await getStore('config', 'readwrite');
+    return new Promise((resolve, reject) => {
+        store.put({ key: 'cdn', ...config });
+        if (vault) store.put({ key: 'vault', ...vault });
+        store.transaction.oncomplete = () => resolve();
+        store.transaction.onerror = () => reject(store.transaction.error);
+    });
+};
+
+export const getSecretVault = async (): Promise<SecretVault | null> => {
+    const store = await getStore('config', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.get('vault');
+        req.onsuccess = () => resolve(req.result || null);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// The unlocked vault key (see secrets.ts). CryptoKeys are stored as themselves, and this one is
+// non-extractable: it can decrypt, but its bytes can't be read back out. It is only handed out
+// until expiresAt; past that (or for a record without one) it is deleted and the vault is locked.
+export const getVaultKey = async (): Promise<CryptoKey | null> => {
+    const store = await getStore('config', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.get('vaultKey');
+        req.onsuccess = () => {
+            const record = req.result;
+            if (!record) return resolve(null);
+            if (typeof record.expiresAt === 'number' && record.expiresAt > Date.now()) return resolve(record.cryptoKey);
+            const del = store.delete('vaultKey');
+            del.onsuccess = () => resolve(null);
+            del.onerror = () => reject(del.error);
+        };
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// Null forgets the key, locking the vault
+export const saveVaultKey = async (actor: Actor, key: CryptoKey | null, expiresAt?: number): Promise<void> => {
+    await assertAdminAccess(actor);
+    if (key && !expiresAt) throw new Error('O desbloqueio do cofre precisa de um prazo de expiração.');
+    const store = await getStore('config', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = key ? store.put({ key: 'vaultKey', cryptoKey: key, expiresAt }) : store.delete('vaultKey');
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const getCDNConfig = async (): Promise<StoredCDNConfig | null> => {
+    const store = await getStore('config', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.get('cdn');
+        req.onsuccess = () => resolve(req.result ? req.result : { provider: 'local' });
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// --- Blob Operations (Local Storage Provider) ---
+
+export const getBlob = async (key: string): Promise<Blob | undefined> => {
+    const store = await getStore('blobs', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.get(key);
+        req.onsuccess = () => resolve(req.result?.data);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const deleteBlob = async (key: string): Promise<void> => {
+    const store = await getStore('blobs', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.delete(key);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+};
+
+const chunkRange = (key: string) => IDBKeyRange.bound([key, 0], [key, Infinity]);
+
+export const putChunk = async (key: string, index: number, data: Blob): Promise<void> => {
+    const store = await getStore('chunks', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.put({ key, index, data });
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// Chunks come back ordered by index thanks to the compound key
+export const getChunks = async (key: string): Promise<Blob[]> => {
+    const store = await getStore('chunks', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.getAll(chunkRange(key));
+        req.onsuccess = () => resolve((req.result || []).map(c => c.data as Blob));
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const deleteChunks = async (key: string): Promise<void> => {
+    const store = await getStore('chunks', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.delete(chunkRange(key));
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// Objects in both the chunk store and the legacy whole-blob store
+export const listBlobs = async (prefix = ''): Promise<StorageObject[]> => {
+    const sizes = new Map<string, number>();
+
+    await new Promise<void>(async (resolve, reject) => {
+        const store = await getStore('chunks', 'readonly');
+        const range = prefix ? IDBKeyRange.bound([prefix], [`${prefix}\uffff`]) : undefined;
+        const req = store.openCursor(range);
+        req.onsuccess = () => {
+            const cursor = req.result;
+            if (cursor) {
+                const { key, data } = cursor.value as { key: string; data: Blob };
+                sizes.set(key, (sizes.get(key) || 0) + data.size);
+                cursor.continue();
+            } else {
+                resolve();
+            }
+        };
+        req.onerror = () => reject(req.error);
+    });
+
+    await new Promise<void>(async (resolve, reject) => {
+        const store = await getStore('blobs', 'readonly');
+        const range = prefix ? IDBKeyRange.bound(prefix, `${prefix}\uffff`) : undefined;
+        const req = store.openCursor(range);
+        req.onsuccess = () => {
+            const cursor = req.result;
+            if (cursor) {
+                if (!sizes.has(cursor.value.key)) sizes.set(cursor.value.key, (cursor.value.data as Blob).size);
+                cursor.continue();
+            } else {
+                resolve();
+            }
+        };
+        req.onerror = () => reject(req.error);
+    });
+
+    return Array.from(sizes, ([key, size]) => ({ key, size }));
+};
+
+// --- Upload Session Operations ---
+
+export const saveUploadSession = async (session: UploadSession): Promise<void> => {
+    const store = await getStore('uploads', 'readwrite');
     return new Promise((resolve, reject) => {
-        const req = store.getAll();
-        req.onsuccess = () => resolve(req.result);
+        const req = store.put(session);
+        req.onsuccess = () => resolve();
         req.onerror = () => reject(req.error);
     });
 };
 
-export const updateUser = async (user: User): Promise<void> => {
-    const store = await getStore('users', 'readwrite');
+export const getUploadSessions = async (actor: Actor): Promise<UploadSession[]> => {
+    const store = await getStore('uploads', 'readonly');
+    const index = store.index('ownerId');
     return new Promise((resolve, reject) => {
-        const req = store.put(user);
-        req.onsuccess = () => resolve();
+        const req = index.getAll(actor.id);
+        req.onsuccess = () => resolve(req.result || []);
         req.onerror = () => reject(req.error);
     });
 };
 
-export const deleteUser = async (username: string): Promise<void> => {
-    const store = await getStore('users', 'readwrite');
+export const deleteUploadSession = async (id: string): Promise<void> => {
+    const store = await getStore('uploads', 'readwrite');
     return new Promise((resolve, reject) => {
-        const req = store.delete(username);
+        const req = store.delete(id);
         req.onsuccess = () => resolve();
         req.onerror = () => reject(req.error);
     });
 };
 
-// --- Config Operations (CDN) ---
+// --- File Operations ---
+// Every operation here takes the acting user and checks it against the record it reads, so a
+// caller passing the wrong id gets a ForbiddenError instead of someone else's file.
 
-export const saveCDNConfig = async (config: CDNConfig): Promise<void> => {
-    const store = await getStore('config', 'readwrite');
+const getFileRecord = async (id: string): Promise<CloudFile | undefined> => {
+    const store = await getStore('files', 'readonly');
     return new Promise((resolve, reject) => {
-        const req = store.put({ key: 'cdn', ...config });
-        req.onsuccess = () => resolve();
+        const req = store.get(id);
+        req.onsuccess = () => resolve(req.result);
         req.onerror = () => reject(req.error);
     });
 };
 
-export const getCDNConfig = async (): Promise<CDNConfig | null> => {
-    const store = await getStore('config', 'readonly');
+const getFolderRecord = async (id: string): Promise<CloudFolder | undefined> => {
+    const store = await getStore('folders', 'readonly');
     return new Promise((resolve, reject) => {
-        const req = store.get('cdn');
-        req.onsuccess = () => resolve(req.result ? req.result : { provider: 'local' });
+        const req = store.get(id);
+        req.onsuccess = () => resolve(req.result);
         req.onerror = () => reject(req.error);
     });
 };
 
-// --- File Operations ---
+// New items may only be placed in the actor's root or in a folder the actor may write to. Items
+// belong to the folder's owner, so what an editor adds to a shared folder counts against the owner.
+export const assertCanCreate = async (actor: Actor, item: { id: string; ownerId: string; parentId: string | null }) => {
+    if (!item.parentId || item.parentId === 'root') return assertCanAccess(actor, item, 'write');
+    const folder = await getFolderRecord(item.parentId);
+    if (!folder) throw new NotFoundError(item.parentId, 'Pasta não encontrada.');
+    assertCanAccess(actor, folder, 'write', await getShareRole(actor, folder));
+    if (item.ownerId !== folder.ownerId) throw new ForbiddenError('write', item.id, 'O item precisa pertencer ao dono da pasta.');
+};
 
-export const addFileToDB = async (file: CloudFile): Promise<void> => {
-  await updateUserStorage(file.ownerId, file.size);
-  const store = await getStore('files', 'readwrite');
-  return new Promise((resolve, reject) => {
-    const req = store.add(file);
-    req.onsuccess = () => resolve();
-    req.onerror = () => reject(req.error);
+// Also takes a reference on the file's StoredObject (creating it on first use) in the same transaction
+// The record's storage location is settled here rather than taken from the caller, or a record
+// could point at someone else's bytes and then read or purge them. Content-addressed files take
+// the key of their StoredObject (a new one must sit at the hash's key); others must use their own id's key.
+export const addFileToDB = async (actor: Actor, requested: CloudFile): Promise<void> => {
+  await assertCanCreate(actor, requested);
+  const file = { ...requested };
+  const rootPath = (await getCDNConfig())?.rootPath;
+  const expectedKey = file.contentHash
+    ? buildObjectKey(rootPath, file.contentHash)
+    : buildStorageKey(rootPath, file.id, file.encryption ? ENCRYPTED_OBJECT_NAME : file.name);
+  const invalidKey = () => new ForbiddenError('write', file.id, 'Local de armazenamento inválido para este arquivo.');
+  if (!file.contentHash && file.storageKey !== undefined && file.storageKey !== expectedKey) throw invalidKey();
+
+  const db = await getDB();
+  const tx = db.transaction(['files', 'objects'], 'readwrite');
+  let rejected: Error | null = null;
+  await new Promise<void>((resolve, reject) => {
+    if (!file.contentHash) {
+      tx.objectStore('files').add(file);
+    } else {
+      const objects = tx.objectStore('objects');
+      const getReq = objects.get(file.contentHash);
+      getReq.onsuccess = () => {
+        const existing = getReq.result as StoredObject | undefined;
+        if (existing) {
+          file.storageKey = existing.storageKey;
+          file.storageProvider = existing.storageProvider;
+        } else if (file.storageKey !== expectedKey) {
+          rejected = invalidKey();
+          tx.abort();
+          return;
+        }
+        tx.objectStore('files').add(file);
+        objects.put(existing ? { ...existing, refCount: existing.refCount + 1 } : {
+          hash: file.contentHash,
+          storageKey: file.storageKey,
+          storageProvider: file.storageProvider || 'local',
+          size: file.size,
+          refCount: 1,
+          createdAt: new Date().toISOString()
+        });
+      };
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(rejected || tx.error);
   });
+  await updateUserStorage(file.ownerId, file.size);
+  await recordAudit(actor, 'file_upload', { targetId: file.id, targetName: file.name, details: `${file.size} bytes` });
+};
+
+// Single record, checked for `action`; throws NotFoundError when the id is unknown
+export const getFile = async (actor: Actor, id: string, action: PermissionAction = 'read'): Promise<CloudFile> => {
+    const file = await getFileRecord(id);
+    if (!file) throw new NotFoundError(id, 'Arquivo não encontrado.');
+    assertCanAccess(actor, file, action, await getShareRole(actor, file));
+    return file;
+};
+
+// Whose items the actor sees in a folder: their own, or those of the owner of a folder shared with them
+const getListingOwnerId = async (actor: Actor, folderId: string): Promise<string> => {
+    if (folderId === 'root') return actor.id;
+    const folder = await getFolderRecord(folderId);
+    if (!folder || folder.ownerId === actor.id) return actor.id;
+    assertCanAccess(actor, folder, 'read', await getShareRole(actor, folder));
+    return folder.ownerId;
 };
 
-export const getFilesFromDB = async (parentId: string, ownerId: string): Promise<CloudFile[]> => {
+export const getFilesFromDB = async (actor: Actor, parentId: string): Promise<CloudFile[]> => {
+    assertScope(actor, 'read');
+    const ownerId = await getListingOwnerId(actor, parentId);
     const store = await getStore('files', 'readonly');
     const index = store.index('parentId');
     return new Promise((resolve, reject) => {
         const req = index.getAll(parentId); 
         req.onsuccess = () => {
             const files = req.result as CloudFile[];
-            // Filter: Must match owner AND NOT be in trash
+            // Filter: Must belong to the folder's owner AND NOT be in trash
             resolve(files ? files.filter(f => f.ownerId === ownerId && !f.isTrashed) : []);
         };
         req.onerror = () => reject(req.error);
     });
 };
 
-export const getAllFilesGlobal = async (): Promise<CloudFile[]> => {
+export const getAllFilesGlobal = async (actor: Actor): Promise<CloudFile[]> => {
+    await assertAdminAccess(actor);
     const store = await getStore('files', 'readonly');
     return new Promise((resolve, reject) => {
         const req = store.getAll();
@@ -216,82 +1210,157 @@ export const getAllFilesGlobal = async (): Promise<CloudFile[]> => {
     });
 };
 
-export const getFileContent = async (id: string): Promise<Blob | undefined> => {
-    try {
-        const store = await getStore('files', 'readonly');
-        return new Promise((resolve, reject) => {
-            const req = store.get(id);
-            req.onsuccess = () => resolve(req.result?.data);
-            req.onerror = () => reject(req.error);
-        });
-    } catch { return undefined; }
-}
+type ItemStore = 'files' | 'folders';
 
-export const trashFile = async (id: string): Promise<void> => {
-    const store = await getStore('files', 'readwrite');
-    return new Promise((resolve, reject) => {
+// Read-modify-write of one file or folder record, allowed only if the actor may perform `action`
+// on it. Both the change and a refused attempt are audited. Resolves with undefined for unknown ids.
+const updateItemRecord = async <T extends CloudFile | CloudFolder>(
+    storeName: ItemStore,
+    actor: Actor,
+    id: string,
+    action: PermissionAction,
+    auditAction: AuditAction,
+    change: (item: T) => void
+): Promise<T | undefined> => {
+    const store = await getStore(storeName, 'readwrite');
+    const item = await new Promise<T | undefined>((resolve, reject) => {
         const getReq = store.get(id);
         getReq.onsuccess = () => {
-            const file = getReq.result as CloudFile;
-            if (file) {
-                file.isTrashed = true;
-                file.trashedAt = new Date().toISOString();
-                // Also disable sharing when trashed
-                if (file.isShared) file.isShared = false;
-                
-                const putReq = store.put(file);
-                putReq.onsuccess = () => resolve();
-                putReq.onerror = () => reject(putReq.error);
-            } else {
-                resolve(); // File not found, ignore
-            }
+            const item = getReq.result as T | undefined;
+            if (!item || !canAccess(actor, item, action)) return resolve(item);
+            change(item);
+            const putReq = store.put(item);
+            putReq.onsuccess = () => resolve(item);
+            putReq.onerror = () => reject(putReq.error);
         };
         getReq.onerror = () => reject(getReq.error);
     });
+    if (!item) return undefined;
+    if (!canAccess(actor, item, action)) {
+        await recordAudit(actor, auditAction, { targetId: id, targetName: item.name, success: false, details: 'Permissão negada' });
+        throw new ForbiddenError(action, id);
+    }
+    await recordAudit(actor, auditAction, { targetId: id, targetName: item.name });
+    return item;
+};
+
+const updateFileRecord = (actor: Actor, id: string, action: PermissionAction, auditAction: AuditAction, change: (file: CloudFile) => void) =>
+    updateItemRecord<CloudFile>('files', actor, id, action, auditAction, change);
+
+export const trashFile = async (actor: Actor, id: string): Promise<void> => {
+    // Unknown ids are ignored
+    await updateFileRecord(actor, id, 'write', 'file_trash', file => {
+        file.isTrashed = true;
+        file.trashedAt = new Date().toISOString();
+        // Also disable sharing when trashed
+        if (file.isShared) file.isShared = false;
+    });
 }
 
-export const restoreFile = async (id: string): Promise<void> => {
-    const store = await getStore('files', 'readwrite');
-    return new Promise((resolve, reject) => {
-        const getReq = store.get(id);
+export const restoreFile = async (actor: Actor, id: string): Promise<void> => {
+    await updateFileRecord(actor, id, 'write', 'file_restore', file => {
+        file.isTrashed = false;
+        file.trashedAt = undefined;
+    });
+}
+
+// Drops the record and its reference on the StoredObject. Resolves with the object when that was
+// the last reference: the caller must then delete the bytes from the provider.
+export const deleteFileFromDB = async (actor: Actor, id: string): Promise<StoredObject | null> => {
+    const db = await getDB();
+    const tx = db.transaction(['files', 'objects'], 'readwrite');
+    const { deleted, orphan } = await new Promise<{ deleted?: CloudFile; orphan: StoredObject | null }>((resolve, reject) => {
+        let deleted: CloudFile | undefined;
+        let orphan: StoredObject | null = null;
+        const files = tx.objectStore('files');
+        const getReq = files.get(id);
         getReq.onsuccess = () => {
-            const file = getReq.result as CloudFile;
-            if (file) {
-                file.isTrashed = false;
-                file.trashedAt = undefined;
-                const putReq = store.put(file);
-                putReq.onsuccess = () => resolve();
-                putReq.onerror = () => reject(putReq.error);
-            } else {
-                resolve();
+            const file = getReq.result as CloudFile | undefined;
+            if (!file) return;
+            if (!canAccess(actor, file, 'delete')) {
+                recordAudit(actor, 'file_purge', { targetId: id, targetName: file.name, success: false, details: 'Permissão negada' });
+                reject(new ForbiddenError('delete', id));
+                tx.abort();
+                return;
             }
+            deleted = file;
+            files.delete(id);
+            if (!file.contentHash) return;
+            const objects = tx.objectStore('objects');
+            const objReq = objects.get(file.contentHash);
+            objReq.onsuccess = () => {
+                const obj = objReq.result as StoredObject | undefined;
+                if (!obj) return;
+                if (obj.refCount <= 1) {
+                    objects.delete(obj.hash);
+                    orphan = obj;
+                } else {
+                    objects.put({ ...obj, refCount: obj.refCount - 1 });
+                }
+            };
         };
-        getReq.onerror = () => reject(getReq.error);
+        tx.oncomplete = () => resolve({ deleted, orphan });
+        tx.onerror = () => reject(tx.error);
     });
-}
+    // Charged to the owner from the record itself, whoever deleted it
+    if (deleted) {
+        await deleteGrants('itemId', id);
+        await deleteShareEvents(id);
+        await updateUserStorage(deleted.ownerId, -deleted.size);
+        await recordAudit(actor, 'file_purge', {
+            targetId: id,
+            targetName: deleted.name,
+            details: deleted.ownerId !== actor.id ? `Dono: ${deleted.ownerId}` : undefined
+        });
+    }
+    return orphan;
+};
 
-export const deleteFileFromDB = async (id: string, ownerId: string, size: number): Promise<void> => {
-    await updateUserStorage(ownerId, -size);
-    const store = await getStore('files', 'readwrite');
+// --- Stored Object Operations ---
+// Uploads look objects up by hash to deduplicate against everyone's content, so any user who may
+// write can read them; repointing objects and records is part of a migration, which admins run.
+
+export const getStoredObject = async (actor: Actor, hash: string): Promise<StoredObject | undefined> => {
+    assertScope(actor, 'write');
+    const store = await getStore('objects', 'readonly');
     return new Promise((resolve, reject) => {
-        const req = store.delete(id);
+        const req = store.get(hash);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const updateStoredObject = async (actor: Actor, obj: StoredObject): Promise<void> => {
+    await assertAdminAccess(actor);
+    const store = await getStore('objects', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.put(obj);
         req.onsuccess = () => resolve();
         req.onerror = () => reject(req.error);
     });
 };
 
-// --- Sharing Operations ---
+export const getFilesByContentHash = async (actor: Actor, hash: string): Promise<CloudFile[]> => {
+    await assertAdminAccess(actor);
+    const store = await getStore('files', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.index('contentHash').getAll(hash);
+        req.onsuccess = () => resolve(req.result || []);
+        req.onerror = () => reject(req.error);
+    });
+};
 
-export const updateFileShareStatus = async (fileId: string, isShared: boolean, shareToken?: string): Promise<void> => {
+// Points a record at a new copy of its bytes (used when migrating between providers)
+export const updateFileStorage = async (actor: Actor, id: string, storageKey: string, storageProvider: StorageProviderId): Promise<void> => {
+    await assertAdminAccess(actor);
     const store = await getStore('files', 'readwrite');
     return new Promise((resolve, reject) => {
-        const getReq = store.get(fileId);
+        const getReq = store.get(id);
         getReq.onsuccess = () => {
             const file = getReq.result as CloudFile;
             if (file) {
-                file.isShared = isShared;
-                file.shareToken = shareToken;
-                file.shareCreatedAt = isShared ? new Date().toISOString() : undefined;
+                file.storageKey = storageKey;
+                file.storageProvider = storageProvider;
                 const putReq = store.put(file);
                 putReq.onsuccess = () => resolve();
                 putReq.onerror = () => reject(putReq.error);
@@ -303,18 +1372,299 @@ export const updateFileShareStatus = async (fileId: string, isShared: boolean, s
     });
 };
 
-export const getFileByShareToken = async (token: string): Promise<CloudFile | null> => {
+// --- Sharing Operations ---
+// Files and folders carry the same link fields. A folder's link opens a read-only browser over
+// everything below it; trashed and encrypted items are left out (encrypted ones have no key in
+// the link to be opened with).
+
+const SHARE_PASSWORD_BACKOFF_BASE_MS = 1000;
+const SHARE_PASSWORD_BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+const SHARE_NOT_FOUND_MESSAGES: Record<ItemStore, string> = {
+    files: 'Arquivo não encontrado',
+    folders: 'Pasta não encontrada.',
+};
+
+const INVALID_SHARE_MESSAGE = 'Link de compartilhamento inválido ou expirado.';
+
+// Passwords already checked on this page, per link. Browsing a protected folder reads many
+// records, and hashing the password again for each of them would take seconds.
+const acceptedSharePasswords = new Map<string, { password: string; hash: string }>();
+
+const setSharePassword = (item: ShareFields, password: PasswordHash | undefined) => {
+    item.sharePassword = password;
+    item.sharePasswordFailures = undefined;
+    item.sharePasswordFailedAt = undefined;
+};
+
+const clearShare = (item: ShareFields) => {
+    item.isShared = false;
+    item.shareToken = undefined;
+    item.shareCreatedAt = undefined;
+    item.shareExpiresAt = undefined;
+    item.shareMaxDownloads = undefined;
+    item.shareDownloads = undefined;
+    setSharePassword(item, undefined);
+};
+
+// Enabling always starts a fresh download count
+const setShareStatus = async (
+    storeName: ItemStore,
+    actor: Actor,
+    id: string,
+    isShared: boolean,
+    shareToken?: string,
+    settings: ShareSettings = {}
+): Promise<void> => {
+    // Hashed up front: the record update runs inside a transaction that can't wait on PBKDF2
+    const password = isShared && settings.password ? await hashPassword(settings.password) : undefined;
+    const item = await updateItemRecord(storeName, actor, id, 'share', isShared ? 'share_enable' : 'share_disable', item => {
+        if (!isShared) return clearShare(item);
+        item.isShared = true;
+        item.shareToken = shareToken;
+        item.shareCreatedAt = new Date().toISOString();
+        item.shareExpiresAt = settings.expiresAt;
+        item.shareMaxDownloads = settings.maxDownloads;
+        item.shareDownloads = 0;
+        setSharePassword(item, password);
+    });
+    if (!item) throw new NotFoundError(id, SHARE_NOT_FOUND_MESSAGES[storeName]);
+};
+
+// New limits for the current link; the downloads counted so far still count
+const applyShareSettings = async (storeName: ItemStore, actor: Actor, id: string, settings: ShareSettings): Promise<void> => {
+    const password = settings.password ? await hashPassword(settings.password) : undefined;
+    const item = await updateItemRecord(storeName, actor, id, 'share', 'share_update', item => {
+        if (!item.isShared) return;
+        item.shareExpiresAt = settings.expiresAt;
+        item.shareMaxDownloads = settings.maxDownloads;
+        if (settings.password !== undefined) setSharePassword(item, password);
+    });
+    if (!item) throw new NotFoundError(id, SHARE_NOT_FOUND_MESSAGES[storeName]);
+};
+
+export const updateFileShareStatus = (actor: Actor, fileId: string, isShared: boolean, shareToken?: string, settings?: ShareSettings) =>
+    setShareStatus('files', actor, fileId, isShared, shareToken, settings);
+
+export const updateFolderShareStatus = (actor: Actor, folderId: string, isShared: boolean, shareToken?: string, settings?: ShareSettings) =>
+    setShareStatus('folders', actor, folderId, isShared, shareToken, settings);
+
+export const updateShareSettings = (actor: Actor, fileId: string, settings: ShareSettings) =>
+    applyShareSettings('files', actor, fileId, settings);
+
+export const updateFolderShareSettings = (actor: Actor, folderId: string, settings: ShareSettings) =>
+    applyShareSettings('folders', actor, folderId, settings);
+
+// Applies a change to the record behind a public link, unless the link was replaced meanwhile
+const updateSharedRecord = async <T extends CloudFile | CloudFolder>(storeName: ItemStore, item: T, change: (current: T) => void): Promise<void> => {
+    const store = await getStore(storeName, 'readwrite');
+    await new Promise<void>((resolve, reject) => {
+        const getReq = store.get(item.id);
+        getReq.onsuccess = () => {
+            const current = getReq.result as T | undefined;
+            if (!current || current.shareToken !== item.shareToken) return;
+            change(current);
+            store.put(current);
+        };
+        store.transaction.oncomplete = () => resolve();
+        store.transaction.onerror = () => reject(store.transaction.error);
+    });
+};
+
+// Turns off a link that outlived its limits. Nobody is signed in on the share page, so the
+// audit entry is attributed to the system.
+const revokeShare = async (storeName: ItemStore, item: CloudFile | CloudFolder, reason: string): Promise<void> => {
+    await updateSharedRecord(storeName, item, clearShare);
+    await recordAudit({ username: 'system' }, 'share_disable', { targetId: item.id, targetName: item.name, details: reason });
+};
+
+// Links past their expiry or download limit are revoked on the spot and refused with a
+// ForbiddenError saying why; unknown links resolve to null.
+const resolveShare = async <T extends CloudFile | CloudFolder>(storeName: ItemStore, token: string): Promise<T | null> => {
+    const item = await findSharedItem<T>(storeName, token);
+    if (!item) return null;
+    const problem = getShareProblem(item);
+    if (problem) {
+        await revokeShare(storeName, item, SHARE_PROBLEM_MESSAGES[problem]);
+        throw new ForbiddenError('read', item.id, SHARE_PROBLEM_MESSAGES[problem]);
+    }
+    return item;
+};
+
+export const getFileByShareToken = (token: string) => resolveShare<CloudFile>('files', token);
+
+export const getFolderByShareToken = (token: string) => resolveShare<CloudFolder>('folders', token);
+
+// Checks the password of a protected link (a no-op for other links). Each wrong guess in a row
+// doubles the wait before the next one is even checked; there is no lockout, which would let any
+// visitor disable the owner's link.
+const verifySharePassword = async (storeName: ItemStore, item: CloudFile | CloudFolder, password?: string): Promise<void> => {
+    if (!item.sharePassword) return;
+    if (!password) throw new ForbiddenError('read', item.id, 'Este link é protegido por senha.');
+    const accepted = acceptedSharePasswords.get(item.shareToken!);
+    if (accepted && accepted.password === password && accepted.hash === item.sharePassword.hash) return;
+    const failures = item.sharePasswordFailures || 0;
+    if (failures) {
+        const wait = Math.min(SHARE_PASSWORD_BACKOFF_BASE_MS * 2 ** (failures - 1), SHARE_PASSWORD_BACKOFF_MAX_MS);
+        const retryAt = new Date(item.sharePasswordFailedAt!).getTime() + wait;
+        if (retryAt > Date.now()) {
+            throw new ForbiddenError('read', item.id, `Muitas tentativas seguidas. Aguarde ${Math.ceil((retryAt - Date.now()) / 1000)} s e tente novamente.`);
+        }
+    }
+    const { valid } = await verifyPassword(password, item.sharePassword);
+    if (valid) {
+        acceptedSharePasswords.set(item.shareToken!, { password, hash: item.sharePassword.hash });
+        if (failures) await updateSharedRecord(storeName, item, current => {
+            current.sharePasswordFailures = undefined;
+            current.sharePasswordFailedAt = undefined;
+        });
+        return;
+    }
+    await updateSharedRecord(storeName, item, current => {
+        current.sharePasswordFailures = (current.sharePasswordFailures || 0) + 1;
+        current.sharePasswordFailedAt = new Date().toISOString();
+    });
+    await recordAudit({ username: 'anonymous' }, 'share_password_failed', {
+        targetId: item.id, targetName: item.name, success: false, details: `${failures + 1} tentativa(s) seguidas`,
+    });
+    throw new ForbiddenError('read', item.id, 'Senha incorreta.');
+};
+
+// Resolves a folder link and checks its password
+const openSharedFolder = async (token: string, password?: string): Promise<CloudFolder> => {
+    const root = await getFolderByShareToken(token);
+    if (!root) throw new ForbiddenError('read', undefined, INVALID_SHARE_MESSAGE);
+    await verifySharePassword('folders', root, password);
+    return root;
+};
+
+// Folders from the shared root down to folderId; null when folderId is outside the share or
+// below a trashed folder
+const getSharedPath = async (root: CloudFolder, folderId: string): Promise<CloudFolder[] | null> => {
+    const path: CloudFolder[] = [];
+    let currentId: string | null = folderId;
+    while (currentId && currentId !== 'root') {
+        const folder = currentId === root.id ? root : await getFolderRecord(currentId);
+        if (!folder || folder.isTrashed || folder.ownerId !== root.ownerId) return null;
+        path.unshift(folder);
+        if (folder.id === root.id) return path;
+        currentId = folder.parentId;
+    }
+    return null;
+};
+
+const isVisibleInShare = (item: CloudFile | CloudFolder, root: CloudFolder) =>
+    item.ownerId === root.ownerId && !item.isTrashed && !('encryption' in item && item.encryption);
+
+const getSharedChildren = async (root: CloudFolder, folderId: string): Promise<{ folders: CloudFolder[]; files: CloudFile[] }> => {
+    const db = await getDB();
+    const tx = db.transaction(['folders', 'files'], 'readonly');
+    const [folders, files] = await Promise.all((['folders', 'files'] as const).map(storeName =>
+        new Promise<(CloudFile | CloudFolder)[]>((resolve, reject) => {
+            const req = tx.objectStore(storeName).index('parentId').getAll(folderId);
+            req.onsuccess = () => resolve((req.result as (CloudFile | CloudFolder)[]).filter(item => isVisibleInShare(item, root)));
+            req.onerror = () => reject(req.error);
+        })
+    ));
+    return { folders: folders as CloudFolder[], files: files as CloudFile[] };
+};
+
+export const getSharedFolderListing = async (token: string, folderId: string, password?: string): Promise<SharedFolderListing> => {
+    const root = await openSharedFolder(token, password);
+    const path = await getSharedPath(root, folderId);
+    if (!path) throw new ForbiddenError('read', folderId, 'Esta pasta não faz parte do compartilhamento.');
+    return { path, ...(await getSharedChildren(root, folderId)) };
+};
+
+// Takes one of a link's downloads and records it, or refuses once the limit is reached. The limit
+// is checked and the count raised in one transaction, so two visitors racing for the last allowed
+// download can't both get it.
+const reserveShareDownload = async (storeName: ItemStore, item: CloudFile | CloudFolder): Promise<void> => {
+    const store = await getStore(storeName, 'readwrite');
+    let refusal: string | undefined;
+    await new Promise<void>((resolve, reject) => {
+        const getReq = store.get(item.id);
+        getReq.onsuccess = () => {
+            const current = getReq.result as CloudFile | CloudFolder | undefined;
+            if (!current || !current.isShared || current.isTrashed || current.shareToken !== item.shareToken) {
+                refusal = INVALID_SHARE_MESSAGE;
+                return;
+            }
+            const problem = getShareProblem(current);
+            if (problem) {
+                refusal = SHARE_PROBLEM_MESSAGES[problem];
+                return;
+            }
+            current.shareDownloads = (current.shareDownloads || 0) + 1;
+            store.put(current);
+        };
+        store.transaction.oncomplete = () => resolve();
+        store.transaction.onerror = () => reject(store.transaction.error);
+    });
+    if (refusal) throw new ForbiddenError('read', item.id, refusal);
+    await recordShareEvent(storeName, item, 'download');
+};
+
+// Every file below a shared folder, with its path inside the share, for "download all". Unless
+// the folder is empty, this takes one of the link's downloads for the whole archive.
+export const getSharedFolderFiles = async (token: string, password?: string): Promise<{ path: string; file: CloudFile }[]> => {
+    const root = await openSharedFolder(token, password);
+    const result: { path: string; file: CloudFile }[] = [];
+    const walk = async (folderId: string, prefix: string) => {
+        const { folders, files } = await getSharedChildren(root, folderId);
+        files.forEach(file => result.push({ path: prefix + file.name, file }));
+        for (const folder of folders) await walk(folder.id, `${prefix}${folder.name}/`);
+    };
+    await walk(root.id, '');
+    if (result.length > 0) await reserveShareDownload('folders', root);
+    return result;
+};
+
+// The file a public link lets its visitor read: the linked file itself or one below a linked
+// folder. `link` is the shared record, whose limits apply. A 'download' takes one of the link's
+// downloads before anything is handed out (the last allowed one still completes; the next visit
+// finds the link exhausted), and a 'preview' is refused on links with a download limit.
+export const getSharedFile = async (
+    access: { shareToken: string; password?: string },
+    fileId: string,
+    purpose: SharedReadPurpose = 'check'
+): Promise<{ file: CloudFile; link: ShareFields }> => {
+    let storeName: ItemStore = 'files';
+    let file: CloudFile | null = null;
+    let link: CloudFile | CloudFolder;
+    const shared = await getFileByShareToken(access.shareToken);
+    if (shared) {
+        if (shared.id !== fileId) throw new ForbiddenError('read', fileId, INVALID_SHARE_MESSAGE);
+        await verifySharePassword('files', shared, access.password);
+        file = link = shared;
+    } else {
+        const root = await openSharedFolder(access.shareToken, access.password);
+        file = await getFileRecord(fileId);
+        if (!file || !isVisibleInShare(file, root) || !(await getSharedPath(root, file.parentId))) {
+            throw new ForbiddenError('read', fileId, 'Este arquivo não faz parte do compartilhamento.');
+        }
+        storeName = 'folders';
+        link = root;
+    }
+    if (purpose === 'preview' && link.shareMaxDownloads !== undefined) {
+        throw new ForbiddenError('read', fileId, 'Este link tem limite de downloads: o arquivo só pode ser baixado.');
+    }
+    if (purpose === 'download') await reserveShareDownload(storeName, link);
+    return { file, link };
+};
+
+const findSharedItem = async <T extends CloudFile | CloudFolder>(storeName: ItemStore, token: string): Promise<T | null> => {
     // In a real DB we would use an index. For this demo we iterate.
-    const store = await getStore('files', 'readonly');
+    const store = await getStore(storeName, 'readonly');
     return new Promise((resolve, reject) => {
         const req = store.openCursor();
         req.onsuccess = (e) => {
             const cursor = (e.target as IDBRequest).result;
             if (cursor) {
-                const file = cursor.value as CloudFile;
-                // Ensure file is not trashed
-                if (file.isShared && file.shareToken === token && !file.isTrashed) {
-                    resolve(file);
+                const item = cursor.value as T;
+                // Ensure the item is not trashed
+                if (item.isShared && item.shareToken === token && !item.isTrashed) {
+                    resolve(item);
                     return;
                 }
                 cursor.continue();
@@ -326,9 +1676,272 @@ export const getFileByShareToken = async (token: string): Promise<CloudFile | nu
     });
 };
 
+// --- Share Analytics ---
+// Each visit to a link's page and each download through it adds a row to shareEvents, with the
+// visitor's coarse fingerprint. Rows belong to the item, not the link, so the totals carry over
+// when a link is replaced; they are deleted with the item.
+
+const TOP_SHARES_LIMIT = 5;
+
+// Like the audit log, a failed write is logged rather than thrown: it must not cost a download
+const recordShareEvent = async (storeName: ItemStore, item: CloudFile | CloudFolder, kind: ShareEventKind): Promise<void> => {
+    try {
+        const event: Omit<ShareEvent, 'id'> = {
+            itemId: item.id,
+            itemType: storeName === 'files' ? 'file' : 'folder',
+            ownerId: item.ownerId,
+            kind,
+            timestamp: new Date().toISOString(),
+            fingerprint: await getClientFingerprint(),
+        };
+        const store = await getStore('shareEvents', 'readwrite');
+        await new Promise<void>((resolve, reject) => {
+            const req = store.add(event);
+            req.onsuccess = () => resolve();
+            req.onerror = () => reject(req.error);
+        });
+    } catch (e) {
+        console.error("Failed to record share event", e);
+    }
+};
+
+// Counts one visit to a link's page, whether or not its password is typed afterwards. Callers
+// resolve the link first, so expired ones are already revoked and count nothing.
+export const registerShareView = async (token: string): Promise<void> => {
+    const file = await findSharedItem<CloudFile>('files', token);
+    if (file) return recordShareEvent('files', file, 'view');
+    const folder = await findSharedItem<CloudFolder>('folders', token);
+    if (folder) await recordShareEvent('folders', folder, 'view');
+};
+
+// Oldest first; every event when no index is given
+const getShareEvents = async (indexName?: 'itemId' | 'ownerId', key?: string): Promise<ShareEvent[]> => {
+    const store = await getStore('shareEvents', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = indexName ? store.index(indexName).getAll(key) : store.getAll();
+        req.onsuccess = () => resolve(req.result || []);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+const deleteShareEvents = async (itemId: string): Promise<void> => {
+    const store = await getStore('shareEvents', 'readwrite');
+    return new Promise((resolve, reject) => {
+        const req = store.index('itemId').openKeyCursor(IDBKeyRange.only(itemId));
+        req.onsuccess = () => {
+            const cursor = req.result;
+            if (!cursor) return;
+            store.delete(cursor.primaryKey);
+            cursor.continue();
+        };
+        store.transaction.oncomplete = () => resolve();
+        store.transaction.onerror = () => reject(store.transaction.error);
+    });
+};
+
+const summarizeShare = (item: CloudFile | CloudFolder, itemType: ShareStats['itemType'], events: ShareEvent[]): ShareStats => {
+    const views = events.filter(event => event.kind === 'view').length;
+    return {
+        itemId: item.id,
+        itemType,
+        name: item.name,
+        isShared: !!item.isShared,
+        views,
+        downloads: events.length - views,
+        visitors: new Set(events.map(event => event.fingerprint)).size,
+        lastAccessAt: events[events.length - 1]?.timestamp,
+        timeline: buildShareTimeline(events),
+    };
+};
+
+const groupByItem = (events: ShareEvent[]): Map<string, ShareEvent[]> => {
+    const groups = new Map<string, ShareEvent[]>();
+    events.forEach(event => groups.set(event.itemId, [...(groups.get(event.itemId) || []), event]));
+    return groups;
+};
+
+// For the owner of the item, or an admin
+export const getShareStats = async (actor: Actor, item: { type: ShareStats['itemType']; id: string }): Promise<ShareStats> => {
+    const record = item.type === 'file' ? await getFile(actor, item.id) : await getFolder(actor, item.id);
+    if (record.ownerId !== actor.id && !isAdmin(actor)) throw new ForbiddenError('read', record.id);
+    return summarizeShare(record, item.type, await getShareEvents('itemId', record.id));
+};
+
+const getItemsByOwner = async <T extends CloudFile | CloudFolder>(storeName: ItemStore, ownerId: string): Promise<T[]> => {
+    const store = await getStore(storeName, 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.index('ownerId').getAll(ownerId);
+        req.onsuccess = () => resolve(req.result || []);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// The actor's items with a live link, or with accesses through an earlier one; trashed items are
+// left out. Most recently accessed first, links nobody opened yet last.
+export const getMyShares = async (actor: Actor): Promise<ShareStats[]> => {
+    assertScope(actor, 'read');
+    const events = groupByItem(await getShareEvents('ownerId', actor.id));
+    const stats: ShareStats[] = [];
+    for (const storeName of ['files', 'folders'] as const) {
+        for (const item of await getItemsByOwner(storeName, actor.id)) {
+            if (item.isTrashed || (!item.isShared && !events.has(item.id))) continue;
+            stats.push(summarizeShare(item, storeName === 'files' ? 'file' : 'folder', events.get(item.id) || []));
+        }
+    }
+    return stats.sort((a, b) => (b.lastAccessAt || '').localeCompare(a.lastAccessAt || ''));
+};
+
+// Items downloaded most through public links, across all users, for the admin overview
+const getTopShares = async (): Promise<ShareStats[]> => {
+    const events = groupByItem(await getShareEvents());
+    const downloads = (itemEvents: ShareEvent[]) => itemEvents.filter(event => event.kind === 'download').length;
+    const ranked = [...events.values()]
+        .filter(itemEvents => downloads(itemEvents) > 0)
+        .sort((a, b) => downloads(b) - downloads(a))
+        .slice(0, TOP_SHARES_LIMIT);
+    const stats: ShareStats[] = [];
+    for (const itemEvents of ranked) {
+        const { itemId, itemType } = itemEvents[0];
+        const item = itemType === 'file' ? await getFileRecord(itemId) : await getFolderRecord(itemId);
+        if (!item) continue;
+        const owner = await getUserById(item.ownerId);
+        stats.push({ ...summarizeShare(item, itemType, itemEvents), ownerName: owner?.username });
+    }
+    return stats;
+};
+
+// --- User-to-User Sharing ---
+
+const getGrantsByIndex = async (indexName: 'userId' | 'itemId', key: string): Promise<ShareGrant[]> => {
+    const store = await getStore('grants', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.index(indexName).getAll(key);
+        req.onsuccess = () => resolve(req.result || []);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+const strongerRole = (a: ShareRole | null | undefined, b: ShareRole | null | undefined): ShareRole | null =>
+    a === 'editor' || b === 'editor' ? 'editor' : a || b || null;
+
+// Role the actor holds on someone else's item through a grant on the item itself or on any folder
+// above it (the strongest one wins). Null for the owner, and for trashed items or items below a
+// trashed folder.
+export const getShareRole = async (actor: Actor, item: CloudFile | CloudFolder): Promise<ShareRole | null> => {
+    if (item.ownerId === actor.id || item.isTrashed) return null;
+    const grants = await getGrantsByIndex('userId', actor.id);
+    if (grants.length === 0) return null;
+    const roles = new Map(grants.map(grant => [grant.itemId, grant.role]));
+    let role = strongerRole(roles.get(item.id), null);
+    let parentId: string | null = item.parentId;
+    while (parentId && parentId !== 'root') {
+        const folder = await getFolderRecord(parentId);
+        if (!folder || folder.isTrashed) return null;
+        role = strongerRole(role, roles.get(folder.id));
+        parentId = folder.parentId;
+    }
+    return role;
+};
+
+// Accounts can be found by username or by e-mail address
+const findUserByLogin = async (login: string): Promise<StoredUser | undefined> => {
+    const byUsername = await getUserRecord(login);
+    if (byUsername) return byUsername;
+    const store = await getStore('users', 'readonly');
+    return new Promise((resolve, reject) => {
+        const req = store.getAll();
+        req.onsuccess = () => resolve((req.result as StoredUser[]).find(u => u.email.toLowerCase() === login.toLowerCase()));
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// Gives another user access to one of the actor's files or folders; sharing again with the same
+// user changes their role
+export const shareWithUser = async (
+    actor: Actor,
+    item: { type: ShareGrant['itemType']; id: string },
+    login: string,
+    role: ShareRole
+): Promise<ShareGrant> => {
+    const record = item.type === 'file' ? await getFile(actor, item.id, 'share') : await getFolder(actor, item.id, 'share');
+    const recipient = await findUserByLogin(login.trim());
+    if (!recipient) throw new NotFoundError(login, 'Nenhum usuário encontrado com este nome ou e-mail.');
+    if (recipient.id === record.ownerId) throw new Error('O dono já tem acesso a este item.');
+    const existing = (await getGrantsByIndex('itemId', record.id)).find(grant => grant.userId === recipient.id);
+    const grant: ShareGrant = {
+        id: existing?.id || `g-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        itemId: record.id,
+        itemType: item.type,
+        ownerId: record.ownerId,
+        userId: recipient.id,
+        username: recipient.username,
+        role,
+        createdAt: existing?.createdAt || new Date().toISOString(),
+    };
+    const store = await getStore('grants', 'readwrite');
+    await new Promise<void>((resolve, reject) => {
+        const req = store.put(grant);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+    await recordAudit(actor, 'share_grant', { targetId: record.id, targetName: record.name, details: `${recipient.username}: ${role}` });
+    return grant;
+};
+
+// Who an item was shared with; only its owner (or an admin) gets the list
+export const getItemGrants = async (actor: Actor, itemId: string): Promise<ShareGrant[]> => {
+    const grants = await getGrantsByIndex('itemId', itemId);
+    return grants.filter(grant => grant.ownerId === actor.id || isAdmin(actor));
+};
+
+export const revokeGrant = async (actor: Actor, grantId: string): Promise<void> => {
+    const store = await getStore('grants', 'readwrite');
+    const grant = await new Promise<ShareGrant | undefined>((resolve, reject) => {
+        const req = store.get(grantId);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+    if (!grant) return;
+    assertCanAccess(actor, { id: grant.itemId, ownerId: grant.ownerId }, 'share');
+    await new Promise<void>((resolve, reject) => {
+        const req = store.delete(grantId);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+    });
+    await recordAudit(actor, 'share_grant_revoke', { targetId: grant.itemId, details: grant.username });
+};
+
+// Grants go with the item or with the account they name
+const deleteGrants = async (indexName: 'userId' | 'itemId', key: string): Promise<void> => {
+    const grants = await getGrantsByIndex(indexName, key);
+    if (grants.length === 0) return;
+    const store = await getStore('grants', 'readwrite');
+    await new Promise<void>((resolve, reject) => {
+        grants.forEach(grant => store.delete(grant.id));
+        store.transaction.oncomplete = () => resolve();
+        store.transaction.onerror = () => reject(store.transaction.error);
+    });
+};
+
+// Items other users shared with the actor directly; what lies inside shared folders is browsed
+// from there
+export const getSharedWithMe = async (actor: Actor): Promise<{ files: CloudFile[]; folders: CloudFolder[] }> => {
+    assertScope(actor, 'read');
+    const files: CloudFile[] = [];
+    const folders: CloudFolder[] = [];
+    for (const grant of await getGrantsByIndex('userId', actor.id)) {
+        const item = grant.itemType === 'file' ? await getFileRecord(grant.itemId) : await getFolderRecord(grant.itemId);
+        if (!item || !(await getShareRole(actor, item))) continue;
+        if (grant.itemType === 'file') files.push(item as CloudFile);
+        else folders.push(item as CloudFolder);
+    }
+    return { files, folders };
+};
+
 // --- Folder Operations ---
 
-export const addFolderToDB = async (folder: CloudFolder): Promise<void> => {
+export const addFolderToDB = async (actor: Actor, folder: CloudFolder): Promise<void> => {
+    await assertCanCreate(actor, folder);
     const store = await getStore('folders', 'readwrite');
     return new Promise((resolve, reject) => {
         const req = store.add(folder);
@@ -337,23 +1950,51 @@ export const addFolderToDB = async (folder: CloudFolder): Promise<void> => {
     });
 };
 
-export const getFoldersFromDB = async (parentId: string, ownerId: string): Promise<CloudFolder[]> => {
+// Single record, checked for `action`; throws NotFoundError when the id is unknown
+export const getFolder = async (actor: Actor, id: string, action: PermissionAction = 'read'): Promise<CloudFolder> => {
+    const folder = await getFolderRecord(id);
+    if (!folder) throw new NotFoundError(id, 'Pasta não encontrada.');
+    assertCanAccess(actor, folder, action, await getShareRole(actor, folder));
+    return folder;
+};
+
+export const getFoldersFromDB = async (actor: Actor, parentId: string): Promise<CloudFolder[]> => {
+    assertScope(actor, 'read');
+    const ownerId = await getListingOwnerId(actor, parentId);
     const store = await getStore('folders', 'readonly');
     const index = store.index('parentId');
     return new Promise((resolve, reject) => {
         const req = index.getAll(parentId);
         req.onsuccess = () => {
             const folders = req.result as CloudFolder[];
-            // Filter: Must match owner AND NOT be in trash
+            // Filter: Must belong to the folder's owner AND NOT be in trash
             resolve(folders ? folders.filter(f => f.ownerId === ownerId && !f.isTrashed) : []);
         };
         req.onerror = () => reject(req.error);
     });
 };
 
+// Folder names from the root down to (and including) folderId
+export const getFolderPath = async (folderId: string): Promise<string[]> => {
+    const names: string[] = [];
+    let currentId: string | null = folderId;
+    while (currentId && currentId !== 'root') {
+        const store = await getStore('folders', 'readonly');
+        const folder: CloudFolder | undefined = await new Promise((resolve, reject) => {
+            const req = store.get(currentId!);
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+        if (!folder) break;
+        names.unshift(folder.name);
+        currentId = folder.parentId;
+    }
+    return names;
+};
+
 // --- Trash Management ---
 
-export const getTrashedItems = async (ownerId: string): Promise<{files: CloudFile[], folders: CloudFolder[]}> => {
+export const getTrashedItems = async (actor: Actor): Promise<{files: CloudFile[], folders: CloudFolder[]}> => {
     // This is expensive in IndexedDB without a specific index on 'isTrashed', so we iterate
     // For a clone app this is acceptable.
     
@@ -363,7 +2004,7 @@ export const getTrashedItems = async (ownerId: string): Promise<{files: CloudFil
         const req = fileStore.getAll();
         req.onsuccess = () => {
             const all = req.result as CloudFile[];
-            resolve(all.filter(f => f.ownerId === ownerId && f.isTrashed));
+            resolve(all.filter(f => f.ownerId === actor.id && f.isTrashed));
         };
     });
 
@@ -374,25 +2015,17 @@ export const getTrashedItems = async (ownerId: string): Promise<{files: CloudFil
         const req = folderStore.getAll();
         req.onsuccess = () => {
              const all = req.result as CloudFolder[];
-             resolve(all.filter(f => f.ownerId === ownerId && f.isTrashed));
+             resolve(all.filter(f => f.ownerId === actor.id && f.isTrashed));
         };
     });
 
     return { files, folders };
 };
 
-export const emptyTrash = async (ownerId: string): Promise<void> => {
-    const { files } = await getTrashedItems(ownerId);
-    // Delete all trashed files physically
-    for (const file of files) {
-        await deleteFileFromDB(file.id, ownerId, file.size);
-    }
-    // We could handle folders here too if we implemented soft delete for them fully
-};
-
 // --- Admin Stats ---
 
-export const getSystemStats = async (): Promise<SystemStats> => {
+export const getSystemStats = async (actor: Actor): Promise<SystemStats> => {
+    await assertAdminAccess(actor);
     try {
         // Execute sequentially to avoid "Transaction inactive" errors caused by awaiting in between transaction usage
         
@@ -430,14 +2063,18 @@ export const getSystemStats = async (): Promise<SystemStats> => {
             { name: 'Outros', count: Math.floor(filesData.count * 0.2) },
         ];
 
+        // 3. Most downloaded share links
+        const topShares = await getTopShares();
+
         return {
             totalUsers,
             totalFiles: filesData.count,
             totalStorage: filesData.size,
-            recentUploads
+            recentUploads,
+            topShares
         };
     } catch (e) {
         console.error("Error getting stats", e);
-        return { totalUsers: 0, totalFiles: 0, totalStorage: 0, recentUploads: [] };
+        return { totalUsers: 0, totalFiles: 0, totalStorage: 0, recentUploads: [], topShares: [] };
     }
 }
\ No newline at end of file
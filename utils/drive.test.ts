@@ -0,0 +1,169 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { CDNConfig } from '../types';
+import { MockDrive, isFolder, startMockDrive } from '../test/mockDrive';
+
+const credentials = { clientId: 'client-id', clientSecret: 'client-secret', refreshToken: 'refresh-token' };
+
+let server: MockDrive;
+let config: CDNConfig;
+
+beforeAll(async () => {
+    server = await startMockDrive(credentials);
+    config = { provider: 'google_drive', endpoint: server.endpoint, rootPath: 'cloudfire', ...credentials };
+});
+
+afterAll(() => server.close());
+
+afterEach(() => {
+    server.files.clear();
+    server.sessions.clear();
+    server.requests.length = 0;
+});
+
+// A fresh module per test: no cached token, folder ids or session offsets, as after a reload
+const loadProvider = async () => {
+    vi.resetModules();
+    const { createDriveProvider } = await import('./drive');
+    return createDriveProvider(config);
+};
+
+const bytes = (length: number, seed = 0) => new Blob([Uint8Array.from({ length }, (_, i) => (i + seed) % 251)]);
+
+const uploadRequests = () => server.requests.filter(r => r.url.includes('upload_id='));
+
+describe('Google Drive provider against a local mock of the REST API', () => {
+    it('uploads into the folder tree, then downloads, lists and deletes by key', async () => {
+        const drive = await loadProvider();
+        await drive.put('cloudfire/objects/abc', new Blob(['olá drive']), { name: 'nota.txt', folderPath: ['Documentos'] });
+
+        const folders = [...server.files.values()].filter(isFolder);
+        expect(folders.map(f => f.name)).toEqual(['cloudfire', 'Documentos']);
+        const file = [...server.files.values()].find(f => !isFolder(f))!;
+        expect(file).toMatchObject({ name: 'nota.txt', parents: [folders[1].id], description: 'cloudfire/objects/abc' });
+
+        expect(await (await drive.get('cloudfire/objects/abc'))?.text()).toBe('olá drive');
+        expect(await drive.list('cloudfire/')).toMatchObject([{ key: 'cloudfire/objects/abc', size: 10 }]);
+
+        await drive.delete('cloudfire/objects/abc');
+        expect(await drive.get('cloudfire/objects/abc')).toBeUndefined();
+    });
+
+    it('replaces the content of the file already holding a key', async () => {
+        const drive = await loadProvider();
+        await drive.put('cloudfire/objects/abc', new Blob(['primeira']), { name: 'nota.txt', folderPath: ['Documentos'] });
+        const [first] = [...server.files.values()].filter(f => !isFolder(f));
+        server.requests.length = 0;
+
+        await drive.put('cloudfire/objects/abc', new Blob(['segunda versão']), { name: 'nota.txt', folderPath: ['Documentos'] });
+        const stored = [...server.files.values()].filter(f => !isFolder(f));
+        expect(stored).toHaveLength(1);
+        expect(stored[0]).toMatchObject({ id: first.id, name: 'nota.txt', parents: first.parents, description: 'cloudfire/objects/abc' });
+        expect(server.requests.some(r => r.method === 'PATCH' && r.url.startsWith(`/upload/drive/v3/files/${first.id}?`))).toBe(true);
+        expect(await (await drive.get('cloudfire/objects/abc'))?.text()).toBe('segunda versão');
+    });
+
+    it('sends the chunks of a fresh session without status requests', async () => {
+        const drive = await loadProvider();
+        const data = bytes(3000);
+        const sessionUri = await drive.createMultipart('objects/fresh', 'application/octet-stream');
+        const parts = [];
+        for (let i = 0; i < 3; i++) {
+            parts.push(await drive.putPart('objects/fresh', sessionUri, i + 1, data.slice(i * 1000, (i + 1) * 1000), { offset: i * 1000 }));
+        }
+        await drive.completeMultipart('objects/fresh', sessionUri, parts);
+
+        expect(uploadRequests().map(r => r.contentRange)).toEqual([
+            'bytes 0-999/*', 'bytes 1000-1999/*', 'bytes 2000-2999/*', 'bytes */3000',
+        ]);
+    });
+
+    it('resumes an interrupted session from the bytes Drive committed', async () => {
+        const data = bytes(3000, 7);
+        let drive = await loadProvider();
+        const sessionUri = await drive.createMultipart('objects/resumed', 'application/octet-stream');
+        const first = await drive.putPart('objects/resumed', sessionUri, 1, data.slice(0, 1000), { offset: 0 });
+
+        // The connection drops after Drive kept 400 bytes of the second chunk
+        server.interruptNextChunk(400);
+        await expect(drive.putPart('objects/resumed', sessionUri, 2, data.slice(1000, 2000), { offset: 1000 }))
+            .rejects.toThrow('Falha de rede');
+
+        // The page reloads; the stored session retries part 2 on the same session URI
+        drive = await loadProvider();
+        server.requests.length = 0;
+        const progress: number[] = [];
+        const second = await drive.putPart('objects/resumed', sessionUri, 2, data.slice(1000, 2000), {
+            offset: 1000,
+            onProgress: loaded => progress.push(loaded),
+        });
+        const third = await drive.putPart('objects/resumed', sessionUri, 3, data.slice(2000), { offset: 2000 });
+        await drive.completeMultipart('objects/resumed', sessionUri, [first, second, third]);
+
+        // One status request, then only the missing tail of part 2
+        expect(uploadRequests().map(r => r.contentRange)).toEqual([
+            'bytes */*', 'bytes 1400-1999/*', 'bytes 2000-2999/*', 'bytes */3000',
+        ]);
+        expect(progress.at(-1)).toBe(1000);
+        const file = [...server.files.values()].find(f => !isFolder(f))!;
+        expect(file.data).toEqual(Buffer.from(await data.arrayBuffer()));
+    });
+
+    it('skips a chunk Drive already holds in full', async () => {
+        const data = bytes(2000);
+        let drive = await loadProvider();
+        const sessionUri = await drive.createMultipart('objects/lost-answer', 'application/octet-stream');
+        await drive.putPart('objects/lost-answer', sessionUri, 1, data.slice(0, 1000), { offset: 0 });
+
+        // Drive took the whole chunk but the answer never arrived
+        server.interruptNextChunk(1000);
+        await expect(drive.putPart('objects/lost-answer', sessionUri, 2, data.slice(1000), { offset: 1000 })).rejects.toThrow();
+
+        drive = await loadProvider();
+        server.requests.length = 0;
+        await drive.putPart('objects/lost-answer', sessionUri, 2, data.slice(1000), { offset: 1000 });
+        expect(uploadRequests().map(r => r.contentRange)).toEqual(['bytes */*']);
+    });
+
+    it('refuses to resume when the session lost earlier parts', async () => {
+        const drive = await loadProvider();
+        const sessionUri = await drive.createMultipart('objects/gap', 'application/octet-stream');
+        const resumed = await loadProvider();
+        await expect(resumed.putPart('objects/gap', sessionUri, 2, bytes(1000), { offset: 1000 }))
+            .rejects.toThrow('não tem as partes anteriores à parte 2');
+    });
+
+    it('refreshes the access token after a 401 and retries', async () => {
+        const drive = await loadProvider();
+        await drive.put('objects/token', new Blob(['conteúdo']));
+        const issued = server.tokensIssued();
+
+        server.revokeTokens();
+        expect(await (await drive.get('objects/token'))?.text()).toBe('conteúdo');
+        expect(server.tokensIssued()).toBe(issued + 1);
+        expect(server.requests.filter(r => r.url === '/token')).toHaveLength(2);
+    });
+
+    it('refreshes the access token when a chunk upload gets a 401', async () => {
+        const drive = await loadProvider();
+        const sessionUri = await drive.createMultipart('objects/chunk-token', 'application/octet-stream');
+        server.revokeTokens();
+        server.requests.length = 0;
+
+        const part = await drive.putPart('objects/chunk-token', sessionUri, 1, bytes(500), { offset: 0 });
+        await drive.completeMultipart('objects/chunk-token', sessionUri, [part]);
+
+        const chunkPuts = uploadRequests().filter(r => r.contentRange === 'bytes 0-499/*');
+        expect(chunkPuts.map(r => r.authorization)).toEqual([expect.any(String), expect.any(String)]);
+        expect(chunkPuts[0].authorization).not.toBe(chunkPuts[1].authorization);
+        expect(server.requests.some(r => r.url === '/token')).toBe(true);
+        expect([...server.files.values()].some(f => f.data?.length === 500)).toBe(true);
+    });
+
+    it('reports a rejected refresh token', async () => {
+        vi.resetModules();
+        const { createDriveProvider } = await import('./drive');
+        const drive = createDriveProvider({ ...config, refreshToken: 'revoked' });
+        await expect(drive.get('objects/any')).rejects.toThrow('renovar o token de acesso no Google Drive (HTTP 400: Bad Request)');
+    });
+});
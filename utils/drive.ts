@@ -0,0 +1,306 @@
+import { CDNConfig, ObjectMeta, PartUploadOptions, StorageObject, StorageProvider, UploadedPart } from '../types';
+import { sha256Hex } from './encoding';
+
+// Google Drive backend (REST v3). Objects are regular Drive files placed in a folder tree that
+// mirrors rootPath + the CloudFolder path; each file carries a hash of its storageKey in
+// appProperties (for lookups) and the full key in its description (for listings).
+// Setting CDNConfig.endpoint replaces both Google hosts, so a local mock of
+// /token, /drive/v3/files and /upload/drive/v3/files can stand in for the real API.
+
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const GOOGLE_API_BASE = 'https://www.googleapis.com';
+const FOLDER_MIME = 'application/vnd.google-apps.folder';
+const KEY_PROPERTY = 'cloudfireKey';
+const MARKER_PROPERTY = 'cloudfire'; // 'has' queries need a value, so listings match on this marker
+
+interface DriveFile {
+    id: string;
+    name?: string;
+    size?: string;
+    modifiedTime?: string;
+    description?: string;
+}
+
+// --- Helpers ---
+
+// Drive query strings quote values with single quotes
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const driveError = async (res: Response, action: string) => {
+    const body = await res.json().catch(() => null);
+    const reason = body?.error?.message || body?.error_description || body?.error;
+    return new Error(`Falha ao ${action} no Google Drive (HTTP ${res.status}${reason ? `: ${reason}` : ''})`);
+};
+
+// --- OAuth ---
+
+// Access tokens are cached per credential set until shortly before they expire
+const tokenCache = new Map<string, { token: string; expiresAt: number }>();
+
+const refreshAccessToken = async (config: CDNConfig): Promise<string> => {
+    if (!config.clientId || !config.clientSecret || !config.refreshToken) {
+        throw new Error('Client ID, Client Secret e Refresh Token são obrigatórios para o Google Drive.');
+    }
+    const tokenUrl = config.endpoint ? `${config.endpoint.replace(/\/+$/, '')}/token` : GOOGLE_TOKEN_URL;
+    const res = await fetch(tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            client_id: config.clientId,
+            client_secret: config.clientSecret,
+            refresh_token: config.refreshToken,
+            grant_type: 'refresh_token',
+        }),
+    });
+    if (!res.ok) throw await driveError(res, 'renovar o token de acesso');
+    const body = await res.json();
+    tokenCache.set(`${config.clientId}:${config.refreshToken}`, {
+        token: body.access_token,
+        expiresAt: Date.now() + ((body.expires_in || 3600) - 60) * 1000,
+    });
+    return body.access_token;
+};
+
+const getAccessToken = async (config: CDNConfig, forceRefresh = false): Promise<string> => {
+    const cached = tokenCache.get(`${config.clientId}:${config.refreshToken}`);
+    if (!forceRefresh && cached && cached.expiresAt > Date.now()) return cached.token;
+    return refreshAccessToken(config);
+};
+
+// Drive folder ids by credential set + folder path; folders are never renamed from CloudFire
+const folderCache = new Map<string, string>();
+
+// Next byte each resumable session expects, as far as this tab knows. Sessions missing here
+// (resumed after a reload, or after a chunk failed midway) are asked for their committed range first
+const sessionOffsets = new Map<string, number>();
+
+// A 308 carries 'Range: bytes=0-<last>' once the session holds any bytes
+const committedBytes = (range: string | null) => {
+    const last = range?.match(/^bytes=0-(\d+)$/)?.[1];
+    return last === undefined ? 0 : Number(last) + 1;
+};
+
+// --- Provider ---
+
+export const createDriveProvider = (config: CDNConfig): StorageProvider => {
+    const apiBase = (config.endpoint || GOOGLE_API_BASE).replace(/\/+$/, '');
+    const rootSegments = (config.rootPath || '').split('/').filter(Boolean);
+    const cachePrefix = `${config.clientId}:${config.refreshToken}|`;
+
+    // Authorized fetch; a 401 means the cached token was revoked or expired early, so retry once
+    const driveFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+        const send = async (token: string) => fetch(url, {
+            ...init,
+            headers: { ...(init.headers as Record<string, string>), Authorization: `Bearer ${token}` },
+        });
+        const res = await send(await getAccessToken(config));
+        return res.status === 401 ? send(await getAccessToken(config, true)) : res;
+    };
+
+    const findFolder = async (name: string, parentId: string): Promise<string | undefined> => {
+        const q = `mimeType=${quote(FOLDER_MIME)} and name=${quote(name)} and ${quote(parentId)} in parents and trashed=false`;
+        const res = await driveFetch(`${apiBase}/drive/v3/files?${new URLSearchParams({ q, fields: 'files(id)', spaces: 'drive' })}`);
+        if (!res.ok) throw await driveError(res, 'procurar pasta');
+        return (await res.json()).files?.[0]?.id;
+    };
+
+    const createFolder = async (name: string, parentId: string): Promise<string> => {
+        const res = await driveFetch(`${apiBase}/drive/v3/files?fields=id`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name, mimeType: FOLDER_MIME, parents: [parentId] }),
+        });
+        if (!res.ok) throw await driveError(res, 'criar pasta');
+        return (await res.json()).id;
+    };
+
+    // Walks (and creates where missing) rootPath + the CloudFolder path, returning the last folder id
+    const ensureFolderPath = async (folderPath: string[]): Promise<string> => {
+        const segments = [...rootSegments, ...folderPath];
+        let parentId = 'root';
+        for (let i = 0; i < segments.length; i++) {
+            const path = segments.slice(0, i + 1).join('/');
+            let id = folderCache.get(cachePrefix + path);
+            if (!id) {
+                id = (await findFolder(segments[i], parentId)) || (await createFolder(segments[i], parentId));
+                folderCache.set(cachePrefix + path, id);
+            }
+            parentId = id;
+        }
+        return parentId;
+    };
+
+    const findFileByKey = async (key: string): Promise<DriveFile | undefined> => {
+        const hash = await sha256Hex(key);
+        const q = `appProperties has { key=${quote(KEY_PROPERTY)} and value=${quote(hash)} } and trashed=false`;
+        const res = await driveFetch(`${apiBase}/drive/v3/files?${new URLSearchParams({ q, fields: 'files(id,name,size)', spaces: 'drive' })}`);
+        if (!res.ok) throw await driveError(res, 'procurar arquivo');
+        return (await res.json()).files?.[0];
+    };
+
+    // Resumable upload session; the returned session URI is the upload id. Drive allows any number
+    // of files with the same properties, so a key that already has a file gets its content replaced
+    // (an update session on that file) rather than a second file the lookups would pick at random.
+    const createMultipart = async (key: string, contentType: string, meta: ObjectMeta = {}): Promise<string> => {
+        const existing = await findFileByKey(key);
+        const headers = {
+            'Content-Type': 'application/json; charset=UTF-8',
+            'X-Upload-Content-Type': contentType || 'application/octet-stream',
+        };
+        const name = meta.name || key.split('/').pop();
+        const mimeType = contentType || 'application/octet-stream';
+        const res = existing
+            ? await driveFetch(`${apiBase}/upload/drive/v3/files/${existing.id}?uploadType=resumable`, {
+                method: 'PATCH',
+                headers,
+                body: JSON.stringify({ name, mimeType }),
+            })
+            : await driveFetch(`${apiBase}/upload/drive/v3/files?uploadType=resumable`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({
+                    name,
+                    parents: [await ensureFolderPath(meta.folderPath || [])],
+                    mimeType,
+                    description: key,
+                    appProperties: { [KEY_PROPERTY]: await sha256Hex(key), [MARKER_PROPERTY]: '1' },
+                }),
+            });
+        if (!res.ok) throw await driveError(res, 'iniciar envio');
+        const sessionUri = res.headers.get('Location');
+        if (!sessionUri) throw new Error('Google Drive não retornou a URL da sessão de envio');
+        sessionOffsets.set(sessionUri, 0);
+        return sessionUri;
+    };
+
+    // Upload status request: an empty PUT with 'bytes */*' answers 308 with what the session holds
+    const getCommittedBytes = async (sessionUri: string): Promise<number> => {
+        const res = await driveFetch(sessionUri, { method: 'PUT', headers: { 'Content-Range': 'bytes */*' } });
+        if (res.status !== 308) throw await driveError(res, 'retomar envio');
+        return committedBytes(res.headers.get('Range'));
+    };
+
+    // One chunk PUT over XHR (fetch exposes no upload progress), resolving with the status and Range
+    const sendChunk = (
+        sessionUri: string,
+        token: string,
+        body: Blob,
+        contentRange: string | null,
+        { onProgress, signal }: PartUploadOptions
+    ) => new Promise<{ status: number; range: string | null }>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Envio cancelado', 'AbortError'));
+            return;
+        }
+        const xhr = new XMLHttpRequest();
+        signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+        xhr.open('PUT', sessionUri);
+        xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+        if (contentRange) xhr.setRequestHeader('Content-Range', contentRange);
+        xhr.upload.onprogress = (e) => onProgress?.(e.loaded);
+        xhr.onload = () => resolve({ status: xhr.status, range: xhr.getResponseHeader('Range') });
+        xhr.onerror = () => reject(new Error('Falha de rede ao enviar ao Google Drive'));
+        xhr.onabort = () => reject(new DOMException('Envio cancelado', 'AbortError'));
+        xhr.send(body.size > 0 ? body : null);
+    });
+
+    // Chunks are sent with an open-ended total ('*'); completeMultipart announces the final size.
+    // A resumed session may already hold part of this chunk, so only the rest is sent.
+    const putPart = async (
+        _key: string,
+        sessionUri: string,
+        partNumber: number,
+        data: Blob,
+        { offset = 0, onProgress, signal }: PartUploadOptions = {}
+    ): Promise<UploadedPart> => {
+        const committed = sessionOffsets.get(sessionUri) ?? await getCommittedBytes(sessionUri);
+        if (committed < offset) throw new Error(`A sessão de envio do Google Drive não tem as partes anteriores à parte ${partNumber}`);
+        const skipped = Math.min(data.size, committed - offset);
+        const end = offset + data.size;
+        // Unknown until Drive confirms this chunk
+        sessionOffsets.delete(sessionUri);
+
+        if (data.size === 0 || skipped < data.size) {
+            const body = data.slice(skipped);
+            const contentRange = body.size > 0 ? `bytes ${offset + skipped}-${end - 1}/*` : null;
+            const options = { onProgress: (loaded: number) => onProgress?.(skipped + loaded), signal };
+            let result = await sendChunk(sessionUri, await getAccessToken(config), body, contentRange, options);
+            if (result.status === 401) {
+                result = await sendChunk(sessionUri, await getAccessToken(config, true), body, contentRange, options);
+            }
+            // 308 Resume Incomplete is the expected answer for every chunk
+            if (result.status !== 308 && (result.status < 200 || result.status >= 300)) {
+                throw new Error(`Falha ao enviar parte ${partNumber} ao Google Drive (HTTP ${result.status})`);
+            }
+            if (result.status === 308 && committedBytes(result.range) < end) {
+                throw new Error(`Google Drive recebeu a parte ${partNumber} incompleta`);
+            }
+        }
+        sessionOffsets.set(sessionUri, end);
+        onProgress?.(data.size);
+        return { partNumber, size: data.size };
+    };
+
+    const completeMultipart = async (_key: string, sessionUri: string, parts: UploadedPart[]): Promise<void> => {
+        const total = parts.reduce((sum, p) => sum + (p.size || 0), 0);
+        const res = await driveFetch(sessionUri, {
+            method: 'PUT',
+            headers: { 'Content-Range': `bytes */${total}` },
+        });
+        if (!res.ok) throw await driveError(res, 'concluir envio');
+        sessionOffsets.delete(sessionUri);
+    };
+
+    return {
+        id: 'google_drive',
+        put: async (key, data, meta) => {
+            const sessionUri = await createMultipart(key, data.type, meta);
+            const part = await putPart(key, sessionUri, 1, data);
+            await completeMultipart(key, sessionUri, [part]);
+        },
+        get: async (key) => {
+            const file = await findFileByKey(key);
+            if (!file) return undefined;
+            const res = await driveFetch(`${apiBase}/drive/v3/files/${file.id}?alt=media`);
+            if (res.status === 404) return undefined;
+            if (!res.ok) throw await driveError(res, 'baixar arquivo');
+            return res.blob();
+        },
+        delete: async (key) => {
+            const file = await findFileByKey(key);
+            if (!file) return;
+            const res = await driveFetch(`${apiBase}/drive/v3/files/${file.id}`, { method: 'DELETE' });
+            if (!res.ok && res.status !== 404) throw await driveError(res, 'remover arquivo');
+        },
+        list: async (prefix = '') => {
+            const objects: StorageObject[] = [];
+            let pageToken: string | undefined;
+            do {
+                const params = new URLSearchParams({
+                    q: `appProperties has { key=${quote(MARKER_PROPERTY)} and value='1' } and trashed=false`,
+                    fields: 'nextPageToken,files(id,size,modifiedTime,description)',
+                    pageSize: '1000',
+                    spaces: 'drive',
+                });
+                if (pageToken) params.set('pageToken', pageToken);
+                const res = await driveFetch(`${apiBase}/drive/v3/files?${params}`);
+                if (!res.ok) throw await driveError(res, 'listar arquivos');
+                const body = await res.json();
+                (body.files as DriveFile[] || [])
+                    .filter(f => (f.description || '').startsWith(prefix))
+                    .forEach(f => objects.push({ key: f.description!, size: Number(f.size || 0), lastModified: f.modifiedTime }));
+                pageToken = body.nextPageToken;
+            } while (pageToken);
+            return objects;
+        },
+        createMultipart,
+        putPart,
+        completeMultipart,
+        abortMultipart: async (_key, sessionUri) => {
+            sessionOffsets.delete(sessionUri);
+            const res = await driveFetch(sessionUri, { method: 'DELETE' });
+            // Drive answers 499 when a resumable session is cancelled
+            if (!res.ok && res.status !== 404 && res.status !== 499) throw await driveError(res, 'cancelar envio');
+        },
+    };
+};
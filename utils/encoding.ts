@@ -0,0 +1,16 @@
+// Byte encodings used by the crypto helpers, tokens and storage providers
+
+export const toHex = (bytes: Uint8Array | ArrayBuffer): string =>
+    Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+export const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+export const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+// URL-safe and unpadded, for values carried in links
+export const toBase64Url = (bytes: Uint8Array): string => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (value: string): Uint8Array => fromBase64(value.replace(/-/g, '+').replace(/_/g, '/'));
+
+export const sha256Hex = async (text: string): Promise<string> =>
+    toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
@@ -0,0 +1,38 @@
+import { Actor, CloudFile } from '../types';
+import { getWrappedUserKey } from './db';
+import { unwrapUserKey, exportFileKey } from './fileCrypto';
+import { ForbiddenError } from './permissions';
+
+// The unwrapped user key only ever lives in this module's memory. After a reload encrypted files
+// stay locked until the user types their password again (the login form does it for them).
+let unlocked: { userId: string; key: CryptoKey } | null = null;
+
+export const unlockEncryption = async (actor: Actor, password: string): Promise<void> => {
+    const wrapped = await getWrappedUserKey(actor);
+    if (!wrapped) throw new Error('A criptografia não está ativa nesta conta.');
+    unlocked = { userId: actor.id, key: await unwrapUserKey(wrapped, password) };
+};
+
+export const lockEncryption = () => { unlocked = null; };
+
+export const isEncryptionUnlocked = (actor: Actor): boolean => unlocked?.userId === actor.id;
+
+export const requireUserKey = (actor: Actor): CryptoKey => {
+    if (!unlocked || unlocked.userId !== actor.id) {
+        throw new Error('Seus arquivos criptografados estão bloqueados. Digite sua senha para desbloqueá-los.');
+    }
+    return unlocked.key;
+};
+
+// Key new uploads are encrypted under; null when the user never turned encryption on
+export const getUploadKey = async (actor: Actor): Promise<CryptoKey | null> => {
+    if (!(await getWrappedUserKey(actor))) return null;
+    return requireUserKey(actor);
+};
+
+// File key for the fragment of a share link (#k=...); undefined for files stored in the clear
+export const getShareKey = async (actor: Actor, file: CloudFile): Promise<string | undefined> => {
+    if (!file.encryption) return undefined;
+    if (file.ownerId !== actor.id) throw new ForbiddenError('share', file.id);
+    return exportFileKey(requireUserKey(actor), file.encryption);
+};
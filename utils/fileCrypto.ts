@@ -0,0 +1,114 @@
+import { EncryptedSecret, FileEncryption, WrappedUserKey } from '../types';
+import { toBase64, fromBase64, toBase64Url, fromBase64Url } from './encoding';
+
+// Client-side file encryption. Every file gets a random AES-GCM key; its content is encrypted
+// chunk by chunk so multi-GB uploads stream through the existing multipart upload. File keys are
+// wrapped by the user's key, which in turn is wrapped by a key derived from the account password.
+
+const KEY_ITERATIONS = 310000;
+const NONCE_PREFIX_BYTES = 8;
+export const GCM_TAG_BYTES = 16;
+
+const importAesKey = (raw: Uint8Array): Promise<CryptoKey> =>
+    crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+
+const encryptBytes = async (key: CryptoKey, bytes: Uint8Array): Promise<EncryptedSecret> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decryptBytes = async (key: CryptoKey, secret: EncryptedSecret): Promise<Uint8Array> =>
+    new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.data)));
+
+// The salt is separate from the password hash's, otherwise the stored hash would be this very key
+const deriveWrappingKey = async (password: string, salt: string, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+// --- User Keys ---
+
+const wrapRawUserKey = async (raw: Uint8Array, password: string): Promise<WrappedUserKey> => {
+    const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+    const wrappingKey = await deriveWrappingKey(password, salt, KEY_ITERATIONS);
+    return { salt, iterations: KEY_ITERATIONS, key: await encryptBytes(wrappingKey, raw) };
+};
+
+// Throws when the password is not the one the key was wrapped with (AES-GCM rejects the tag)
+const unwrapRawUserKey = async (wrapped: WrappedUserKey, password: string): Promise<Uint8Array> => {
+    const wrappingKey = await deriveWrappingKey(password, wrapped.salt, wrapped.iterations);
+    try {
+        return await decryptBytes(wrappingKey, wrapped.key);
+    } catch {
+        throw new Error('Senha incorreta para a chave de criptografia.');
+    }
+};
+
+export const createUserKey = (password: string): Promise<WrappedUserKey> =>
+    wrapRawUserKey(crypto.getRandomValues(new Uint8Array(32)), password);
+
+export const unwrapUserKey = async (wrapped: WrappedUserKey, password: string): Promise<CryptoKey> =>
+    importAesKey(await unwrapRawUserKey(wrapped, password));
+
+// Same key under a new password, so files encrypted so far stay readable
+export const rewrapUserKey = async (wrapped: WrappedUserKey, currentPassword: string, newPassword: string): Promise<WrappedUserKey> =>
+    wrapRawUserKey(await unwrapRawUserKey(wrapped, currentPassword), newPassword);
+
+// --- File Keys ---
+
+// Parameters for a new file; the plaintext chunk size leaves room for the tag so every
+// encrypted part is exactly partSize bytes (Drive needs parts in multiples of 256 KB)
+export const createFileEncryption = async (userKey: CryptoKey, partSize: number): Promise<FileEncryption> => ({
+    algorithm: 'AES-GCM',
+    wrappedKey: await encryptBytes(userKey, crypto.getRandomValues(new Uint8Array(32))),
+    noncePrefix: toBase64(crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_BYTES))),
+    chunkSize: partSize - GCM_TAG_BYTES,
+});
+
+export const unwrapFileKey = async (userKey: CryptoKey, encryption: FileEncryption): Promise<CryptoKey> =>
+    importAesKey(await decryptBytes(userKey, encryption.wrappedKey));
+
+// The raw file key as carried in a share link's fragment
+export const exportFileKey = async (userKey: CryptoKey, encryption: FileEncryption): Promise<string> =>
+    toBase64Url(await decryptBytes(userKey, encryption.wrappedKey));
+
+export const importFileKey = (value: string): Promise<CryptoKey> => importAesKey(fromBase64Url(value));
+
+// --- Content ---
+
+const chunkIv = (encryption: FileEncryption, index: number) => {
+    const iv = new Uint8Array(12);
+    iv.set(fromBase64(encryption.noncePrefix));
+    new DataView(iv.buffer).setUint32(NONCE_PREFIX_BYTES, index);
+    return iv;
+};
+
+export const encryptChunk = async (fileKey: CryptoKey, encryption: FileEncryption, index: number, chunk: Blob): Promise<Blob> => {
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: chunkIv(encryption, index) }, fileKey, await chunk.arrayBuffer());
+    return new Blob([data]);
+};
+
+// Decrypts a whole stored object. `size` is the plaintext size from the file record: checking the
+// ciphertext length against it catches chunks dropped from the end, which GCM alone would not.
+export const decryptContent = async (fileKey: CryptoKey, encryption: FileEncryption, data: Blob, size: number, type: string): Promise<Blob> => {
+    const chunks = Math.max(1, Math.ceil(size / encryption.chunkSize));
+    if (data.size !== size + chunks * GCM_TAG_BYTES) throw new Error('O conteúdo criptografado está incompleto ou corrompido.');
+    const stride = encryption.chunkSize + GCM_TAG_BYTES;
+    const parts: ArrayBuffer[] = [];
+    try {
+        for (let index = 0; index < chunks; index++) {
+            const chunk = await data.slice(index * stride, (index + 1) * stride).arrayBuffer();
+            parts.push(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: chunkIv(encryption, index) }, fileKey, chunk));
+        }
+    } catch {
+        throw new Error('Não foi possível descriptografar o arquivo: chave incorreta ou conteúdo corrompido.');
+    }
+    return new Blob(parts, { type });
+};
@@ -0,0 +1,10 @@
+import { FileType } from '../types';
+
+export const getFileType = (mimeType: string): FileType => {
+  if (mimeType.startsWith('image/')) return FileType.IMAGE;
+  if (mimeType.startsWith('video/')) return FileType.VIDEO;
+  if (mimeType.startsWith('audio/')) return FileType.AUDIO;
+  if (mimeType.includes('pdf') || mimeType.includes('text') || mimeType.includes('document')) return FileType.DOCUMENT;
+  if (mimeType.includes('zip') || mimeType.includes('rar') || mimeType.includes('7z')) return FileType.ARCHIVE;
+  return FileType.UNKNOWN;
+};
@@ -0,0 +1,99 @@
+import { Actor, CloudFolder } from '../types';
+import { addFolderToDB, getFolder, getFoldersFromDB } from './db';
+
+// A file picked from a dropped/selected directory, with the folders leading to it
+export interface NestedFile {
+    file: File;
+    path: string[]; // Directory names from the drop root down to the file's folder
+}
+
+// --- Collecting Files ---
+
+const readAllEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+    new Promise((resolve, reject) => {
+        const entries: FileSystemEntry[] = [];
+        // readEntries returns results in batches (about 100 in Chrome) until it yields an empty one
+        const readBatch = () => reader.readEntries(batch => {
+            if (batch.length === 0) {
+                resolve(entries);
+            } else {
+                entries.push(...batch);
+                readBatch();
+            }
+        }, reject);
+        readBatch();
+    });
+
+const walkEntry = async (entry: FileSystemEntry, path: string[], out: NestedFile[]): Promise<void> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        out.push({ file, path });
+    } else if (entry.isDirectory) {
+        const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+        for (const child of children) {
+            await walkEntry(child, [...path, entry.name], out);
+        }
+    }
+};
+
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<NestedFile[]> => {
+    // Entries must be grabbed synchronously: the DataTransfer is emptied once the event handler returns
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry());
+
+    if (entries.every(entry => !entry)) {
+        // Browsers without the entries API only expose the top-level files
+        return Array.from(dataTransfer.files).map(file => ({ file, path: [] }));
+    }
+
+    const out: NestedFile[] = [];
+    for (const entry of entries) {
+        if (entry) await walkEntry(entry, [], out);
+    }
+    return out;
+};
+
+// Files from an <input webkitdirectory>, which carry their path in webkitRelativePath
+export const filesFromDirectoryInput = (files: FileList): NestedFile[] =>
+    Array.from(files).map(file => {
+        const segments = (file.webkitRelativePath || file.name).split('/');
+        return { file, path: segments.slice(0, -1) };
+    });
+
+// --- Recreating the Tree ---
+
+// Creates the CloudFolder hierarchy under parentId, reusing folders that already exist
+// with the same name, and returns the folder id for every directory path ('a/b' -> id)
+export const ensureFolderTree = async (actor: Actor, items: NestedFile[], parentId: string): Promise<Map<string, string>> => {
+    const folderIds = new Map<string, string>([['', parentId]]);
+    // New folders belong to whoever owns the target folder, which may have been shared with the actor
+    const ownerId = parentId === 'root' ? actor.id : (await getFolder(actor, parentId)).ownerId;
+    const paths = Array.from(new Set(items.flatMap(item =>
+        item.path.map((_, i) => item.path.slice(0, i + 1).join('/'))
+    ))).sort((a, b) => a.split('/').length - b.split('/').length);
+
+    for (const path of paths) {
+        const segments = path.split('/');
+        const name = segments[segments.length - 1];
+        const parent = folderIds.get(segments.slice(0, -1).join('/'))!;
+
+        const existing = (await getFoldersFromDB(actor, parent)).find(f => f.name === name);
+        if (existing) {
+            folderIds.set(path, existing.id);
+            continue;
+        }
+
+        const folder: CloudFolder = {
+            id: `f-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+            name,
+            parentId: parent,
+            createdAt: new Date().toISOString(),
+            ownerId
+        };
+        await addFolderToDB(actor, folder);
+        folderIds.set(path, folder.id);
+    }
+
+    return folderIds;
+};
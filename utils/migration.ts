@@ -0,0 +1,59 @@
+import { Actor, CDNConfig, CloudFile, MigrationState } from '../types';
+import { getAllFilesGlobal } from './db';
+import { migrateFile } from './storage';
+
+// Every file (trashed ones included) whose bytes are not on the given provider yet. The provider
+// id is enough: saveProviderConfig won't move a provider to another location while files live on it.
+export const getFilesToMigrate = async (actor: Actor, config: CDNConfig): Promise<CloudFile[]> => {
+    const files = await getAllFilesGlobal(actor);
+    return files.filter(f => (f.storageProvider || 'local') !== config.provider);
+};
+
+// Copies files one at a time so the job can pause between files. Records are repointed
+// as each copy succeeds, so a job interrupted by a reload just finds fewer files next time.
+export const createMigrationJob = (actor: Actor, config: CDNConfig, onUpdate: (state: MigrationState) => void) => {
+    let files: CloudFile[] = [];
+    let index = 0;
+    let pauseRequested = false;
+    let state: MigrationState = { status: 'idle', target: config.provider, total: 0, completed: 0, failures: [] };
+
+    const emit = (updates: Partial<MigrationState>) => {
+        state = { ...state, ...updates };
+        onUpdate(state);
+    };
+
+    const run = async () => {
+        emit({ status: 'running' });
+        while (index < files.length) {
+            if (pauseRequested) {
+                emit({ status: 'paused', current: undefined });
+                return;
+            }
+            const file = files[index];
+            emit({ current: file.name });
+            try {
+                await migrateFile(actor, file, config);
+            } catch (e: any) {
+                emit({ failures: [...state.failures, { fileId: file.id, fileName: file.name, error: e?.message || String(e) }] });
+            }
+            index++;
+            emit({ completed: index });
+        }
+        emit({ status: 'done', current: undefined });
+    };
+
+    return {
+        start: async () => {
+            files = await getFilesToMigrate(actor, config);
+            index = 0;
+            emit({ total: files.length, completed: 0, failures: [] });
+            await run();
+        },
+        pause: () => { pauseRequested = true; },
+        resume: async () => {
+            if (state.status !== 'paused') return;
+            pauseRequested = false;
+            await run();
+        },
+    };
+};
@@ -0,0 +1,34 @@
+import { PasswordHash } from '../types';
+import { toBase64, fromBase64 } from './encoding';
+
+// Salted PBKDF2-SHA256 hashes. The iteration count is stored with each hash so it can be
+// raised later: verifyPassword reports hashes below the current count as needing a rehash.
+
+export const PASSWORD_ITERATIONS = 310000;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+    return new Uint8Array(bits);
+};
+
+// Compares every byte so the time taken doesn't reveal how much of the hash matched
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+    return diff === 0;
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const hash = await derive(password, salt, PASSWORD_ITERATIONS);
+    return { algorithm: 'PBKDF2-SHA256', salt: toBase64(salt), iterations: PASSWORD_ITERATIONS, hash: toBase64(hash) };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<{ valid: boolean; needsRehash: boolean }> => {
+    const hash = await derive(password, fromBase64(stored.salt), stored.iterations);
+    const valid = constantTimeEqual(hash, fromBase64(stored.hash));
+    return { valid, needsRehash: valid && stored.iterations < PASSWORD_ITERATIONS };
+};
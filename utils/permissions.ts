@@ -0,0 +1,81 @@
+import { Actor, PermissionAction, ShareRole, TokenScope } from '../types';
+
+// Thrown by data operations when the acting user may not touch the record. The UI checks for it
+// with instanceof and shows the message instead of treating it as a crash.
+export class ForbiddenError extends Error {
+    readonly action: PermissionAction;
+    readonly resourceId?: string;
+
+    constructor(action: PermissionAction, resourceId?: string, message = 'Você não tem permissão para esta ação.') {
+        super(message);
+        this.name = 'ForbiddenError';
+        this.action = action;
+        this.resourceId = resourceId;
+    }
+}
+
+export class NotFoundError extends Error {
+    readonly resourceId: string;
+
+    constructor(resourceId: string, message = 'Item não encontrado.') {
+        super(message);
+        this.name = 'NotFoundError';
+        this.resourceId = resourceId;
+    }
+}
+
+// Access tokens never carry admin powers, even when an admin created them
+export const isAdmin = (actor: Actor) => actor.role === 'admin' && !actor.scopes;
+
+// Scope a personal access token needs for each action
+const TOKEN_SCOPES: Record<PermissionAction, TokenScope | null> = {
+    read: 'read',
+    write: 'write',
+    delete: 'write',
+    share: 'share',
+    admin: null,
+};
+
+const hasScope = (actor: Actor, action: PermissionAction) => {
+    if (!actor.scopes) return true;
+    const scope = TOKEN_SCOPES[action];
+    return scope !== null && actor.scopes.includes(scope);
+};
+
+export const assertScope = (actor: Actor, action: PermissionAction) => {
+    if (!hasScope(actor, action)) throw new ForbiddenError(action, undefined, 'Este token de acesso não tem permissão para esta ação.');
+};
+
+// What a user may do with an item someone else shared with them
+const ROLE_ACTIONS: Record<ShareRole, PermissionAction[]> = {
+    viewer: ['read'],
+    editor: ['read', 'write'],
+};
+
+// Owners may do anything with their items. Admins may look at and delete anyone's (moderation),
+// but not write into, trash or share someone else's drive. `role` is the actor's grant on the
+// item, if any, as resolved by the data layer.
+export const canAccess = (actor: Actor, resource: { ownerId: string }, action: PermissionAction, role?: ShareRole | null): boolean => {
+    if (!hasScope(actor, action)) return false;
+    if (resource.ownerId === actor.id) return true;
+    if (role && ROLE_ACTIONS[role].includes(action)) return true;
+    return isAdmin(actor) && (action === 'read' || action === 'delete');
+};
+
+export const assertCanAccess = (actor: Actor, resource: { id: string; ownerId: string }, action: PermissionAction, role?: ShareRole | null) => {
+    if (!canAccess(actor, resource, action, role)) throw new ForbiddenError(action, resource.id);
+};
+
+export const assertAdmin = (actor: Actor) => {
+    if (!isAdmin(actor)) throw new ForbiddenError('admin', undefined, 'Apenas administradores podem realizar esta ação.');
+};
+
+export const assertSelfOrAdmin = (actor: Actor, userId: string) => {
+    if (actor.id !== userId && !isAdmin(actor)) throw new ForbiddenError('write', userId);
+};
+
+// Message for any error a data operation can raise (typed errors, plain strings or DOMExceptions)
+export const describeError = (err: unknown): string => {
+    if (err instanceof Error) return err.message;
+    return String(err);
+};
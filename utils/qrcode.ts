@@ -0,0 +1,269 @@
+// Minimal QR Code encoder (ISO/IEC 18004): byte mode, error correction level M, versions 1-10.
+// That is up to 213 bytes, plenty for an otpauth:// URI, and keeps TOTP secrets from being
+// sent to a third-party QR image service.
+
+// Level M parameters, indexed by version
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const MAX_VERSION = 10;
+const FORMAT_ECC_BITS = 0; // Level M
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+const getNumRawDataModules = (version: number) => {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const numAlign = Math.floor(version / 7) + 2;
+        result -= (25 * numAlign - 10) * numAlign - 55;
+        if (version >= 7) result -= 36;
+    }
+    return result;
+};
+
+const getNumDataCodewords = (version: number) =>
+    Math.floor(getNumRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+
+const getAlignmentPositions = (version: number): number[] => {
+    if (version === 1) return [];
+    const numAlign = Math.floor(version / 7) + 2;
+    const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+    const result = [6];
+    for (let pos = version * 4 + 10; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+    return result;
+};
+
+// --- Reed-Solomon over GF(2^8), polynomial 0x11D ---
+
+const gfMultiply = (x: number, y: number) => {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11D);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+    const result = new Array(degree).fill(0);
+    result[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = gfMultiply(result[j], root);
+            if (j + 1 < result.length) result[j] ^= result[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+    return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+    const result = divisor.map(() => 0);
+    for (const b of data) {
+        const factor = b ^ result.shift()!;
+        result.push(0);
+        divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+    }
+    return result;
+};
+
+// --- Codewords ---
+
+const encodeData = (bytes: Uint8Array, version: number): number[] => {
+    const capacityBits = getNumDataCodewords(version) * 8;
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    append(0b0100, 4); // Byte mode
+    append(bytes.length, version <= 9 ? 8 : 16);
+    bytes.forEach(b => append(b, 8));
+    append(0, Math.min(4, capacityBits - bits.length)); // Terminator
+    append(0, (8 - bits.length % 8) % 8);
+    for (let pad = 0xEC; bits.length < capacityBits; pad ^= 0xEC ^ 0x11) append(pad, 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+    }
+    return codewords;
+};
+
+// Splits into blocks, appends each block's ECC and interleaves the result
+const addEccAndInterleave = (data: number[], version: number): number[] => {
+    const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+    const eccLen = ECC_CODEWORDS_PER_BLOCK[version];
+    const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+    const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+    const shortDataLen = Math.floor(rawCodewords / numBlocks) - eccLen;
+    const divisor = reedSolomonDivisor(eccLen);
+
+    const dataBlocks: number[][] = [];
+    const eccBlocks: number[][] = [];
+    for (let i = 0, k = 0; i < numBlocks; i++) {
+        const block = data.slice(k, k + shortDataLen + (i < numShortBlocks ? 0 : 1));
+        k += block.length;
+        dataBlocks.push(block);
+        eccBlocks.push(reedSolomonRemainder(block, divisor));
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i <= shortDataLen; i++) {
+        dataBlocks.forEach(block => { if (i < block.length) result.push(block[i]); });
+    }
+    for (let i = 0; i < eccLen; i++) eccBlocks.forEach(block => result.push(block[i]));
+    return result;
+};
+
+// --- Matrix ---
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (_x, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => x * y % 2 + x * y % 3 === 0,
+    (x, y) => (x * y % 2 + x * y % 3) % 2 === 0,
+    (x, y) => ((x + y) % 2 + x * y % 3) % 2 === 0,
+];
+
+const buildMatrix = (codewords: number[], version: number, mask: number): boolean[][] => {
+    const size = version * 4 + 17;
+    const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    const setFunction = (x: number, y: number, dark: boolean) => {
+        modules[y][x] = dark;
+        isFunction[y][x] = true;
+    };
+
+    // Timing patterns
+    for (let i = 0; i < size; i++) {
+        setFunction(6, i, i % 2 === 0);
+        setFunction(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their separators
+    [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const x = cx + dx, y = cy + dy;
+                const dist = Math.max(Math.abs(dx), Math.abs(dy));
+                if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, dist !== 2 && dist !== 4);
+            }
+        }
+    });
+
+    // Alignment patterns, skipping the three that would overlap finders
+    const positions = getAlignmentPositions(version);
+    positions.forEach((cy, i) => positions.forEach((cx, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === positions.length - 1) || (i === positions.length - 1 && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+    }));
+
+    // Format information (both copies) and the always-dark module
+    const formatData = (FORMAT_ECC_BITS << 3) | mask;
+    let rem = formatData;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const formatBits = ((formatData << 10) | rem) ^ 0x5412;
+    for (let i = 0; i <= 5; i++) setFunction(8, i, getBit(formatBits, i));
+    setFunction(8, 7, getBit(formatBits, 6));
+    setFunction(8, 8, getBit(formatBits, 7));
+    setFunction(7, 8, getBit(formatBits, 8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, getBit(formatBits, i));
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, getBit(formatBits, i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, getBit(formatBits, i));
+    setFunction(8, size - 8, true);
+
+    // Version information, from version 7 on
+    if (version >= 7) {
+        let vrem = version;
+        for (let i = 0; i < 12; i++) vrem = (vrem << 1) ^ ((vrem >>> 11) * 0x1F25);
+        const versionBits = (version << 12) | vrem;
+        for (let i = 0; i < 18; i++) {
+            const a = size - 11 + i % 3, b = Math.floor(i / 3);
+            setFunction(a, b, getBit(versionBits, i));
+            setFunction(b, a, getBit(versionBits, i));
+        }
+    }
+
+    // Data in the zigzag order, two columns at a time from the bottom right
+    let bitIndex = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+        if (right === 6) right = 5;
+        for (let vert = 0; vert < size; vert++) {
+            for (let j = 0; j < 2; j++) {
+                const x = right - j;
+                const y = ((right + 1) & 2) === 0 ? size - 1 - vert : vert;
+                if (isFunction[y][x]) continue;
+                if (bitIndex < codewords.length * 8) {
+                    modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+                    bitIndex++;
+                }
+                if (MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+            }
+        }
+    }
+    return modules;
+};
+
+// Penalty score from the spec, used to pick the mask that scans best
+const penalty = (modules: boolean[][]): number => {
+    const size = modules.length;
+    let score = 0;
+    const lines = [
+        ...modules,
+        ...modules.map((_, x) => modules.map(row => row[x])),
+    ];
+    for (const line of lines) {
+        // Runs of five or more same-colour modules
+        let run = 1;
+        for (let i = 1; i <= size; i++) {
+            if (i < size && line[i] === line[i - 1]) {
+                run++;
+            } else {
+                if (run >= 5) score += run - 2;
+                run = 1;
+            }
+        }
+        // Finder-like 1:1:3:1:1 patterns with four light modules on either side
+        const text = line.map(d => (d ? '1' : '0')).join('');
+        for (const pattern of ['10111010000', '00001011101']) {
+            for (let i = text.indexOf(pattern); i !== -1; i = text.indexOf(pattern, i + 1)) score += 40;
+        }
+    }
+    // 2x2 blocks of the same colour
+    for (let y = 0; y < size - 1; y++) {
+        for (let x = 0; x < size - 1; x++) {
+            const c = modules[y][x];
+            if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3;
+        }
+    }
+    // Balance of dark and light modules
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    score += Math.floor(Math.abs(dark * 20 - size * size * 10) / (size * size)) * 10;
+    return score;
+};
+
+// Returns the module matrix (true = dark), row by row, without the quiet zone
+export const encodeQrCode = (text: string): boolean[][] => {
+    const bytes = new TextEncoder().encode(text);
+    let version = 1;
+    while (version <= MAX_VERSION && 4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > getNumDataCodewords(version) * 8) version++;
+    if (version > MAX_VERSION) throw new Error('Texto longo demais para o QR Code.');
+
+    const codewords = addEccAndInterleave(encodeData(bytes, version), version);
+    let best: boolean[][] = [];
+    let bestScore = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+        const modules = buildMatrix(codewords, version, mask);
+        const score = penalty(modules);
+        if (score < bestScore) {
+            best = modules;
+            bestScore = score;
+        }
+    }
+    return best;
+};
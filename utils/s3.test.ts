@@ -0,0 +1,120 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { CDNConfig } from '../types';
+import { MockS3, startMockS3 } from '../test/mockS3';
+import {
+    abortMultipartUpload, completeMultipartUpload, createMultipartUpload, deleteObject, getObject,
+    listObjects, presignGetObject, putObject, uploadPart,
+} from './s3';
+
+const options = { accessKey: 'AKIDEXAMPLE', secretKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY', region: 'eu-central-1', bucket: 'media', pageSize: 2 };
+
+let server: MockS3;
+let config: CDNConfig;
+
+beforeAll(async () => {
+    server = await startMockS3(options);
+    config = { provider: 'aws', endpoint: server.endpoint, region: options.region, bucket: options.bucket, accessKey: options.accessKey, secretKey: options.secretKey };
+});
+
+afterAll(() => server.close());
+
+afterEach(() => {
+    vi.useRealTimers();
+    server.objects.clear();
+    server.uploads.clear();
+});
+
+const text = (blob: Blob | undefined) => blob?.text();
+
+describe('S3 client against a local SigV4-checking stand-in', () => {
+    it('puts, gets and deletes objects with keys that need encoding', async () => {
+        const key = 'pastas/relatório anual (v2)/mês*1.txt';
+        await putObject(config, key, new Blob(['olá'], { type: 'text/plain' }));
+        expect(server.objects.get(key)?.toString()).toBe('olá');
+        expect(await text(await getObject(config, key))).toBe('olá');
+
+        await deleteObject(config, key);
+        expect(server.objects.has(key)).toBe(false);
+        expect(await getObject(config, key)).toBeUndefined();
+    });
+
+    it('fails with the S3 error code when the signature does not match', async () => {
+        await expect(putObject({ ...config, secretKey: 'wrong' }, 'a.txt', new Blob(['x'])))
+            .rejects.toThrow('HTTP 403 SignatureDoesNotMatch');
+        await expect(getObject({ ...config, accessKey: 'OTHER' }, 'a.txt')).rejects.toThrow('InvalidAccessKeyId');
+    });
+
+    it('assembles a multipart upload from its parts in order', async () => {
+        const key = 'videos/grande.bin';
+        const uploadId = await createMultipartUpload(config, key, 'application/octet-stream');
+        const second = await uploadPart(config, key, uploadId, 2, new Blob(['-parte dois']));
+        const first = await uploadPart(config, key, uploadId, 1, new Blob(['parte um']));
+        expect(first.etag).toMatch(/^"[0-9a-f]{32}"$/);
+
+        await completeMultipartUpload(config, key, uploadId, [first, second]);
+        expect(server.objects.get(key)?.toString()).toBe('parte um-parte dois');
+        expect(server.uploads.has(uploadId)).toBe(false);
+    });
+
+    it('refuses to complete with an ETag the bucket never issued', async () => {
+        const key = 'videos/corrompido.bin';
+        const uploadId = await createMultipartUpload(config, key, 'application/octet-stream');
+        const part = await uploadPart(config, key, uploadId, 1, new Blob(['dados']));
+        await expect(completeMultipartUpload(config, key, uploadId, [{ ...part, etag: '"0000"' }]))
+            .rejects.toThrow('InvalidPart');
+        expect(server.objects.has(key)).toBe(false);
+
+        await abortMultipartUpload(config, key, uploadId);
+        expect(server.uploads.has(uploadId)).toBe(false);
+    });
+
+    it('follows ListObjectsV2 continuation tokens across pages', async () => {
+        for (const name of ['a', 'b', 'c', 'd', 'e']) server.objects.set(`docs/${name}.txt`, Buffer.from(name));
+        server.objects.set('outros/z.txt', Buffer.from('z'));
+        const before = server.requests.length;
+
+        const listed = await listObjects(config, 'docs/');
+        expect(listed.map(o => o.key)).toEqual(['docs/a.txt', 'docs/b.txt', 'docs/c.txt', 'docs/d.txt', 'docs/e.txt']);
+        expect(listed[0]).toMatchObject({ size: 1, lastModified: '2024-01-01T00:00:00.000Z' });
+        expect(server.requests.slice(before).filter(r => r.method === 'GET')).toHaveLength(3);
+    });
+
+    describe('presigned GET URLs', () => {
+        it('download without credentials and carry the file name', async () => {
+            server.objects.set('arquivos/abc', Buffer.from('conteúdo'));
+            const url = await presignGetObject(config, 'arquivos/abc', { fileName: 'Relatório final.pdf' });
+
+            const res = await fetch(url);
+            expect(res.status).toBe(200);
+            expect(await res.text()).toBe('conteúdo');
+            expect(res.headers.get('Content-Disposition')).toBe("attachment; filename*=UTF-8''Relat%C3%B3rio%20final.pdf");
+        });
+
+        it('are rejected once tampered with', async () => {
+            server.objects.set('arquivos/abc', Buffer.from('x'));
+            const url = new URL(await presignGetObject(config, 'arquivos/abc'));
+            url.pathname = '/media/arquivos/outro';
+            expect((await fetch(url)).status).toBe(403);
+        });
+
+        it('expire after expiresIn', async () => {
+            server.objects.set('arquivos/abc', Buffer.from('x'));
+            vi.useFakeTimers({ toFake: ['Date'] });
+            vi.setSystemTime(Date.now() - 120_000);
+            const url = await presignGetObject(config, 'arquivos/abc', { expiresIn: 60 });
+            vi.useRealTimers();
+
+            const res = await fetch(url);
+            expect(res.status).toBe(403);
+            expect(await res.text()).toContain('Request has expired');
+        });
+
+        it('clamp expiresIn to the seven days SigV4 allows', async () => {
+            server.objects.set('arquivos/abc', Buffer.from('x'));
+            const url = await presignGetObject(config, 'arquivos/abc', { expiresIn: 30 * 24 * 60 * 60 });
+            expect(new URL(url).searchParams.get('X-Amz-Expires')).toBe('604800');
+            expect((await fetch(url)).status).toBe(200);
+        });
+    });
+});
@@ -0,0 +1,284 @@
+import { CDNConfig, StorageObject, UploadedPart, PartUploadOptions } from '../types';
+import { sha256Hex, toHex } from './encoding';
+
+// Minimal S3 client (AWS Signature Version 4) for AWS, Wasabi and any
+// S3-compatible endpoint such as a local MinIO. Uses path-style addressing
+// so custom endpoints like http://localhost:9000 work without DNS tricks.
+
+const SERVICE = 's3';
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60; // SigV4 upper bound
+
+export const DEFAULT_PRESIGN_SECONDS = 15 * 60;
+
+// --- Crypto Helpers ---
+
+const encoder = new TextEncoder();
+
+const hmac = async (key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> => {
+    const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+};
+
+const getSigningKey = async (secretKey: string, dateStamp: string, region: string) => {
+    const kDate = await hmac(encoder.encode(`AWS4${secretKey}`), dateStamp);
+    const kRegion = await hmac(kDate, region);
+    const kService = await hmac(kRegion, SERVICE);
+    return hmac(kService, 'aws4_request');
+};
+
+// RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+const uriEncode = (value: string) =>
+    encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string) => key.split('/').map(uriEncode).join('/');
+
+const canonicalQuery = (query: Record<string, string>) =>
+    Object.keys(query).sort().map(k => `${uriEncode(k)}=${uriEncode(query[k])}`).join('&');
+
+const toAmzDate = (date: Date) => date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+// --- Request Signing ---
+
+interface SignedRequestInput {
+    method: string;
+    key?: string;
+    query?: Record<string, string>;
+    headers?: Record<string, string>;
+}
+
+export const resolveS3Endpoint = (config: CDNConfig): string => {
+    if (config.endpoint) return config.endpoint.replace(/\/+$/, '');
+    const region = config.region || 'us-east-1';
+    return config.provider === 'wasabi'
+        ? `https://s3.${region}.wasabisys.com`
+        : `https://s3.${region}.amazonaws.com`;
+};
+
+const requireCredentials = (config: CDNConfig) => {
+    if (!config.bucket) throw new Error('Bucket não configurado para o provedor S3.');
+    if (!config.accessKey || !config.secretKey) throw new Error('Access Key e Secret Key são obrigatórias para o provedor S3.');
+    return { bucket: config.bucket, accessKey: config.accessKey, secretKey: config.secretKey, region: config.region || 'us-east-1' };
+};
+
+const buildUrl = (config: CDNConfig, bucket: string, key?: string) => {
+    const base = new URL(resolveS3Endpoint(config));
+    const basePath = base.pathname.replace(/\/+$/, '');
+    const path = `${basePath}/${uriEncode(bucket)}${key !== undefined ? `/${encodeKey(key)}` : ''}`;
+    return { host: base.host, origin: base.origin, path };
+};
+
+const signRequest = async (config: CDNConfig, input: SignedRequestInput) => {
+    const { bucket, accessKey, secretKey, region } = requireCredentials(config);
+    const { host, origin, path } = buildUrl(config, bucket, input.key);
+    const now = new Date();
+    const amzDate = toAmzDate(now);
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${region}/${SERVICE}/aws4_request`;
+
+    const headers: Record<string, string> = {
+        ...Object.fromEntries(Object.entries(input.headers || {}).map(([k, v]) => [k.toLowerCase(), v.trim()])),
+        host,
+        'x-amz-date': amzDate,
+        'x-amz-content-sha256': UNSIGNED_PAYLOAD,
+    };
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalHeaders = signedHeaderNames.map(h => `${h}:${headers[h]}\n`).join('');
+    const signedHeaders = signedHeaderNames.join(';');
+    const query = canonicalQuery(input.query || {});
+
+    const canonicalRequest = [input.method, path, query, canonicalHeaders, signedHeaders, UNSIGNED_PAYLOAD].join('\n');
+    const stringToSign = [ALGORITHM, amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+    const signature = toHex(await hmac(await getSigningKey(secretKey, dateStamp, region), stringToSign));
+
+    // Browsers derive Host from the URL and refuse to let us set it
+    const { host: _host, ...sendHeaders } = headers;
+    return {
+        url: `${origin}${path}${query ? `?${query}` : ''}`,
+        headers: {
+            ...sendHeaders,
+            Authorization: `${ALGORITHM} Credential=${accessKey}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        },
+    };
+};
+
+// Time-limited GET URL that can be handed to the browser or a share recipient
+export const presignGetObject = async (
+    config: CDNConfig,
+    key: string,
+    options: { expiresIn?: number; fileName?: string } = {}
+): Promise<string> => {
+    const { bucket, accessKey, secretKey, region } = requireCredentials(config);
+    const { host, origin, path } = buildUrl(config, bucket, key);
+    const amzDate = toAmzDate(new Date());
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${region}/${SERVICE}/aws4_request`;
+    const expiresIn = Math.min(Math.max(1, Math.floor(options.expiresIn ?? DEFAULT_PRESIGN_SECONDS)), MAX_PRESIGN_SECONDS);
+
+    const query: Record<string, string> = {
+        'X-Amz-Algorithm': ALGORITHM,
+        'X-Amz-Credential': `${accessKey}/${scope}`,
+        'X-Amz-Date': amzDate,
+        'X-Amz-Expires': String(expiresIn),
+        'X-Amz-SignedHeaders': 'host',
+    };
+    if (options.fileName) {
+        query['response-content-disposition'] = `attachment; filename*=UTF-8''${uriEncode(options.fileName)}`;
+    }
+
+    const canonicalRequest = ['GET', path, canonicalQuery(query), `host:${host}\n`, 'host', UNSIGNED_PAYLOAD].join('\n');
+    const stringToSign = [ALGORITHM, amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+    const signature = toHex(await hmac(await getSigningKey(secretKey, dateStamp, region), stringToSign));
+
+    return `${origin}${path}?${canonicalQuery({ ...query, 'X-Amz-Signature': signature })}`;
+};
+
+// --- Object Operations ---
+
+const s3Error = async (res: Response, action: string) => {
+    // S3 returns an XML body with <Code> and <Message>; surface it when present
+    const body = await res.text().catch(() => '');
+    const code = body.match(/<Code>([^<]*)<\/Code>/)?.[1];
+    return new Error(`Falha ao ${action} (HTTP ${res.status}${code ? ` ${code}` : ''})`);
+};
+
+export const putObject = async (config: CDNConfig, key: string, data: Blob): Promise<void> => {
+    const { url, headers } = await signRequest(config, {
+        method: 'PUT',
+        key,
+        headers: { 'Content-Type': data.type || 'application/octet-stream' },
+    });
+    const res = await fetch(url, { method: 'PUT', headers, body: data });
+    if (!res.ok) throw await s3Error(res, 'enviar objeto ao bucket');
+};
+
+export const getObject = async (config: CDNConfig, key: string): Promise<Blob | undefined> => {
+    const { url, headers } = await signRequest(config, { method: 'GET', key });
+    const res = await fetch(url, { headers });
+    if (res.status === 404) return undefined;
+    if (!res.ok) throw await s3Error(res, 'ler objeto do bucket');
+    return res.blob();
+};
+
+export const deleteObject = async (config: CDNConfig, key: string): Promise<void> => {
+    const { url, headers } = await signRequest(config, { method: 'DELETE', key });
+    const res = await fetch(url, { method: 'DELETE', headers });
+    if (!res.ok && res.status !== 404) throw await s3Error(res, 'remover objeto do bucket');
+};
+
+// --- Multipart Uploads ---
+
+const readXmlTag = (xml: string, tag: string) => xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1];
+
+export const createMultipartUpload = async (config: CDNConfig, key: string, contentType: string): Promise<string> => {
+    const { url, headers } = await signRequest(config, {
+        method: 'POST',
+        key,
+        query: { uploads: '' },
+        headers: { 'Content-Type': contentType || 'application/octet-stream' },
+    });
+    const res = await fetch(url, { method: 'POST', headers });
+    if (!res.ok) throw await s3Error(res, 'iniciar envio multipart');
+    const uploadId = readXmlTag(await res.text(), 'UploadId');
+    if (!uploadId) throw new Error('Resposta do bucket sem UploadId');
+    return uploadId;
+};
+
+// XHR instead of fetch: fetch exposes no upload progress events
+export const uploadPart = async (
+    config: CDNConfig,
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    data: Blob,
+    { onProgress, signal }: PartUploadOptions = {}
+): Promise<UploadedPart> => {
+    const { url, headers } = await signRequest(config, {
+        method: 'PUT',
+        key,
+        query: { partNumber: String(partNumber), uploadId },
+    });
+
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Envio cancelado', 'AbortError'));
+            return;
+        }
+        const xhr = new XMLHttpRequest();
+        signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+        xhr.open('PUT', url);
+        Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+        xhr.upload.onprogress = (e) => onProgress?.(e.loaded);
+        xhr.onload = () => {
+            if (xhr.status < 200 || xhr.status >= 300) {
+                const code = readXmlTag(xhr.responseText || '', 'Code');
+                reject(new Error(`Falha ao enviar parte ${partNumber} (HTTP ${xhr.status}${code ? ` ${code}` : ''})`));
+                return;
+            }
+            // The bucket's CORS rules must expose ETag, otherwise completion can't reference the part
+            const etag = xhr.getResponseHeader('ETag');
+            if (!etag) {
+                reject(new Error('ETag não exposto pelo bucket (verifique ExposeHeaders no CORS)'));
+                return;
+            }
+            onProgress?.(data.size);
+            resolve({ partNumber, etag });
+        };
+        xhr.onerror = () => reject(new Error(`Falha de rede ao enviar parte ${partNumber}`));
+        xhr.onabort = () => reject(new DOMException('Envio cancelado', 'AbortError'));
+        xhr.send(data);
+    });
+};
+
+export const completeMultipartUpload = async (config: CDNConfig, key: string, uploadId: string, parts: UploadedPart[]): Promise<void> => {
+    const body = '<CompleteMultipartUpload>' +
+        parts.map(p => `<Part><PartNumber>${p.partNumber}</PartNumber><ETag>${p.etag}</ETag></Part>`).join('') +
+        '</CompleteMultipartUpload>';
+    const { url, headers } = await signRequest(config, {
+        method: 'POST',
+        key,
+        query: { uploadId },
+        headers: { 'Content-Type': 'application/xml' },
+    });
+    const res = await fetch(url, { method: 'POST', headers, body });
+    // S3 can answer 200 with an <Error> body when assembly fails late
+    const text = await res.text();
+    if (!res.ok || text.includes('<Error>')) {
+        const code = readXmlTag(text, 'Code');
+        throw new Error(`Falha ao concluir envio multipart (HTTP ${res.status}${code ? ` ${code}` : ''})`);
+    }
+};
+
+export const abortMultipartUpload = async (config: CDNConfig, key: string, uploadId: string): Promise<void> => {
+    const { url, headers } = await signRequest(config, { method: 'DELETE', key, query: { uploadId } });
+    const res = await fetch(url, { method: 'DELETE', headers });
+    if (!res.ok && res.status !== 404) throw await s3Error(res, 'cancelar envio multipart');
+};
+
+// ListObjectsV2, following continuation tokens until the listing is complete
+export const listObjects = async (config: CDNConfig, prefix = ''): Promise<StorageObject[]> => {
+    const objects: StorageObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+        const query: Record<string, string> = { 'list-type': '2', prefix };
+        if (continuationToken) query['continuation-token'] = continuationToken;
+        const { url, headers } = await signRequest(config, { method: 'GET', query });
+        const res = await fetch(url, { headers });
+        if (!res.ok) throw await s3Error(res, 'listar objetos do bucket');
+
+        const xml = new DOMParser().parseFromString(await res.text(), 'application/xml');
+        xml.querySelectorAll('Contents').forEach(node => {
+            objects.push({
+                key: node.querySelector('Key')?.textContent || '',
+                size: Number(node.querySelector('Size')?.textContent || 0),
+                lastModified: node.querySelector('LastModified')?.textContent || undefined,
+            });
+        });
+        const truncated = xml.querySelector('IsTruncated')?.textContent === 'true';
+        continuationToken = truncated ? xml.querySelector('NextContinuationToken')?.textContent || undefined : undefined;
+    } while (continuationToken);
+
+    return objects;
+};
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Actor, CloudFile, SecretVault, StoredCDNConfig } from '../types';
+import { assertAdmin } from './permissions';
+
+// In-memory stand-in for the config store the vault reads and writes
+const config: {
+    cdn: StoredCDNConfig | null;
+    vault: SecretVault | null;
+    key: { cryptoKey: CryptoKey; expiresAt: number } | null;
+} = { cdn: null, vault: null, key: null };
+const files: CloudFile[] = [];
+
+vi.mock('./db', () => ({
+    getCDNConfig: async () => config.cdn,
+    saveCDNConfig: async (_actor: Actor, cdn: StoredCDNConfig, vault?: SecretVault) => {
+        config.cdn = cdn;
+        if (vault) config.vault = vault;
+    },
+    getSecretVault: async () => config.vault,
+    // Same expiry rule as db.getVaultKey
+    getVaultKey: async () => config.key && config.key.expiresAt > Date.now() ? config.key.cryptoKey : null,
+    saveVaultKey: async (_actor: Actor, key: CryptoKey | null, expiresAt?: number) => {
+        config.key = key && expiresAt ? { cryptoKey: key, expiresAt } : null;
+    },
+    recordAudit: async () => {},
+    getAllFilesGlobal: async () => files,
+    assertAdminAccess: async (actor: Actor) => assertAdmin(actor),
+}));
+
+const {
+    MASKED_SECRET, VAULT_UNLOCK_TTL_MS, VaultLockedError, getProviderConfig, isVaultUnlocked, lockVault, rotatePassphrase,
+    saveProviderConfig, setupVault, unlockVault,
+} = await import('./secrets');
+
+const admin: Actor = { id: 'u-admin', username: 'admin', role: 'admin' };
+const PASSPHRASE = 'correct horse battery';
+
+describe('provider credentials vault', () => {
+    beforeEach(async () => {
+        config.cdn = { provider: 'local' };
+        config.vault = null;
+        config.key = null;
+        files.length = 0;
+        await setupVault(admin, PASSPHRASE);
+        await saveProviderConfig(admin, { provider: 'aws', bucket: 'media', region: 'us-east-1', accessKey: 'AKID', secretKey: 'SECRET' });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('stores credentials encrypted', () => {
+        expect(JSON.stringify(config.cdn)).not.toContain('SECRET');
+    });
+
+    it('decrypts credentials while unlocked, for any caller', async () => {
+        const resolved = await getProviderConfig();
+        expect(resolved).toMatchObject({ provider: 'aws', accessKey: 'AKID', secretKey: 'SECRET' });
+    });
+
+    it('throws VaultLockedError for remote providers once locked', async () => {
+        await lockVault(admin);
+        expect(await isVaultUnlocked()).toBe(false);
+        await expect(getProviderConfig()).rejects.toBeInstanceOf(VaultLockedError);
+    });
+
+    it('keeps the local provider usable while locked', async () => {
+        await lockVault(admin);
+        await expect(getProviderConfig('local')).resolves.toMatchObject({ provider: 'local' });
+    });
+
+    it('stays unlocked across module state until the unlock expires', async () => {
+        vi.resetModules();
+        const fresh = await import('./secrets');
+        expect(await fresh.isVaultUnlocked()).toBe(true);
+        await expect(fresh.getProviderConfig()).resolves.toMatchObject({ secretKey: 'SECRET' });
+    });
+
+    it('locks itself once VAULT_UNLOCK_TTL_MS has passed since the unlock', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(Date.now() + VAULT_UNLOCK_TTL_MS - 1000);
+        expect(await isVaultUnlocked()).toBe(true);
+
+        vi.setSystemTime(Date.now() + 2000);
+        expect(await isVaultUnlocked()).toBe(false);
+        await expect(getProviderConfig()).rejects.toBeInstanceOf(VaultLockedError);
+
+        // A new unlock starts a fresh period
+        await unlockVault(admin, PASSPHRASE);
+        await expect(getProviderConfig()).resolves.toMatchObject({ accessKey: 'AKID' });
+    });
+
+    it('unlocks again with the passphrase, and only with it', async () => {
+        await lockVault(admin);
+        await expect(unlockVault(admin, 'wrong passphrase')).rejects.toThrow('Senha mestra incorreta.');
+        await unlockVault(admin, PASSPHRASE);
+        await expect(getProviderConfig()).resolves.toMatchObject({ accessKey: 'AKID' });
+    });
+
+    it('reaches files left on an earlier provider with that provider\'s own config', async () => {
+        await saveProviderConfig(admin, { provider: 'wasabi', endpoint: 'https://s3.wasabisys.com', bucket: 'novo', region: 'eu-central-1', accessKey: 'WKID', secretKey: 'WSECRET' });
+
+        await expect(getProviderConfig()).resolves.toMatchObject({ provider: 'wasabi', bucket: 'novo', accessKey: 'WKID' });
+        const previous = await getProviderConfig('aws');
+        expect(previous).toMatchObject({ provider: 'aws', bucket: 'media', region: 'us-east-1', accessKey: 'AKID', secretKey: 'SECRET' });
+        expect(previous.endpoint).toBeUndefined();
+        await expect(getProviderConfig('google_drive')).rejects.toThrow('Não há configuração salva para o provedor google_drive');
+    });
+
+    it('keeps every provider\'s credentials readable after the passphrase changes', async () => {
+        await saveProviderConfig(admin, { provider: 'local', rootPath: 'public/content' });
+        await rotatePassphrase(admin, PASSPHRASE, 'another long passphrase');
+        await expect(getProviderConfig('aws')).resolves.toMatchObject({ bucket: 'media', secretKey: 'SECRET' });
+    });
+
+    it('refuses to move a provider to another bucket while files still live on it', async () => {
+        files.push({ id: 'f1', name: 'a.txt', storageProvider: 'aws' } as CloudFile);
+        await expect(saveProviderConfig(admin, { provider: 'aws', bucket: 'outro', region: 'us-east-1', accessKey: MASKED_SECRET, secretKey: MASKED_SECRET }))
+            .rejects.toThrow('Ainda há 1 arquivo(s) no local anterior deste provedor');
+
+        // New credentials for the same bucket are fine
+        await saveProviderConfig(admin, { provider: 'aws', bucket: 'media', region: 'us-east-1', accessKey: 'AKID2', secretKey: MASKED_SECRET });
+        await expect(getProviderConfig()).resolves.toMatchObject({ accessKey: 'AKID2', secretKey: 'SECRET' });
+    });
+
+    it('refuses lock and unlock to non-admins', async () => {
+        const user: Actor = { id: 'u-1', username: 'ana', role: 'user' };
+        await expect(lockVault(user)).rejects.toThrow();
+        await expect(unlockVault(user, PASSPHRASE)).rejects.toThrow();
+    });
+});
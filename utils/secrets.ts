@@ -0,0 +1,277 @@
+import { Actor, CDNConfig, EncryptedSecret, SecretField, SecretVault, StorageProviderId, StoredCDNConfig, StoredProviderConfig } from '../types';
+import { getCDNConfig, saveCDNConfig, getSecretVault, getVaultKey, saveVaultKey, recordAudit, assertAdminAccess, getAllFilesGlobal } from './db';
+import { toBase64, fromBase64 } from './encoding';
+
+// Provider credentials are encrypted with AES-GCM under a key derived (PBKDF2) from a master
+// passphrase the admin types in. Once unlocked, the key is kept in the database as a
+// non-extractable CryptoKey, so every user, share link visitor and reload can use the remote
+// provider until an admin locks the vault again or VAULT_UNLOCK_TTL_MS runs out, whichever
+// comes first. The passphrase itself is never stored.
+
+export const SECRET_FIELDS: SecretField[] = ['accessKey', 'secretKey', 'clientSecret', 'refreshToken'];
+
+// Shown in the admin form in place of a stored secret; saving it back keeps the stored value
+export const MASKED_SECRET = '••••••••';
+
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PASSPHRASE_LENGTH = 8;
+const CHECK_PLAINTEXT = 'cloudfire-vault';
+
+// How long an unlock lasts before the stored key is dropped and the vault locks itself
+export const VAULT_UNLOCK_TTL_MS = 8 * 60 * 60 * 1000;
+
+const unlockExpiry = () => Date.now() + VAULT_UNLOCK_TTL_MS;
+
+// Thrown when a remote provider is needed while the vault is locked. The UI shows the message
+// as it is: visitors of a share link can't fix it, but they should know it isn't their link.
+export class VaultLockedError extends Error {
+    constructor(message = 'O armazenamento está indisponível no momento: um administrador precisa desbloquear as credenciais do provedor.') {
+        super(message);
+        this.name = 'VaultLockedError';
+    }
+}
+
+// --- Helpers ---
+
+const deriveKey = async (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const encryptSecret = async (key: CryptoKey, value: string): Promise<EncryptedSecret> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decryptSecret = async (key: CryptoKey, secret: EncryptedSecret): Promise<string> => {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.data));
+    return new TextDecoder().decode(data);
+};
+
+const createVault = async (passphrase: string): Promise<{ vault: SecretVault; key: CryptoKey }> => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`A senha mestra deve ter pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres.`);
+    }
+    const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return { vault: { salt, iterations: PBKDF2_ITERATIONS, check: await encryptSecret(key, CHECK_PLAINTEXT) }, key };
+};
+
+// Resolves with the vault key, or throws when the passphrase doesn't match
+const openVault = async (vault: SecretVault, passphrase: string): Promise<CryptoKey> => {
+    const key = await deriveKey(passphrase, vault.salt, vault.iterations);
+    try {
+        if (await decryptSecret(key, vault.check) === CHECK_PLAINTEXT) return key;
+    } catch {
+        // AES-GCM rejects the tag when the key is wrong
+    }
+    throw new Error('Senha mestra incorreta.');
+};
+
+const requireUnlockedKey = async (): Promise<CryptoKey> => {
+    const key = await getVaultKey();
+    if (!key) throw new VaultLockedError();
+    return key;
+};
+
+// Fields that decide where a provider keeps the bytes; credentials can change freely
+const LOCATION_FIELDS: (keyof CDNConfig)[] = ['endpoint', 'region', 'bucket', 'clientId'];
+
+// Configs saved before encryption existed kept the credentials in plain fields
+const plaintextSecrets = (config: StoredProviderConfig): Partial<Record<SecretField, string>> => {
+    const legacy = config as CDNConfig;
+    const found: Partial<Record<SecretField, string>> = {};
+    SECRET_FIELDS.forEach(field => { if (legacy[field]) found[field] = legacy[field]; });
+    return found;
+};
+
+const withoutPlaintext = <T extends StoredProviderConfig>(config: T): T => {
+    const copy = { ...config } as CDNConfig & T;
+    SECRET_FIELDS.forEach(field => { delete copy[field]; });
+    return copy;
+};
+
+// The stored config of one provider: the current one, or the last saved while it was current
+const savedConfigFor = (stored: StoredCDNConfig, provider: StorageProviderId): StoredProviderConfig | undefined => {
+    if (stored.provider === provider) {
+        const current: StoredCDNConfig = { ...stored };
+        delete current.providers;
+        return current;
+    }
+    return stored.providers?.[provider];
+};
+
+const sameLocation = (a: StoredProviderConfig, b: StoredProviderConfig) =>
+    LOCATION_FIELDS.every(field => String(a[field] || '').trim() === String(b[field] || '').trim());
+
+const decryptAll = async (key: CryptoKey, config: StoredProviderConfig): Promise<Partial<Record<SecretField, string>>> => {
+    const values = plaintextSecrets(config);
+    for (const field of SECRET_FIELDS) {
+        const secret = config.secrets?.[field];
+        if (secret) values[field] = await decryptSecret(key, secret);
+    }
+    return values;
+};
+
+const encryptAll = async (key: CryptoKey, values: Partial<Record<SecretField, string>>) => {
+    const secrets: Partial<Record<SecretField, EncryptedSecret>> = {};
+    for (const field of SECRET_FIELDS) {
+        const value = values[field];
+        if (value) secrets[field] = await encryptSecret(key, value);
+    }
+    return secrets;
+};
+
+// --- Vault State ---
+
+export const isVaultConfigured = async (): Promise<boolean> => !!(await getSecretVault());
+
+export const isVaultUnlocked = async (): Promise<boolean> => !!(await getVaultKey());
+
+export const lockVault = async (actor: Actor): Promise<void> => {
+    await assertAdminAccess(actor);
+    await saveVaultKey(actor, null);
+    await recordAudit(actor, 'config_save', { details: 'Cofre bloqueado' });
+};
+
+// First-time setup; also encrypts credentials left in plaintext by older versions
+export const setupVault = async (actor: Actor, passphrase: string): Promise<void> => {
+    await assertAdminAccess(actor);
+    if (await getSecretVault()) throw new Error('A senha mestra já foi definida. Use a troca de senha.');
+    const { vault, key } = await createVault(passphrase);
+    const config = (await getCDNConfig()) || { provider: 'local' };
+    const secrets = await encryptAll(key, plaintextSecrets(config));
+    await saveCDNConfig(actor, { ...withoutPlaintext(config), secrets: { ...config.secrets, ...secrets } }, vault);
+    await saveVaultKey(actor, key, unlockExpiry());
+    await recordAudit(actor, 'config_save', { details: 'Senha mestra definida' });
+};
+
+export const unlockVault = async (actor: Actor, passphrase: string): Promise<void> => {
+    await assertAdminAccess(actor);
+    const vault = await getSecretVault();
+    if (!vault) throw new Error('Nenhuma senha mestra foi definida ainda.');
+    await saveVaultKey(actor, await openVault(vault, passphrase), unlockExpiry());
+    await recordAudit(actor, 'config_save', { details: 'Cofre desbloqueado' });
+};
+
+// Re-encrypts every stored secret under a key derived from the new passphrase
+export const rotatePassphrase = async (actor: Actor, current: string, next: string): Promise<void> => {
+    await assertAdminAccess(actor);
+    const vault = await getSecretVault();
+    if (!vault) throw new Error('Nenhuma senha mestra foi definida ainda.');
+    const oldKey = await openVault(vault, current);
+    const config = (await getCDNConfig()) || { provider: 'local' };
+    const values = await decryptAll(oldKey, config);
+    const providerValues = await Promise.all(Object.entries(config.providers || {}).map(
+        async ([id, saved]) => [id, saved, await decryptAll(oldKey, saved)] as const
+    ));
+
+    const { vault: nextVault, key } = await createVault(next);
+    const providers: StoredCDNConfig['providers'] = {};
+    for (const [id, saved, secrets] of providerValues) {
+        providers[id as StorageProviderId] = { ...withoutPlaintext(saved), secrets: await encryptAll(key, secrets) };
+    }
+    await saveCDNConfig(actor, { ...withoutPlaintext(config), secrets: await encryptAll(key, values), providers }, nextVault);
+    await saveVaultKey(actor, key, unlockExpiry());
+    await recordAudit(actor, 'config_save', { details: 'Senha mestra alterada' });
+};
+
+// --- Config Access ---
+
+// The saved config as the admin form shows it: every stored secret replaced by MASKED_SECRET
+export const getMaskedCDNConfig = async (): Promise<CDNConfig> => {
+    const config = (await getCDNConfig()) || { provider: 'local' };
+    const masked: CDNConfig = withoutPlaintext(config);
+    delete (masked as StoredCDNConfig).secrets;
+    delete (masked as StoredCDNConfig).providers;
+    SECRET_FIELDS.forEach(field => {
+        if (config.secrets?.[field] || (config as CDNConfig)[field]) masked[field] = MASKED_SECRET;
+    });
+    return masked;
+};
+
+// Fills MASKED_SECRET placeholders in a form config with the stored (decrypted) values
+export const withStoredSecrets = async (actor: Actor, form: CDNConfig): Promise<CDNConfig> => {
+    await assertAdminAccess(actor);
+    if (!SECRET_FIELDS.some(field => form[field] === MASKED_SECRET)) return form;
+    const stored = (await getCDNConfig()) || { provider: 'local' };
+    const values = await decryptAll(await requireUnlockedKey(), stored);
+    const resolved = { ...form };
+    SECRET_FIELDS.forEach(field => {
+        if (resolved[field] === MASKED_SECRET) resolved[field] = values[field];
+    });
+    return resolved;
+};
+
+// Saves the admin form, encrypting new secrets and keeping masked ones as stored
+export const saveProviderConfig = async (actor: Actor, form: CDNConfig): Promise<void> => {
+    await assertAdminAccess(actor);
+    const stored = (await getCDNConfig()) || { provider: 'local' };
+    const legacy = plaintextSecrets(stored);
+    const toEncrypt: Partial<Record<SecretField, string>> = {};
+    const secrets: Partial<Record<SecretField, EncryptedSecret>> = {};
+    SECRET_FIELDS.forEach(field => {
+        const value = form[field];
+        if (value === MASKED_SECRET) {
+            if (stored.secrets?.[field]) secrets[field] = stored.secrets[field];
+            else if (legacy[field]) toEncrypt[field] = legacy[field];
+        } else if (value) {
+            toEncrypt[field] = value;
+        }
+    });
+
+    // Records only name the provider holding their bytes, so each provider has one location at a
+    // time: moving it (another bucket, region, endpoint or Drive app) would strand the files on it
+    const previous = savedConfigFor(stored, form.provider);
+    if (form.provider !== 'local' && previous && !sameLocation(previous, form)) {
+        const stranded = (await getAllFilesGlobal(actor)).filter(f => f.storageProvider === form.provider);
+        if (stranded.length > 0) {
+            throw new Error(`Ainda há ${stranded.length} arquivo(s) no local anterior deste provedor. Migre-os para outro provedor antes de trocar bucket, região, endpoint ou Client ID.`);
+        }
+    }
+
+    if (Object.keys(toEncrypt).length > 0) {
+        if (!(await getSecretVault())) throw new Error('Defina uma senha mestra antes de salvar credenciais.');
+        Object.assign(secrets, await encryptAll(await requireUnlockedKey(), toEncrypt));
+    }
+    const current: StoredProviderConfig = { ...withoutPlaintext(form), secrets };
+    const providers = { ...stored.providers };
+    const outgoing = savedConfigFor(stored, stored.provider);
+    if (outgoing && stored.provider !== 'local') providers[stored.provider] = withoutPlaintext(outgoing);
+    if (form.provider !== 'local') providers[form.provider] = current;
+    await saveCDNConfig(actor, { ...current, providers });
+    const changedSecrets = Object.keys(toEncrypt);
+    await recordAudit(actor, 'config_save', {
+        details: `Provedor: ${form.provider}` + (changedSecrets.length > 0 ? `; credenciais alteradas: ${changedSecrets.join(', ')}` : '')
+    });
+};
+
+// The saved config with credentials decrypted, for making provider calls. Asked for another
+// provider than the current one, it is that provider's own last saved config, since files left
+// there live in its bucket or account. Secrets are only touched when a remote provider is
+// involved; the local one works with the vault locked, remote ones throw VaultLockedError.
+export const getProviderConfig = async (provider?: CDNConfig['provider']): Promise<CDNConfig> => {
+    const stored = (await getCDNConfig()) || { provider: 'local' };
+    const id = provider || stored.provider;
+    if (id === 'local') {
+        const local: CDNConfig = { ...withoutPlaintext(stored), provider: 'local' };
+        delete (local as StoredCDNConfig).secrets;
+        delete (local as StoredCDNConfig).providers;
+        return local;
+    }
+
+    const saved = savedConfigFor(stored, id);
+    if (!saved) throw new Error(`Não há configuração salva para o provedor ${id}. Salve-a novamente para acessar os arquivos guardados nele.`);
+    const config: CDNConfig = { ...withoutPlaintext(saved), provider: id };
+    delete (config as StoredCDNConfig).secrets;
+    const hasEncrypted = SECRET_FIELDS.some(field => saved.secrets?.[field]);
+    const values = hasEncrypted ? await decryptAll(await requireUnlockedKey(), saved) : plaintextSecrets(saved);
+    return { ...config, ...values };
+};
@@ -0,0 +1,102 @@
+import { Session, User } from '../types';
+import { getUserById, saveSession, getSession, getSessionsByUser, deleteSession, deleteSessionsByUser } from './db';
+import { hashToken, generateToken } from './tokens';
+
+// Login sessions. The device keeps a random token in localStorage; the sessions store only
+// holds its SHA-256, so reading the database doesn't hand out usable tokens.
+
+const TOKEN_STORAGE_KEY = 'cloudfire_session';
+export const SESSION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+export const SESSION_IDLE_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+// lastActiveAt is written at most this often, so activity doesn't turn into a write per click
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+const isExpired = (session: Session, now = Date.now()) =>
+    now >= new Date(session.expiresAt).getTime() ||
+    now - new Date(session.lastActiveAt).getTime() >= SESSION_IDLE_TIMEOUT_MS;
+
+// Id of this device's session, or null when signed out
+export const getCurrentSessionId = async (): Promise<string | null> => {
+    const token = localStorage.getItem(TOKEN_STORAGE_KEY);
+    return token ? hashToken(token) : null;
+};
+
+// Signs the user in on this device
+export const createSession = async (userId: string): Promise<Session> => {
+    const token = generateToken();
+    const now = new Date();
+    const session: Session = {
+        id: await hashToken(token),
+        userId,
+        createdAt: now.toISOString(),
+        lastActiveAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + SESSION_LIFETIME_MS).toISOString(),
+        userAgent: navigator.userAgent,
+    };
+    await saveSession(session);
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    return session;
+};
+
+// The user behind this device's session. Expired, idle, revoked or blocked-account sessions
+// resolve to null and are cleaned up; valid ones count as activity.
+export const restoreSession = async (): Promise<User | null> => {
+    const id = await getCurrentSessionId();
+    if (!id) return null;
+    const session = await getSession(id);
+    const user = session && !isExpired(session) ? await getUserById(session.userId) : undefined;
+    if (!session || !user || !user.isActive) {
+        if (session) await deleteSession(session.id);
+        localStorage.removeItem(TOKEN_STORAGE_KEY);
+        return null;
+    }
+    await touchSession();
+    return user;
+};
+
+let lastTouch = 0;
+
+export const touchSession = async (): Promise<void> => {
+    if (Date.now() - lastTouch < TOUCH_INTERVAL_MS) return;
+    lastTouch = Date.now();
+    const id = await getCurrentSessionId();
+    if (!id) return;
+    const session = await getSession(id);
+    if (!session || isExpired(session)) return;
+    if (Date.now() - new Date(session.lastActiveAt).getTime() < TOUCH_INTERVAL_MS) return;
+    await saveSession({ ...session, lastActiveAt: new Date().toISOString() });
+};
+
+// Logs this device out
+export const endSession = async (): Promise<void> => {
+    const id = await getCurrentSessionId();
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    if (id) await deleteSession(id);
+};
+
+// Active sessions, most recently used first; expired leftovers are dropped on the way
+export const getActiveSessions = async (userId: string): Promise<Session[]> => {
+    const sessions = await getSessionsByUser(userId);
+    const active: Session[] = [];
+    for (const session of sessions) {
+        if (isExpired(session)) await deleteSession(session.id);
+        else active.push(session);
+    }
+    return active.sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt));
+};
+
+export const revokeSession = (id: string): Promise<void> => deleteSession(id);
+
+// Keeps this device signed in, e.g. after a password change
+export const revokeOtherSessions = async (userId: string): Promise<void> => {
+    const current = await getCurrentSessionId();
+    for (const session of await getSessionsByUser(userId)) {
+        if (session.id !== current) await deleteSession(session.id);
+    }
+};
+
+// "Log out of all devices", this one included
+export const revokeAllSessions = async (userId: string): Promise<void> => {
+    await deleteSessionsByUser(userId);
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { createSha256, sha256Blob } from './sha256';
+
+// FIPS 180-4 / NIST CSRC example values
+const VECTORS: [string, string][] = [
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    ['abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'],
+    [
+        'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu',
+        'cf5b16a778af8380036ce59e7b0492370b249b11e8f07a51afac45037afee9d1',
+    ],
+];
+
+const MILLION_A = 'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+// Feeds `data` to a fresh hasher in slices of the given sizes, cycling through them
+const hashInSlices = (data: Uint8Array, sizes: number[]) => {
+    const hasher = createSha256();
+    for (let pos = 0, i = 0; pos < data.length; i++) {
+        const size = sizes[i % sizes.length];
+        hasher.update(data.subarray(pos, pos + size));
+        pos += size;
+    }
+    return hasher.digestHex();
+};
+
+describe('incremental SHA-256', () => {
+    it.each(VECTORS)('matches the known answer for %j', (input, expected) => {
+        const hasher = createSha256();
+        hasher.update(encode(input));
+        expect(hasher.digestHex()).toBe(expected);
+    });
+
+    it('gives the same digest however the input is split across updates', () => {
+        const input = encode(VECTORS[3][0]);
+        for (const sizes of [[1], [3, 7], [55, 1], [56], [63, 2], [64], [65]]) {
+            expect(hashInSlices(input, sizes)).toBe(VECTORS[3][1]);
+        }
+    });
+
+    it('hashes a million "a" fed in uneven slices', () => {
+        expect(hashInSlices(new Uint8Array(1_000_000).fill(0x61), [1000, 17, 4096])).toBe(MILLION_A);
+    });
+
+    it('handles the padding edge around one block', () => {
+        for (const length of [55, 56, 63, 64, 119, 120]) {
+            const data = Uint8Array.from({ length }, (_, i) => i);
+            expect(hashInSlices(data, [length])).toBe(createHash('sha256').update(data).digest('hex'));
+        }
+    });
+});
+
+describe('sha256Blob', () => {
+    it('hashes small blobs through WebCrypto', async () => {
+        expect(await sha256Blob(new Blob(['abc']))).toBe(VECTORS[1][1]);
+    });
+
+    it('streams blobs past the WebCrypto limit slice by slice', async () => {
+        // One byte over 64 MiB, so the last read slice is short
+        const data = new Uint8Array(64 * 1024 * 1024 + 1);
+        for (let i = 0; i < data.length; i += 4093) data[i] = i & 0xff;
+        const progress: number[] = [];
+
+        const digest = await sha256Blob(new Blob([data]), hashed => progress.push(hashed));
+        expect(digest).toBe(createHash('sha256').update(data).digest('hex'));
+        expect(progress.at(-1)).toBe(data.length);
+        expect(progress.length).toBeGreaterThan(1);
+    });
+});
@@ -0,0 +1,90 @@
+import { ShareEvent, ShareFields, ShareTimelineDay } from '../types';
+import { toHex } from './encoding';
+
+// Rules for public share links, shared by the data layer and the share modal
+
+export type ShareExpiryChoice = '1h' | '24h' | '7d' | 'custom' | 'never';
+
+export const SHARE_EXPIRY_LABELS: Record<ShareExpiryChoice, string> = {
+    '1h': '1 hora',
+    '24h': '24 horas',
+    '7d': '7 dias',
+    custom: 'Personalizada',
+    never: 'Sem expiração',
+};
+
+const SHARE_EXPIRY_MS: Record<'1h' | '24h' | '7d', number> = {
+    '1h': 60 * 60 * 1000,
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+// Absolute expiry for a choice of the share modal; custom values come from a datetime-local input
+export const resolveShareExpiry = (choice: ShareExpiryChoice, custom: string, now = Date.now()): string | undefined => {
+    if (choice === 'never') return undefined;
+    if (choice !== 'custom') return new Date(now + SHARE_EXPIRY_MS[choice]).toISOString();
+    const time = new Date(custom).getTime();
+    if (!custom || isNaN(time)) throw new Error('Escolha a data de expiração do link.');
+    if (time <= now) throw new Error('A data de expiração precisa estar no futuro.');
+    return new Date(time).toISOString();
+};
+
+export type ShareProblem = 'expired' | 'exhausted';
+
+export const SHARE_PROBLEM_MESSAGES: Record<ShareProblem, string> = {
+    expired: 'Este link de compartilhamento expirou.',
+    exhausted: 'Este link atingiu o limite de downloads definido pelo dono.',
+};
+
+// Why a shared file's or folder's link may no longer be used, or null while it is valid
+export const getShareProblem = (item: ShareFields, now = Date.now()): ShareProblem | null => {
+    if (item.shareExpiresAt && now >= new Date(item.shareExpiresAt).getTime()) return 'expired';
+    if (item.shareMaxDownloads !== undefined && (item.shareDownloads || 0) >= item.shareMaxDownloads) return 'exhausted';
+    return null;
+};
+
+// --- Access Analytics ---
+
+export const SHARE_TIMELINE_DAYS = 14;
+
+const toLocalDay = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Views and downloads per local day over the last `days` days, today included; older events are left out
+export const buildShareTimeline = (
+    events: Pick<ShareEvent, 'kind' | 'timestamp'>[],
+    days = SHARE_TIMELINE_DAYS,
+    now = new Date()
+): ShareTimelineDay[] => {
+    const timeline: ShareTimelineDay[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+        timeline.push({ date: toLocalDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - i)), views: 0, downloads: 0 });
+    }
+    const byDate = new Map(timeline.map(day => [day.date, day]));
+    for (const event of events) {
+        const day = byDate.get(toLocalDay(new Date(event.timestamp)));
+        if (!day) continue;
+        if (event.kind === 'view') day.views++;
+        else day.downloads++;
+    }
+    return timeline;
+};
+
+// Traits many browsers have in common (no canvas or font probing), hashed and cut short: enough to
+// tell the visitors of one link apart, not to follow anyone across sites
+let clientFingerprint: Promise<string> | null = null;
+
+export const getClientFingerprint = (): Promise<string> => {
+    if (!clientFingerprint) {
+        const traits = [
+            navigator.userAgent,
+            navigator.language,
+            Intl.DateTimeFormat().resolvedOptions().timeZone,
+            `${screen.width}x${screen.height}`,
+        ].join('|');
+        clientFingerprint = crypto.subtle.digest('SHA-256', new TextEncoder().encode(traits)).then(digest =>
+            toHex(new Uint8Array(digest).slice(0, 6))
+        );
+    }
+    return clientFingerprint;
+};
@@ -0,0 +1,490 @@
+import { Actor, CloudFile, CDNConfig, FileAccess, ConnectionTestResult, ObjectMeta, ShareFields, StorageProvider, StorageProviderId, UploadSession } from '../types';
+import {
+    getBlob, deleteBlob, listBlobs, putChunk, getChunks, deleteChunks,
+    addFileToDB, deleteFileFromDB, getTrashedItems, updateFileStorage, getFolderPath,
+    saveUploadSession, getUploadSessions, deleteUploadSession,
+    getStoredObject, updateStoredObject, getFilesByContentHash, getFile, getSharedFile, getSharedFolderFiles, assertCanCreate, assertAdminAccess
+} from './db';
+import {
+    putObject, getObject, deleteObject, listObjects, presignGetObject, DEFAULT_PRESIGN_SECONDS,
+    createMultipartUpload, uploadPart, completeMultipartUpload, abortMultipartUpload
+} from './s3';
+import { createDriveProvider } from './drive';
+import { sha256Blob } from './sha256';
+import { getProviderConfig } from './secrets';
+import { ForbiddenError, assertCanAccess } from './permissions';
+import { getUploadKey, requireUserKey } from './encryption';
+import { GCM_TAG_BYTES, createFileEncryption, unwrapFileKey, importFileKey, encryptChunk, decryptContent } from './fileCrypto';
+import { DEFAULT_ROOT_PATH, ENCRYPTED_OBJECT_NAME, buildObjectKey, buildStorageKey } from './storageKeys';
+import { ZipEntry } from './zip';
+
+// 8 MB: above the 5 MB minimum S3 imposes on every multipart part but the last
+export const CHUNK_SIZE = 8 * 1024 * 1024;
+
+// --- Providers ---
+
+// Bytes live in the IndexedDB 'chunks' store, keyed by storageKey + chunk index.
+// Files written before chunking existed are still read from the 'blobs' store.
+const localProvider: StorageProvider = {
+    id: 'local',
+    put: async (key, data) => {
+        await deleteChunks(key);
+        for (let index = 0; index * CHUNK_SIZE < data.size || index === 0; index++) {
+            await putChunk(key, index, data.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE));
+        }
+    },
+    get: async (key) => {
+        const chunks = await getChunks(key);
+        return chunks.length > 0 ? new Blob(chunks) : getBlob(key);
+    },
+    delete: async (key) => {
+        await deleteChunks(key);
+        await deleteBlob(key);
+    },
+    list: (prefix) => listBlobs(prefix),
+    // Chunks are written straight under the final key; no record points at them until completion
+    createMultipart: async () => `local-${Date.now()}`,
+    putPart: async (key, _uploadId, partNumber, data, options) => {
+        if (options?.signal?.aborted) throw new DOMException('Envio cancelado', 'AbortError');
+        await putChunk(key, partNumber - 1, data);
+        options?.onProgress?.(data.size);
+        return { partNumber };
+    },
+    completeMultipart: async () => {},
+    abortMultipart: (key) => deleteChunks(key),
+};
+
+const createS3Provider = (config: CDNConfig): StorageProvider => ({
+    id: config.provider,
+    put: (key, data) => putObject(config, key, data),
+    get: (key) => getObject(config, key),
+    delete: (key) => deleteObject(config, key),
+    list: (prefix) => listObjects(config, prefix),
+    createMultipart: (key, contentType) => createMultipartUpload(config, key, contentType),
+    putPart: (key, uploadId, partNumber, data, options) => uploadPart(config, key, uploadId, partNumber, data, options),
+    completeMultipart: (key, uploadId, parts) => completeMultipartUpload(config, key, uploadId, parts),
+    abortMultipart: (key, uploadId) => abortMultipartUpload(config, key, uploadId),
+    getDownloadUrl: (key, options) => presignGetObject(config, key, options),
+});
+
+export const getStorageProvider = (config: CDNConfig): StorageProvider => {
+    switch (config.provider) {
+        case 'local':
+            return localProvider;
+        case 'aws':
+        case 'wasabi':
+            return createS3Provider(config);
+        case 'google_drive':
+            return createDriveProvider(config);
+        default:
+            throw new Error(`Provedor de armazenamento não suportado: ${config.provider}`);
+    }
+};
+
+// Provider for an existing record: files remember which backend they were written to
+const resolveProvider = async (providerId: StorageProviderId = 'local'): Promise<StorageProvider> => {
+    if (providerId === 'local') return localProvider;
+    return getStorageProvider(await getProviderConfig(providerId));
+};
+
+const getObjectMeta = async (file: CloudFile): Promise<ObjectMeta> => file.encryption
+    ? { name: `${file.id}.enc` }
+    : { name: file.name, folderPath: await getFolderPath(file.parentId) };
+
+// --- Config Validation ---
+
+const REQUIRED_FIELDS: Record<StorageProviderId, { field: keyof CDNConfig; label: string }[]> = {
+    local: [],
+    aws: [
+        { field: 'bucket', label: 'Bucket Name' },
+        { field: 'region', label: 'Region' },
+        { field: 'accessKey', label: 'Access Key' },
+        { field: 'secretKey', label: 'Secret Key' },
+    ],
+    wasabi: [
+        { field: 'endpoint', label: 'Endpoint URL' },
+        { field: 'bucket', label: 'Bucket Name' },
+        { field: 'region', label: 'Region' },
+        { field: 'accessKey', label: 'Access Key' },
+        { field: 'secretKey', label: 'Secret Key' },
+    ],
+    google_drive: [
+        { field: 'clientId', label: 'Client ID' },
+        { field: 'clientSecret', label: 'Client Secret' },
+        { field: 'refreshToken', label: 'Refresh Token' },
+    ],
+};
+
+// Returns human-readable problems; an empty list means the config can be saved
+export const validateCDNConfig = (config: CDNConfig): string[] => {
+    const errors: string[] = [];
+    const rootPath = config.rootPath?.trim() || '';
+
+    if (!rootPath) errors.push('Caminho Base é obrigatório.');
+    else if (rootPath.startsWith('/') || rootPath.split('/').some(s => s === '..' || s === '.')) {
+        errors.push('Caminho Base deve ser relativo e não pode conter "." ou "..".');
+    }
+
+    for (const { field, label } of REQUIRED_FIELDS[config.provider] || []) {
+        if (!String(config[field] || '').trim()) errors.push(`${label} é obrigatório.`);
+    }
+
+    if (config.endpoint?.trim() && config.provider !== 'local') {
+        try {
+            const url = new URL(config.endpoint);
+            if (url.protocol !== 'http:' && url.protocol !== 'https:') errors.push('Endpoint deve usar http:// ou https://.');
+        } catch {
+            errors.push('Endpoint não é uma URL válida.');
+        }
+    }
+
+    if ((config.provider === 'aws' || config.provider === 'wasabi') && config.bucket &&
+        !/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(config.bucket)) {
+        errors.push('Bucket Name deve ter 3-63 caracteres minúsculos, números, "." ou "-".');
+    }
+
+    return errors;
+};
+
+// Round-trips a small probe object through the provider: write, read back and compare, delete
+export const testConnection = async (config: CDNConfig): Promise<ConnectionTestResult> => {
+    const steps: ConnectionTestResult['steps'] = [];
+    const started = performance.now();
+    const key = `${(config.rootPath || DEFAULT_ROOT_PATH).replace(/\/+$/, '')}/.cloudfire-probe-${Date.now()}`;
+    const payload = `cloudfire-probe ${new Date().toISOString()}`;
+    let step: ConnectionTestResult['steps'][number]['name'] = 'write';
+
+    const timed = async <T>(name: typeof step, action: () => Promise<T>): Promise<T> => {
+        step = name;
+        const t0 = performance.now();
+        const result = await action();
+        steps.push({ name, ms: Math.round(performance.now() - t0) });
+        return result;
+    };
+
+    try {
+        const provider = getStorageProvider(config);
+        await timed('write', () => provider.put(key, new Blob([payload], { type: 'text/plain' }), { name: key.split('/').pop() }));
+        const echoed = await timed('read', () => provider.get(key));
+        if (!echoed) throw new Error('O objeto de teste não foi encontrado após a escrita.');
+        if (await echoed.text() !== payload) throw new Error('O conteúdo lido difere do que foi gravado.');
+        await timed('delete', () => provider.delete(key));
+        return { ok: true, latencyMs: Math.round(performance.now() - started), steps };
+    } catch (e: any) {
+        return {
+            ok: false,
+            latencyMs: Math.round(performance.now() - started),
+            steps,
+            failedStep: step,
+            error: e?.message || String(e),
+        };
+    }
+};
+
+// --- File Content Operations ---
+
+export type UploadProgressHandler = (processedBytes: number, totalBytes: number, phase: 'hashing' | 'uploading') => void;
+
+// An interrupted upload is picked up again when the same local file is sent to the same folder
+const findResumableSession = async (actor: Actor, file: CloudFile, data: Blob): Promise<UploadSession | undefined> => {
+    const lastModified = data instanceof File ? data.lastModified : 0;
+    const sessions = await getUploadSessions(actor);
+    return sessions.find(s =>
+        s.parentId === file.parentId && s.name === file.name &&
+        s.size === data.size && s.lastModified === lastModified
+    );
+};
+
+const startUploadSession = async (
+    actor: Actor,
+    provider: StorageProvider,
+    file: CloudFile,
+    data: Blob,
+    storageKey: string,
+    fields: Pick<UploadSession, 'chunkSize' | 'contentHash' | 'encryption'>
+): Promise<UploadSession> => {
+    const contentType = fields.encryption ? 'application/octet-stream' : file.mimeType;
+    const session: UploadSession = {
+        id: file.id,
+        ownerId: actor.id, // The uploader, who can resume or discard it; the file may go to a shared folder's owner
+        parentId: file.parentId,
+        name: file.name,
+        size: data.size,
+        mimeType: file.mimeType,
+        lastModified: data instanceof File ? data.lastModified : 0,
+        storageKey,
+        storageProvider: provider.id,
+        uploadId: await provider.createMultipart(storageKey, contentType, await getObjectMeta({ ...file, encryption: fields.encryption })),
+        parts: [],
+        ...fields,
+        createdAt: new Date().toISOString(),
+    };
+    await saveUploadSession(session);
+    return session;
+};
+
+// Hashes the content first: if an identical blob is already stored the new record just references it.
+// Otherwise sends the bytes chunk by chunk to the active provider, persisting progress after each
+// chunk, then writes the record pointing at them. Aborting the signal discards the upload entirely.
+// Users with encryption turned on skip the hashing: each chunk is encrypted before it leaves.
+export const uploadFile = async (
+    actor: Actor,
+    file: CloudFile,
+    data: Blob,
+    onProgress?: UploadProgressHandler,
+    signal?: AbortSignal
+): Promise<CloudFile> => {
+    // Checked before any bytes move; addFileToDB checks again when writing the record
+    await assertCanCreate(actor, file);
+    const config = await getProviderConfig();
+    const provider = getStorageProvider(config);
+    // Files added to someone else's shared folder stay in the clear: the owner couldn't open them otherwise
+    const userKey = file.ownerId === actor.id ? await getUploadKey(actor) : null;
+
+    let session = await findResumableSession(actor, file, data);
+    if (session && (session.storageProvider !== provider.id || !!session.encryption !== !!userKey)) {
+        // The admin switched backends mid-upload, or the user turned encryption on since:
+        // the parts already sent are useless now
+        await discardUpload(actor, session);
+        session = undefined;
+    }
+    if (!session && userKey) {
+        // Never deduplicated: every file has its own key, and a shared hash would reveal who holds what
+        const encryption = await createFileEncryption(userKey, CHUNK_SIZE);
+        const storageKey = buildStorageKey(config.rootPath, file.id, ENCRYPTED_OBJECT_NAME);
+        session = await startUploadSession(actor, provider, file, data, storageKey, { chunkSize: encryption.chunkSize, encryption });
+    }
+    if (!session) {
+        const contentHash = await sha256Blob(data, hashed => onProgress?.(hashed, data.size, 'hashing'), signal);
+        const existing = await getStoredObject(actor, contentHash);
+        if (existing) {
+            const stored: CloudFile = {
+                ...file,
+                storageKey: existing.storageKey,
+                storageProvider: existing.storageProvider,
+                contentHash,
+            };
+            await addFileToDB(actor, stored);
+            onProgress?.(data.size, data.size, 'uploading');
+            return stored;
+        }
+
+        const storageKey = buildObjectKey(config.rootPath, contentHash);
+        session = await startUploadSession(actor, provider, file, data, storageKey, { chunkSize: CHUNK_SIZE, contentHash });
+    }
+
+    const fileKey = session.encryption && userKey ? await unwrapFileKey(userKey, session.encryption) : null;
+    // Each encrypted part is its plaintext chunk plus the GCM tag
+    const partSize = session.encryption ? session.chunkSize + GCM_TAG_BYTES : session.chunkSize;
+    const totalChunks = Math.max(1, Math.ceil(data.size / session.chunkSize));
+    let uploadedBytes = Math.min(data.size, session.parts.length * session.chunkSize);
+    onProgress?.(uploadedBytes, data.size, 'uploading');
+
+    try {
+        for (let index = session.parts.length; index < totalChunks; index++) {
+            if (signal?.aborted) throw new DOMException('Envio cancelado', 'AbortError');
+            const chunk = data.slice(index * session.chunkSize, (index + 1) * session.chunkSize);
+            const body = fileKey ? await encryptChunk(fileKey, session.encryption!, index, chunk) : chunk;
+            const part = await provider.putPart(session.storageKey, session.uploadId, index + 1, body, {
+                offset: index * partSize,
+                onProgress: loaded => onProgress?.(uploadedBytes + Math.min(loaded, chunk.size), data.size, 'uploading'),
+                signal,
+            });
+            uploadedBytes += chunk.size;
+            session.parts.push(part);
+            await saveUploadSession(session);
+        }
+    } catch (e) {
+        // Failures keep the session for a later resume; cancellations don't
+        if (signal?.aborted) await discardUpload(actor, session);
+        throw e;
+    }
+
+    await provider.completeMultipart(session.storageKey, session.uploadId, session.parts);
+
+    const stored: CloudFile = {
+        ...file,
+        id: session.id,
+        storageKey: session.storageKey,
+        storageProvider: session.storageProvider,
+        contentHash: session.contentHash,
+        encryption: session.encryption,
+    };
+    try {
+        await addFileToDB(actor, stored);
+    } catch (e) {
+        // Don't leave orphaned bytes behind if the record couldn't be written
+        if (!(await isObjectInUse(actor, session))) await provider.delete(session.storageKey).catch(() => {});
+        await deleteUploadSession(session.id);
+        throw e;
+    }
+    await deleteUploadSession(session.id);
+    return stored;
+};
+
+export const getPendingUploads = (actor: Actor): Promise<UploadSession[]> => getUploadSessions(actor);
+
+// Parallel uploads of the same content write to the same key; once one of them completed,
+// the bytes under that key belong to a StoredObject
+const isObjectInUse = async (actor: Actor, session: UploadSession) =>
+    !!session.contentHash && (await getStoredObject(actor, session.contentHash))?.storageKey === session.storageKey;
+
+export const discardUpload = async (actor: Actor, session: UploadSession): Promise<void> => {
+    assertCanAccess(actor, session, 'write');
+    try {
+        const provider = await resolveProvider(session.storageProvider);
+        // Aborting a local upload deletes the chunks under the key, i.e. the stored object itself
+        if (provider.id !== 'local' || !(await isObjectInUse(actor, session))) {
+            await provider.abortMultipart(session.storageKey, session.uploadId);
+        }
+    } catch (e) {
+        console.error("Failed to abort upload", e);
+    }
+    await deleteUploadSession(session.id);
+};
+
+// Re-reads the record through the caller's access, so a stale or forged CloudFile can't
+// point at someone else's bytes. Share links read with { shareToken } instead of a user; unless
+// `checkOnly`, a read through one counts as its `purpose` says (see getSharedFile).
+const authorizeRead = async (access: FileAccess, fileId: string, checkOnly = false): Promise<{ file: CloudFile; link?: ShareFields }> => {
+    if ('shareToken' in access) return getSharedFile(access, fileId, checkOnly ? 'check' : access.purpose || 'download');
+    return { file: await getFile(access, fileId) };
+};
+
+// Share links bring the file key in their fragment; owners unwrap it with their unlocked user key
+const resolveFileKey = async (access: FileAccess, file: CloudFile): Promise<CryptoKey> => {
+    if ('shareToken' in access) {
+        if (!access.fileKey) throw new Error('Este link está incompleto: falta a chave para descriptografar o arquivo.');
+        return importFileKey(access.fileKey);
+    }
+    if (file.ownerId !== access.id) throw new ForbiddenError('read', file.id, 'Este arquivo é criptografado e só pode ser aberto pelo dono.');
+    return unwrapFileKey(requireUserKey(access), file.encryption!);
+};
+
+// Encrypted files are decrypted here; key problems throw instead of reading as a missing file
+export const getFileContent = async (access: FileAccess, requested: CloudFile): Promise<Blob | undefined> => {
+    const { file } = await authorizeRead(access, requested.id);
+    if (!file.storageKey) return undefined;
+    const fileKey = file.encryption ? await resolveFileKey(access, file) : null;
+    const blob = await readStoredContent(file);
+    if (!blob) return undefined;
+    if (fileKey) return decryptContent(fileKey, file.encryption!, blob, file.size, file.mimeType);
+    // Reassembled chunks carry no type, which some media elements need
+    return !blob.type ? new Blob([blob], { type: file.mimeType }) : blob;
+};
+
+// The stored bytes of an already authorized record, as they are (still encrypted, if the file is)
+const readStoredContent = async (file: CloudFile): Promise<Blob | undefined> => {
+    try {
+        const provider = await resolveProvider(file.storageProvider);
+        return await provider.get(file.storageKey!);
+    } catch (e) {
+        console.error("Failed to read file content", e);
+        return undefined;
+    }
+};
+
+// "Download all" of a folder link. getSharedFolderFiles takes the link's one download for the
+// whole archive, so the files are read here without counting each again. Share listings never
+// include encrypted files.
+export const getSharedFolderEntries = async (token: string, password?: string): Promise<ZipEntry[]> => {
+    const entries: ZipEntry[] = [];
+    for (const { path, file } of await getSharedFolderFiles(token, password)) {
+        const blob = file.storageKey ? await readStoredContent(file) : undefined;
+        if (!blob) throw new Error(`Conteúdo de "${file.name}" não encontrado.`);
+        entries.push({ path, data: blob, modifiedAt: new Date(file.createdAt) });
+    }
+    return entries;
+};
+
+// Direct link for remote providers; undefined means the caller should fall back to getFileContent
+export const getFileDownloadUrl = async (access: FileAccess, requested: CloudFile, expiresIn?: number): Promise<string | undefined> => {
+    const { file, link } = await authorizeRead(access, requested.id, true);
+    // A direct link would hand out ciphertext; encrypted files always go through getFileContent
+    if (!file.storageKey || file.encryption) return undefined;
+    const provider = await resolveProvider(file.storageProvider);
+    if (!provider.getDownloadUrl) return undefined;
+    // A presigned URL works any number of times until it expires; on links with a download limit
+    // the content goes through getFileContent so each download is counted
+    if (link?.shareMaxDownloads !== undefined) return undefined;
+    // Handing out the URL is the download (or preview) itself
+    if ('shareToken' in access) await authorizeRead(access, file.id);
+    // A presigned URL handed out through a share link must not outlive the link
+    if (link?.shareExpiresAt) {
+        const remaining = Math.floor((new Date(link.shareExpiresAt).getTime() - Date.now()) / 1000);
+        expiresIn = Math.max(1, Math.min(expiresIn ?? DEFAULT_PRESIGN_SECONDS, remaining));
+    }
+    return provider.getDownloadUrl(file.storageKey, { expiresIn, fileName: file.name });
+};
+
+// Permanently removes the record, and the bytes once no other record references them
+export const purgeFile = async (actor: Actor, requested: CloudFile): Promise<void> => {
+    const file = await getFile(actor, requested.id, 'delete');
+    const orphan = await deleteFileFromDB(actor, file.id);
+    if (orphan) {
+        const provider = await resolveProvider(orphan.storageProvider);
+        await provider.delete(orphan.storageKey);
+    } else if (file.storageKey && !file.contentHash) {
+        // Files stored before content addressing, and encrypted ones, own their bytes outright
+        const provider = await resolveProvider(file.storageProvider);
+        await provider.delete(file.storageKey);
+    }
+};
+
+// --- Provider Migration ---
+
+// Copies a file's bytes to the provider in `config`, verifies the copy, repoints the record
+// and finally removes the original. Throws (leaving the record untouched) if any step fails.
+// Content-addressed files move their whole StoredObject, repointing every file that shares it.
+export const migrateFile = async (actor: Actor, file: CloudFile, config: CDNConfig): Promise<void> => {
+    await assertAdminAccess(actor);
+    if (!file.storageKey) throw new Error('Arquivo sem caminho de armazenamento');
+    const target = getStorageProvider(config);
+    const object = file.contentHash ? await getStoredObject(actor, file.contentHash) : undefined;
+    const targetKey = object
+        ? buildObjectKey(config.rootPath, object.hash)
+        : buildStorageKey(config.rootPath, file.id, file.encryption ? ENCRYPTED_OBJECT_NAME : file.name);
+
+    if (object && object.storageProvider === target.id && object.storageKey === targetKey) {
+        // Already moved while migrating another file with the same content
+        if (file.storageKey !== targetKey || file.storageProvider !== target.id) {
+            await updateFileStorage(actor, file.id, targetKey, target.id);
+        }
+        return;
+    }
+    const sourceKey = object ? object.storageKey : file.storageKey;
+    const source = await resolveProvider(object ? object.storageProvider : file.storageProvider);
+    if (source.id === target.id && targetKey === sourceKey) return;
+
+    const original = await source.get(sourceKey);
+    if (!original) throw new Error('Conteúdo original não encontrado no provedor de origem');
+
+    await target.put(targetKey, original, await getObjectMeta(file));
+    // Content-addressed copies must hash to their object's name; others to the original's hash
+    const expectedHash = object ? object.hash : await sha256Blob(original);
+    const copy = await target.get(targetKey);
+    const matches = !!copy && copy.size === original.size && await sha256Blob(copy) === expectedHash;
+    if (!matches) {
+        await target.delete(targetKey).catch(() => {});
+        throw new Error('A cópia não confere com o original');
+    }
+
+    if (object) {
+        await updateStoredObject(actor, { ...object, storageKey: targetKey, storageProvider: target.id });
+        for (const sibling of await getFilesByContentHash(actor, object.hash)) {
+            await updateFileStorage(actor, sibling.id, targetKey, target.id);
+        }
+    } else {
+        await updateFileStorage(actor, file.id, targetKey, target.id);
+    }
+    // The records already point at the copy; a leftover original is only wasted space
+    await source.delete(sourceKey).catch(e => console.error("Failed to remove migrated original", e));
+};
+
+export const emptyTrash = async (actor: Actor): Promise<void> => {
+    const { files } = await getTrashedItems(actor);
+    for (const file of files) {
+        await purgeFile(actor, file);
+    }
+    // We could handle folders here too if we implemented soft delete for them fully
+};
@@ -0,0 +1,15 @@
+// Where objects live under the provider's root path. Shared by the storage layer, which writes
+// them, and the data layer, which decides what key a new file record may point at.
+
+export const DEFAULT_ROOT_PATH = 'public/content';
+
+// Encrypted objects get a neutral name, so the provider learns neither file nor folder names
+export const ENCRYPTED_OBJECT_NAME = 'content.enc';
+
+// Layout used before content addressing; still where unhashed files are kept
+export const buildStorageKey = (rootPath: string | undefined, fileId: string, fileName: string) =>
+    `${(rootPath || DEFAULT_ROOT_PATH).replace(/\/+$/, '')}/${fileId}/${fileName}`;
+
+// Content-addressed layout, fanned out by the first byte of the hash
+export const buildObjectKey = (rootPath: string | undefined, contentHash: string) =>
+    `${(rootPath || DEFAULT_ROOT_PATH).replace(/\/+$/, '')}/objects/${contentHash.slice(0, 2)}/${contentHash}`;
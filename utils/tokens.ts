@@ -0,0 +1,9 @@
+import { sha256Hex, toHex } from './encoding';
+
+// Bearer tokens (login sessions, personal access tokens, password resets). Stores only ever hold a
+// token's SHA-256, so reading the database doesn't hand out usable tokens.
+
+export const hashToken = (token: string): Promise<string> => sha256Hex(token);
+
+// 256 random bits as hex, after an optional prefix that tells token kinds apart
+export const generateToken = (prefix = ''): string => prefix + toHex(crypto.getRandomValues(new Uint8Array(32)));
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { buildOtpAuthUri, currentTimeStep, generateTotp, generateTotpSecret, hashRecoveryCode, verifyTotp } from './totp';
+
+// RFC 6238 appendix B, SHA-1 rows: the seed is the ASCII "12345678901234567890". The RFC lists
+// 8-digit codes; the last six digits are the 6-digit codes the app uses.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS: [number, string][] = [
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130'],
+];
+
+describe('TOTP', () => {
+    it.each(RFC_VECTORS)('matches RFC 6238 at T = %i s', async (seconds, code) => {
+        expect(await generateTotp(RFC_SECRET, currentTimeStep(seconds * 1000))).toBe(code.slice(-6));
+    });
+
+    it('accepts codes one step away and returns their step', async () => {
+        const now = 1111111111 * 1000;
+        const step = currentTimeStep(now);
+        expect(await verifyTotp(RFC_SECRET, '050471', now)).toBe(step);
+        expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step - 1), now)).toBe(step - 1);
+        expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    });
+
+    it('rejects codes outside the window and malformed input', async () => {
+        const now = 1111111111 * 1000;
+        const step = currentTimeStep(now);
+        expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step - 2), now)).toBeNull();
+        expect(await verifyTotp(RFC_SECRET, '05047', now)).toBeNull();
+        expect(await verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+        expect(await verifyTotp(RFC_SECRET, '050 471', now)).toBe(step);
+    });
+
+    it('generates 160-bit base32 secrets that authenticator URIs carry as they are', () => {
+        const secret = generateTotpSecret();
+        expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+        const uri = new URL(buildOtpAuthUri(secret, 'ana'));
+        expect(uri.searchParams.get('secret')).toBe(secret);
+        expect(uri.searchParams.get('period')).toBe('30');
+    });
+
+    it('hashes recovery codes regardless of case and separators', async () => {
+        expect(await hashRecoveryCode('K3F9-X2MQ')).toBe(await hashRecoveryCode('k3f9x2mq'));
+    });
+});
@@ -0,0 +1,105 @@
+import { sha256Hex } from './encoding';
+
+// TOTP (RFC 6238) with the parameters every authenticator app supports by default:
+// HMAC-SHA1, 6 digits, 30-second steps.
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+// Codes from one step before or after are accepted to tolerate clock drift
+const TOTP_WINDOW = 1;
+const ISSUER = 'CloudFire';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// --- Base32 (RFC 4648, no padding) ---
+
+const base32Encode = (bytes: Uint8Array): string => {
+    let bits = 0, value = 0, out = '';
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return out;
+};
+
+const base32Decode = (input: string): Uint8Array => {
+    const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+    const out: number[] = [];
+    let bits = 0, value = 0;
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Segredo TOTP inválido.');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            out.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(out);
+};
+
+// --- Codes ---
+
+// 160-bit secret, the size RFC 4226 recommends for HMAC-SHA1
+export const generateTotpSecret = (): string => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+export const currentTimeStep = (now = Date.now()) => Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+
+export const generateTotp = async (secret: string, step: number): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+    const counter = new DataView(new ArrayBuffer(8));
+    counter.setUint32(0, Math.floor(step / 0x100000000));
+    counter.setUint32(4, step >>> 0);
+    const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+// Resolves with the time step the code belongs to, or null when it matches none in the window.
+// Callers store the step and reject codes at or before it, so a code can't be replayed.
+export const verifyTotp = async (secret: string, code: string, now = Date.now()): Promise<number | null> => {
+    const normalized = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) return null;
+    const current = currentTimeStep(now);
+    for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+        if (await generateTotp(secret, step) === normalized) return step;
+    }
+    return null;
+};
+
+// URI understood by authenticator apps, encoded in the enrolment QR code
+export const buildOtpAuthUri = (secret: string, accountName: string): string => {
+    const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: ISSUER,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params}`;
+};
+
+// --- Recovery Codes ---
+
+// Ten groups like "k3f9-x2mq", from an alphabet without look-alike characters
+export const generateRecoveryCodes = (): string[] => {
+    const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const chars = Array.from(crypto.getRandomValues(new Uint8Array(8)), b => alphabet[b % alphabet.length]).join('');
+        return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+    });
+};
+
+export const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Recovery codes are random enough that a plain SHA-256 is a safe way to store them
+export const hashRecoveryCode = (code: string): Promise<string> => sha256Hex(normalizeRecoveryCode(code));
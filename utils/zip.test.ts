@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { crc32 as zlibCrc32 } from 'node:zlib';
+import { createZip } from './zip';
+
+interface ReadEntry {
+    path: string;
+    crc: number;
+    data: Uint8Array;
+    modifiedAt: { time: number; date: number };
+}
+
+// Reads an archive back through its central directory, the way unzip tools do, and checks that
+// every local header agrees with its directory entry
+const readZip = async (zip: Blob): Promise<ReadEntry[]> => {
+    const bytes = new Uint8Array(await zip.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054B50);
+    const count = view.getUint16(end + 10, true);
+    let pos = view.getUint32(end + 16, true);
+
+    const entries: ReadEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(pos, true)).toBe(0x02014B50);
+        const crc = view.getUint32(pos + 16, true);
+        const size = view.getUint32(pos + 20, true);
+        const nameLength = view.getUint16(pos + 28, true);
+        const local = view.getUint32(pos + 42, true);
+        const path = new TextDecoder().decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+
+        expect(view.getUint32(local, true)).toBe(0x04034B50);
+        expect(view.getUint16(local + 8, true)).toBe(0); // Stored
+        expect(view.getUint32(local + 14, true)).toBe(crc);
+        expect(view.getUint32(local + 18, true)).toBe(size);
+        const start = local + 30 + view.getUint16(local + 26, true);
+        entries.push({
+            path,
+            crc,
+            data: bytes.slice(start, start + size),
+            modifiedAt: { time: view.getUint16(local + 10, true), date: view.getUint16(local + 12, true) },
+        });
+        pos += 46 + nameLength;
+    }
+    return entries;
+};
+
+describe('ZIP writer', () => {
+    it('stores the standard CRC-32 check value', async () => {
+        const [entry] = await readZip(await createZip([{ path: 'check.txt', data: new Blob(['123456789']) }]));
+        expect(entry.crc).toBe(0xCBF43926);
+    });
+
+    it('computes the CRC across read chunks', async () => {
+        // Just over two 1 MiB CRC chunks
+        const data = new Uint8Array(2 * 1024 * 1024 + 3);
+        for (let i = 0; i < data.length; i++) data[i] = (i * 31) % 256;
+        const [entry] = await readZip(await createZip([{ path: 'big.bin', data: new Blob([data]) }]));
+        expect(entry.crc).toBe(zlibCrc32(data));
+        expect(Buffer.compare(entry.data, data)).toBe(0);
+    });
+
+    it('round-trips names, contents and dates', async () => {
+        const modifiedAt = new Date(2024, 4, 17, 13, 45, 31);
+        const zip = await createZip([
+            { path: 'Relatório/mês 1.txt', data: new Blob(['olá']), modifiedAt },
+            { path: 'vazio.txt', data: new Blob([]), modifiedAt },
+            { path: 'fotos/a.bin', data: new Blob([new Uint8Array([0, 255, 10, 13])]), modifiedAt },
+        ]);
+        expect(zip.type).toBe('application/zip');
+
+        const entries = await readZip(zip);
+        expect(entries.map(e => e.path)).toEqual(['Relatório/mês 1.txt', 'vazio.txt', 'fotos/a.bin']);
+        expect(new TextDecoder().decode(entries[0].data)).toBe('olá');
+        expect(entries[1].data).toHaveLength(0);
+        expect(entries[1].crc).toBe(0);
+        expect([...entries[2].data]).toEqual([0, 255, 10, 13]);
+        entries.forEach(e => expect(e.crc).toBe(zlibCrc32(e.data)));
+        // Two-second resolution: 31 s is stored as 30
+        expect(entries[0].modifiedAt).toEqual({ time: (13 << 11) | (45 << 5) | 15, date: (44 << 9) | (5 << 5) | 17 });
+    });
+
+    it('refuses more entries than a ZIP without ZIP64 can list', async () => {
+        const entries = Array.from({ length: 0x10000 }, (_, i) => ({ path: `${i}`, data: new Blob([]) }));
+        await expect(createZip(entries)).rejects.toThrow('grande demais para um único arquivo ZIP');
+    });
+});
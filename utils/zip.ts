@@ -0,0 +1,97 @@
+// Minimal ZIP writer for downloading a shared folder in one go. Entries are stored uncompressed
+// (the media people share rarely shrinks) and without ZIP64, which caps the archive at 4 GB and
+// 65535 entries. File contents stay Blobs, so building the archive doesn't copy them into memory.
+
+export interface ZipEntry {
+    path: string; // Inside the archive, folders separated by '/'
+    data: Blob;
+    modifiedAt?: Date;
+}
+
+const ZIP_MAX_BYTES = 0xFFFFFFFF;
+const ZIP_MAX_ENTRIES = 0xFFFF;
+const CRC_CHUNK_BYTES = 1024 * 1024;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = async (data: Blob): Promise<number> => {
+    let crc = 0xFFFFFFFF;
+    for (let offset = 0; offset < data.size; offset += CRC_CHUNK_BYTES) {
+        const bytes = new Uint8Array(await data.slice(offset, offset + CRC_CHUNK_BYTES).arrayBuffer());
+        for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS date and time, as ZIP headers store them (local time, two-second resolution)
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const TOO_LARGE_MESSAGE = 'A pasta é grande demais para um único arquivo ZIP. Baixe os arquivos individualmente.';
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+    if (entries.length > ZIP_MAX_ENTRIES) throw new Error(TOO_LARGE_MESSAGE);
+    const encoder = new TextEncoder();
+    const body: BlobPart[] = [];
+    const directory: BlobPart[] = [];
+    let offset = 0;
+    let directorySize = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.path);
+        const size = entry.data.size;
+        if (offset + 30 + name.length + size > ZIP_MAX_BYTES) throw new Error(TOO_LARGE_MESSAGE);
+        const crc = await crc32(entry.data);
+        const { time, date } = dosDateTime(entry.modifiedAt || new Date());
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034B50, true);
+        local.setUint16(4, 20, true); // Version needed to extract
+        local.setUint16(6, 0x0800, true); // Names are UTF-8
+        local.setUint16(8, 0, true); // Stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+        body.push(local.buffer, name, entry.data);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014B50, true);
+        header.setUint16(4, 20, true); // Version made by
+        header.setUint16(6, 20, true);
+        header.setUint16(8, 0x0800, true);
+        header.setUint16(10, 0, true);
+        header.setUint16(12, time, true);
+        header.setUint16(14, date, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, size, true);
+        header.setUint32(24, size, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true); // Where the local header starts
+        directory.push(header.buffer, name);
+
+        offset += 30 + name.length + size;
+        directorySize += 46 + name.length;
+    }
+    if (offset + directorySize > ZIP_MAX_BYTES) throw new Error(TOO_LARGE_MESSAGE);
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054B50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, offset, true);
+    return new Blob([...body, ...directory, end.buffer], { type: 'application/zip' });
+};